@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { explainMove } from '@/lib/cosmic'
+import { createGame, parseFEN, parseSAN } from '@/lib/chess'
+import { moveClassifications, isMoveClassification } from '@/lib/analysis'
+
+const MAX_LINE_LENGTH = 20
+
+// Explain an error found by post-game analysis: the position before it, the move played,
+// the engine's better line and how badly the move was rated
+export async function POST(request: NextRequest) {
+  try {
+    const { fen, move, bestLine, classification } = await request.json()
+
+    if (typeof fen !== 'string') {
+      return NextResponse.json({ error: 'fen is required' }, { status: 400 })
+    }
+    try {
+      parseFEN(fen)
+    } catch (error) {
+      return NextResponse.json({ error: `fen is invalid: ${error instanceof Error ? error.message : String(error)}` }, { status: 400 })
+    }
+
+    const played = typeof move === 'string' ? parseSAN(createGame(fen), move) : null
+    if (!played) {
+      return NextResponse.json({ error: 'move must be a legal move in the position' }, { status: 400 })
+    }
+
+    if (
+      !Array.isArray(bestLine) || bestLine.length === 0 || bestLine.length > MAX_LINE_LENGTH ||
+      !bestLine.every(san => typeof san === 'string')
+    ) {
+      return NextResponse.json({ error: `bestLine must be 1-${MAX_LINE_LENGTH} SAN moves` }, { status: 400 })
+    }
+
+    if (!isMoveClassification(classification)) {
+      return NextResponse.json({ error: `Unknown classification: ${classification}` }, { status: 400 })
+    }
+
+    const explanation = await explainMove(fen, played.san, bestLine, moveClassifications[classification].label.toLowerCase())
+    if (!explanation) {
+      return NextResponse.json({ error: 'Failed to generate an explanation' }, { status: 500 })
+    }
+
+    return NextResponse.json({ explanation })
+  } catch (error) {
+    console.error('Error explaining move:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
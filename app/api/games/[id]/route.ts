@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getGameStorage } from '@/lib/gameStorage'
+
+// Fetch one saved game by id
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  try {
+    const game = await getGameStorage().get(id)
+    if (!game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 })
+    }
+    return NextResponse.json({ game })
+  } catch (error) {
+    console.error(`Error loading game ${id}:`, error)
+    return NextResponse.json({ error: 'Failed to load game' }, { status: 500 })
+  }
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET, POST } from './route'
+import { GET as GET_GAME } from './[id]/route'
+import { GameResult } from '@/types'
+import { getFEN, replayGame } from '@/lib/chess'
+import { createMemoryGameStorage, setGameStorage } from '@/lib/gameStorage'
+
+// A finished game as the board would post it, PGN and final position included
+const finishedGame = (moves: string[], result: GameResult['result'], extra: Partial<GameResult> = {}): GameResult => {
+  const game = replayGame(moves)
+  game.setHeader('Result', result === 'white' ? '1-0' : result === 'black' ? '0-1' : '1/2-1/2')
+  return {
+    pgn: game.pgn(),
+    result,
+    moves,
+    duration: 42,
+    date: '2024-03-09T12:00:00.000Z',
+    playerColor: 'white',
+    finalFen: getFEN(game),
+    difficulty: 'casual',
+    ...extra
+  }
+}
+
+const FOOLS_MATE = ['f3', 'e5', 'g4', 'Qh4#']
+
+const post = (body: unknown) =>
+  POST(new NextRequest('http://localhost/api/games', { method: 'POST', body: JSON.stringify(body) }))
+
+const expectRejected = async (body: unknown, error: string) => {
+  const response = await post(body)
+  expect(response.status).toBe(400)
+  expect((await response.json()).error).toContain(error)
+}
+
+describe('/api/games', () => {
+  beforeEach(() => {
+    setGameStorage(createMemoryGameStorage())
+  })
+
+  afterEach(() => {
+    setGameStorage(null)
+  })
+
+  it('saves a finished game and serves it back', async () => {
+    const response = await post(finishedGame(FOOLS_MATE, 'black', { endReason: 'checkmate' }))
+    expect(response.status).toBe(201)
+    const { game } = await response.json()
+    expect(game.id).toBeTruthy()
+    expect(game.endReason).toBe('checkmate')
+
+    const list = await (await GET(new NextRequest('http://localhost/api/games'))).json()
+    expect(list.games).toEqual([game])
+
+    const single = await GET_GAME(new NextRequest(`http://localhost/api/games/${game.id}`), { params: Promise.resolve({ id: game.id }) })
+    expect((await single.json()).game).toEqual(game)
+  })
+
+  it('lists the most recent games first, up to the limit', async () => {
+    await post(finishedGame(FOOLS_MATE, 'black', { date: '2024-01-01T00:00:00.000Z' }))
+    await post(finishedGame(FOOLS_MATE, 'black', { date: '2024-02-01T00:00:00.000Z' }))
+
+    const response = await GET(new NextRequest('http://localhost/api/games?limit=1'))
+    const { games } = await response.json()
+    expect(games.map((game: GameResult) => game.date)).toEqual(['2024-02-01T00:00:00.000Z'])
+
+    expect((await GET(new NextRequest('http://localhost/api/games?limit=0'))).status).toBe(400)
+  })
+
+  it('rejects a body that is not a game', async () => {
+    const response = await POST(new NextRequest('http://localhost/api/games', { method: 'POST', body: 'not json' }))
+    expect(response.status).toBe(400)
+    await expectRejected({ ...finishedGame(FOOLS_MATE, 'black'), moves: 'f3 e5' }, 'moves must be an array')
+    await expectRejected({ ...finishedGame(FOOLS_MATE, 'black'), difficulty: 'grandmaster' }, 'Unknown difficulty')
+  })
+
+  it('rejects an illegal move', async () => {
+    const game = finishedGame(FOOLS_MATE, 'black')
+    await expectRejected({ ...game, moves: ['f3', 'e5', 'g4', 'Qh5#'] }, 'moves[3] "Qh5#" is not a legal move')
+  })
+
+  it('rejects a PGN or final position that does not match the moves', async () => {
+    const game = finishedGame(FOOLS_MATE, 'black')
+    await expectRejected({ ...game, pgn: finishedGame(['e4'], 'black').pgn }, 'pgn does not have the same moves')
+    await expectRejected({ ...game, finalFen: getFEN(replayGame(['e4'])) }, 'finalFen is not the position after the moves')
+  })
+
+  it('rejects a result the moves do not give', async () => {
+    const game = finishedGame(FOOLS_MATE, 'black')
+    await expectRejected({ ...game, result: 'white' }, 'does not match result')
+    await expectRejected(finishedGame(FOOLS_MATE, 'white'), 'result must be "black"')
+    await expectRejected({ ...game, endReason: 'timeout' }, 'endReason must be "checkmate"')
+  })
+
+  it('rejects a game that has not ended', async () => {
+    await expectRejected(finishedGame(['e4', 'e5'], 'white'), 'the game is not over')
+    await expectRejected(finishedGame(['e4', 'e5'], 'draw', { endReason: 'threefold-repetition' }), 'has not occurred three times')
+  })
+
+  it('accepts a loss on time only when the winner could still checkmate', async () => {
+    const response = await post(finishedGame(['e4', 'e5'], 'black', { endReason: 'timeout' }))
+    expect(response.status).toBe(201)
+
+    await expectRejected(finishedGame(['e4', 'e5'], 'white', { endReason: 'timeout' }), 'result must be "black"')
+    await expectRejected(finishedGame(['e4', 'e5'], 'draw', { endReason: 'timeout-vs-insufficient-material' }), 'can still checkmate')
+  })
+
+  it('accepts a claimed draw by repetition', async () => {
+    const shuffle = ['Nf3', 'Nf6', 'Ng1', 'Ng8', 'Nf3', 'Nf6', 'Ng1', 'Ng8']
+    const response = await post(finishedGame(shuffle, 'draw', { endReason: 'threefold-repetition' }))
+    expect(response.status).toBe(201)
+  })
+})
@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { GameResult } from '@/types'
+import { Chess } from 'chess.js'
+import {
+  createGame,
+  getGameStatus,
+  getHalfmoveClock,
+  getRepetitionCount,
+  hasMatingMaterial,
+  isGameEndReason,
+  oppositeColor,
+  parseFEN,
+  positionKey,
+  toPieceColor
+} from '@/lib/chess'
+import { PGNGame, fromPGNResult, parsePGN } from '@/lib/pgn'
+import { isDifficultyLevel } from '@/lib/difficulty'
+import { isEcoCode } from '@/lib/eco'
+import { getGameStorage, DEFAULT_GAME_LIST_LIMIT } from '@/lib/gameStorage'
+
+const MAX_GAME_LIST_LIMIT = 100
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0
+
+const isDuration = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value >= 0
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !isNaN(Date.parse(value))
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== ''
+
+// Optional fields may be left out, but must pass the check when present
+const isOptional = <T>(value: unknown, check: (value: unknown) => value is T): value is T | undefined =>
+  value === undefined || check(value)
+
+// The result and end reason a game replayed to its last move can have, or why it has not ended
+const findGameEnd = (game: Chess, endReason: GameResult['endReason']): Pick<GameResult, 'result' | 'endReason'> | { error: string } => {
+  const status = getGameStatus(game)
+  const toMove = toPieceColor(game.turn())
+
+  // The board ended the game by itself
+  if (status.status === 'checkmate') return { result: oppositeColor(toMove), endReason: 'checkmate' }
+  if (status.status === 'stalemate') return { result: 'draw', endReason: 'stalemate' }
+  if (status.status === 'draw' && status.drawReason) return { result: 'draw', endReason: status.drawReason }
+
+  // Otherwise the clock or a draw claim ended it
+  switch (endReason) {
+    case 'timeout':
+      return hasMatingMaterial(game, oppositeColor(toMove))
+        ? { result: oppositeColor(toMove), endReason }
+        : { error: `${oppositeColor(toMove)} cannot checkmate, so a loss on time is a draw` }
+    case 'timeout-vs-insufficient-material':
+      return hasMatingMaterial(game, oppositeColor(toMove))
+        ? { error: `${oppositeColor(toMove)} can still checkmate, so a loss on time is not a draw` }
+        : { result: 'draw', endReason }
+    case 'threefold-repetition':
+      return getRepetitionCount(game) >= 3
+        ? { result: 'draw', endReason }
+        : { error: 'the final position has not occurred three times' }
+    case 'fifty-move-rule':
+      return getHalfmoveClock(game) >= 100
+        ? { result: 'draw', endReason }
+        : { error: 'fifty moves have not been played without a capture or pawn move' }
+    default:
+      return { error: 'the game is not over after its last move' }
+  }
+}
+
+// Replay the moves and check the PGN, final position, result and end reason agree with them
+const checkGameRecord = (
+  { moves, finalFen, result, endReason }: Pick<GameResult, 'moves' | 'finalFen' | 'result' | 'endReason'>,
+  pgnGame: PGNGame
+): string | null => {
+  const game = createGame()
+  for (let index = 0; index < moves.length; index++) {
+    try {
+      game.move(moves[index])
+    } catch {
+      return `moves[${index}] "${moves[index]}" is not a legal move`
+    }
+  }
+
+  const history = game.history()
+  if (pgnGame.moves.length !== history.length || pgnGame.moves.some((move, index) => move.san !== history[index])) {
+    return 'pgn does not have the same moves'
+  }
+
+  if (positionKey(createGame(finalFen)) !== positionKey(game)) {
+    return 'finalFen is not the position after the moves'
+  }
+
+  if (fromPGNResult(pgnGame.headers.Result) !== result) {
+    return `pgn Result ${pgnGame.headers.Result} does not match result "${result}"`
+  }
+
+  const end = findGameEnd(game, endReason)
+  if ('error' in end) return `The game cannot have ended by ${endReason ?? 'itself'}: ${end.error}`
+  if (end.result !== result) return `result must be "${end.result}" after the moves`
+  if (endReason !== undefined && end.endReason !== endReason) return `endReason must be "${end.endReason}" after the moves`
+  return null
+}
+
+// Check a posted game and fill in the date; returns the reason when it is invalid
+const validateGameResult = (body: unknown): { game: GameResult } | { error: string } => {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Request body must be a game result object' }
+  }
+
+  const { pgn, result, moves, duration, date, playerColor, finalFen, difficulty, hintsUsed, eco, opening, endReason } = body as Record<string, unknown>
+
+  if (typeof pgn !== 'string' || !pgn.trim()) {
+    return { error: 'pgn is required' }
+  }
+  let pgnGame: PGNGame
+  try {
+    pgnGame = parsePGN(pgn)
+  } catch (error) {
+    return { error: `pgn could not be read: ${error instanceof Error ? error.message : String(error)}` }
+  }
+
+  if (result !== 'white' && result !== 'black' && result !== 'draw') {
+    return { error: 'result must be "white", "black" or "draw"' }
+  }
+
+  if (!isStringList(moves)) {
+    return { error: 'moves must be an array of SAN strings' }
+  }
+
+  if (!isOptional(duration, isDuration)) {
+    return { error: 'duration must be a non-negative number of seconds' }
+  }
+
+  if (!isOptional(date, isDateString)) {
+    return { error: 'date must be an ISO date string' }
+  }
+
+  if (playerColor !== 'white' && playerColor !== 'black') {
+    return { error: 'playerColor must be either "white" or "black"' }
+  }
+
+  if (typeof finalFen !== 'string') {
+    return { error: 'finalFen is required' }
+  }
+  try {
+    parseFEN(finalFen)
+  } catch (error) {
+    return { error: `finalFen is invalid: ${error instanceof Error ? error.message : String(error)}` }
+  }
+
+  if (!isOptional(difficulty, isDifficultyLevel)) {
+    return { error: `Unknown difficulty: ${String(difficulty)}` }
+  }
+
+  if (!isOptional(hintsUsed, isCount)) {
+    return { error: 'hintsUsed must be a non-negative integer' }
+  }
+
+  if (!isOptional(eco, isEcoCode)) {
+    return { error: 'eco must be an ECO code from A00 to E99' }
+  }
+
+  if (!isOptional(opening, isNonEmptyString)) {
+    return { error: 'opening must be a non-empty string' }
+  }
+
+  if (!isOptional(endReason, isGameEndReason)) {
+    return { error: `Unknown endReason: ${String(endReason)}` }
+  }
+
+  const recordError = checkGameRecord({ moves, finalFen, result, endReason }, pgnGame)
+  if (recordError) {
+    return { error: recordError }
+  }
+
+  return {
+    game: {
+      pgn,
+      result,
+      moves,
+      duration,
+      date: date ?? new Date().toISOString(),
+      playerColor,
+      finalFen: finalFen.trim(),
+      difficulty,
+      hintsUsed,
+      eco,
+      opening: opening?.trim(),
+      endReason
+    }
+  }
+}
+
+// List saved games, most recent first (?limit=N)
+export async function GET(request: NextRequest) {
+  try {
+    const limitParam = request.nextUrl.searchParams.get('limit')
+    const limit = limitParam === null ? DEFAULT_GAME_LIST_LIMIT : parseInt(limitParam, 10)
+    if (isNaN(limit) || limit < 1) {
+      return NextResponse.json({ error: 'limit must be a positive number' }, { status: 400 })
+    }
+
+    const games = await getGameStorage().list(Math.min(limit, MAX_GAME_LIST_LIMIT))
+    return NextResponse.json({ games })
+  } catch (error) {
+    console.error('Error listing games:', error)
+    return NextResponse.json({ error: 'Failed to load games' }, { status: 500 })
+  }
+}
+
+// Save a finished game
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const validation = validateGameResult(body)
+  if ('error' in validation) {
+    return NextResponse.json({ error: validation.error }, { status: 400 })
+  }
+
+  try {
+    const game = await getGameStorage().save(validation.game)
+    return NextResponse.json({ game }, { status: 201 })
+  } catch (error) {
+    console.error('Error saving game:', error)
+    return NextResponse.json({ error: 'Failed to save game' }, { status: 500 })
+  }
+}
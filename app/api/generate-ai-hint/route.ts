@@ -1,358 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { generateAIMove } from '@/lib/cosmic'
-
-// Chess piece types and colors
-type PieceType = 'king' | 'queen' | 'rook' | 'bishop' | 'knight' | 'pawn'
-type PieceColor = 'white' | 'black'
-
-interface ChessPiece {
-  type: PieceType
-  color: PieceColor
-  hasMoved?: boolean
-}
-
-interface Position {
-  row: number
-  col: number
-}
-
-interface Move {
-  from: Position
-  to: Position
-  piece: ChessPiece
-  capturedPiece?: ChessPiece
-}
-
-// Chess piece values for evaluation
-const pieceValues: Record<PieceType, number> = {
-  pawn: 1,
-  knight: 3,
-  bishop: 3,
-  rook: 5,
-  queen: 9,
-  king: 100
-}
+import { Chess } from 'chess.js'
+import { explainHint } from '@/lib/cosmic'
+import { aiMoveProviders, isAIMoveProviderName } from '@/lib/providers/provider'
+import { getAIMoveProvider } from '@/lib/providers/registry'
+import { DifficultyLevel } from '@/lib/difficulty'
+import { searchPosition } from '@/lib/engine/search'
+import { getSyzygyTablebase } from '@/lib/engine/syzygy'
+import { describeMoveIdea } from '@/lib/hints'
+import {
+  FENDetails,
+  Move,
+  PieceColor,
+  PieceType,
+  Position,
+  pieceValues,
+  pieceLetter,
+  createGame,
+  parseFEN,
+  describeFEN,
+  getBoard,
+  getBoardPiece,
+  getLegalMoves,
+  evaluatePosition,
+  findKing,
+  isSquareUnderAttack,
+  positionToSquare,
+  oppositeColor,
+  parseSAN,
+  parseUciMove,
+  getFEN
+} from '@/lib/chess'
+
+// Search time for finding the opponent's expected reply to the hint move
+const REPLY_SEARCH_MS = 300
+
+// Thinking time for engine-based providers
+const HINT_SEARCH_MS = 1000
+
+// Hints are always found at full strength, whatever level the AI opponent plays at
+const HINT_DIFFICULTY: DifficultyLevel = 'extreme'
 
 // Position square names for easy reference
-const getSquareName = (pos: Position): string => {
-  return String.fromCharCode(97 + pos.col) + (8 - pos.row)
-}
-
-// Parse FEN string to get board state
-const parseFEN = (fen: string): (ChessPiece | null)[][] => {
-  const board: (ChessPiece | null)[][] = Array(8).fill(null).map(() => Array(8).fill(null))
-  const boardPart = fen.split(' ')[0]
-  const rows = boardPart.split('/')
-  
-  for (let row = 0; row < 8; row++) {
-    let col = 0
-    for (const char of rows[row]) {
-      if (char >= '1' && char <= '8') {
-        col += parseInt(char)
-      } else {
-        const isWhite = char === char.toUpperCase()
-        const pieceType = char.toLowerCase()
-        let type: PieceType
-        
-        switch (pieceType) {
-          case 'p': type = 'pawn'; break
-          case 'r': type = 'rook'; break
-          case 'n': type = 'knight'; break
-          case 'b': type = 'bishop'; break
-          case 'q': type = 'queen'; break
-          case 'k': type = 'king'; break
-          default: continue
-        }
-        
-        board[row][col] = {
-          type,
-          color: isWhite ? 'white' : 'black'
-        }
-        col++
-      }
-    }
-  }
-  
-  return board
-}
-
-// Check if position is valid
-const isValidPosition = (pos: Position): boolean => {
-  return pos.row >= 0 && pos.row < 8 && pos.col >= 0 && pos.col < 8
-}
-
-// Get piece at position
-const getBoardPiece = (board: (ChessPiece | null)[][], pos: Position): ChessPiece | null => {
-  if (!isValidPosition(pos)) return null
-  return board[pos.row]?.[pos.col] ?? null
-}
-
-// Find king position
-const findKing = (board: (ChessPiece | null)[][], color: PieceColor): Position | null => {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = getBoardPiece(board, { row, col })
-      if (piece && piece.type === 'king' && piece.color === color) {
-        return { row, col }
-      }
-    }
-  }
-  return null
-}
-
-// Check if square is under attack
-const isSquareUnderAttack = (board: (ChessPiece | null)[][], pos: Position, byColor: PieceColor): boolean => {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = getBoardPiece(board, { row, col })
-      if (piece && piece.color === byColor) {
-        const moves = getPossibleMovesRaw(board, { row, col })
-        if (moves.some(move => move.row === pos.row && move.col === pos.col)) {
-          return true
-        }
-      }
-    }
-  }
-  return false
-}
-
-// Check if king is in check
-const isKingInCheck = (board: (ChessPiece | null)[][], color: PieceColor): boolean => {
-  const kingPos = findKing(board, color)
-  if (!kingPos) return false
-  
-  const opponentColor = color === 'white' ? 'black' : 'white'
-  return isSquareUnderAttack(board, kingPos, opponentColor)
-}
-
-// Get raw possible moves (without check validation)
-const getPossibleMovesRaw = (board: (ChessPiece | null)[][], from: Position): Position[] => {
-  const piece = getBoardPiece(board, from)
-  if (!piece) return []
-
-  const moves: Position[] = []
-  const { type, color } = piece
-
-  switch (type) {
-    case 'pawn':
-      const direction = color === 'white' ? -1 : 1
-      const startRow = color === 'white' ? 6 : 1
-      
-      // Move forward one square
-      const oneSquareAhead = { row: from.row + direction, col: from.col }
-      if (isValidPosition(oneSquareAhead) && !getBoardPiece(board, oneSquareAhead)) {
-        moves.push(oneSquareAhead)
-        
-        // Move forward two squares from starting position
-        const twoSquaresAhead = { row: from.row + 2 * direction, col: from.col }
-        if (from.row === startRow && 
-            isValidPosition(twoSquaresAhead) && 
-            !getBoardPiece(board, twoSquaresAhead)) {
-          moves.push(twoSquaresAhead)
-        }
-      }
-      
-      // Capture diagonally
-      for (const colOffset of [-1, 1]) {
-        const capturePos = { row: from.row + direction, col: from.col + colOffset }
-        if (isValidPosition(capturePos)) {
-          const target = getBoardPiece(board, capturePos)
-          if (target && target.color !== color) {
-            moves.push(capturePos)
-          }
-        }
-      }
-      break
-
-    case 'rook':
-      // Horizontal and vertical moves
-      const rookDirections: [number, number][] = [[0, 1], [0, -1], [1, 0], [-1, 0]]
-      for (const [rowDir, colDir] of rookDirections) {
-        for (let i = 1; i < 8; i++) {
-          const newPos = { row: from.row + rowDir * i, col: from.col + colDir * i }
-          if (!isValidPosition(newPos)) break
-          
-          const target = getBoardPiece(board, newPos)
-          if (!target) {
-            moves.push(newPos)
-          } else {
-            if (target.color !== color) moves.push(newPos)
-            break
-          }
-        }
-      }
-      break
-
-    case 'bishop':
-      // Diagonal moves
-      const bishopDirections: [number, number][] = [[1, 1], [1, -1], [-1, 1], [-1, -1]]
-      for (const [rowDir, colDir] of bishopDirections) {
-        for (let i = 1; i < 8; i++) {
-          const newPos = { row: from.row + rowDir * i, col: from.col + colDir * i }
-          if (!isValidPosition(newPos)) break
-          
-          const target = getBoardPiece(board, newPos)
-          if (!target) {
-            moves.push(newPos)
-          } else {
-            if (target.color !== color) moves.push(newPos)
-            break
-          }
-        }
-      }
-      break
-
-    case 'queen':
-      // Combination of rook and bishop moves
-      const queenDirections: [number, number][] = [[0, 1], [0, -1], [1, 0], [-1, 0], [1, 1], [1, -1], [-1, 1], [-1, -1]]
-      for (const [rowDir, colDir] of queenDirections) {
-        for (let i = 1; i < 8; i++) {
-          const newPos = { row: from.row + rowDir * i, col: from.col + colDir * i }
-          if (!isValidPosition(newPos)) break
-          
-          const target = getBoardPiece(board, newPos)
-          if (!target) {
-            moves.push(newPos)
-          } else {
-            if (target.color !== color) moves.push(newPos)
-            break
-          }
-        }
-      }
-      break
-
-    case 'king':
-      // One square in any direction
-      const kingDirections: [number, number][] = [[0, 1], [0, -1], [1, 0], [-1, 0], [1, 1], [1, -1], [-1, 1], [-1, -1]]
-      for (const [rowDir, colDir] of kingDirections) {
-        const newPos = { row: from.row + rowDir, col: from.col + colDir }
-        if (isValidPosition(newPos)) {
-          const target = getBoardPiece(board, newPos)
-          if (!target || target.color !== color) {
-            moves.push(newPos)
-          }
-        }
-      }
-      break
-
-    case 'knight':
-      // L-shaped moves
-      const knightMoves: [number, number][] = [
-        [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-        [1, -2], [1, 2], [2, -1], [2, 1]
-      ]
-      for (const [rowOffset, colOffset] of knightMoves) {
-        const newPos = { row: from.row + rowOffset, col: from.col + colOffset }
-        if (isValidPosition(newPos)) {
-          const target = getBoardPiece(board, newPos)
-          if (!target || target.color !== color) {
-            moves.push(newPos)
-          }
-        }
-      }
-      break
-  }
-
-  return moves
-}
-
-// Make a move on the board
-const makeMove = (board: (ChessPiece | null)[][], from: Position, to: Position): (ChessPiece | null)[][] => {
-  const newBoard = board.map(row => [...row])
-  const piece = getBoardPiece(board, from)
-  
-  if (piece) {
-    newBoard[to.row][to.col] = { ...piece, hasMoved: true }
-    newBoard[from.row][from.col] = null
-  }
-  
-  return newBoard
-}
-
-// Get legal moves (with check validation)
-const getLegalMoves = (board: (ChessPiece | null)[][], from: Position): Position[] => {
-  const piece = getBoardPiece(board, from)
-  if (!piece) return []
-
-  const rawMoves = getPossibleMovesRaw(board, from)
-  const legalMoves: Position[] = []
-
-  // Filter out moves that would leave the king in check
-  for (const to of rawMoves) {
-    const newBoard = makeMove(board, from, to)
-    if (!isKingInCheck(newBoard, piece.color)) {
-      legalMoves.push(to)
-    }
-  }
-
-  return legalMoves
-}
-
-// Evaluate position
-const evaluatePosition = (board: (ChessPiece | null)[][], color: PieceColor): number => {
-  let score = 0
-  let whitePieces = 0
-  let blackPieces = 0
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = getBoardPiece(board, { row, col })
-      if (piece) {
-        const value = pieceValues[piece.type]
-        if (piece.color === 'white') {
-          whitePieces++
-          score += piece.color === color ? value : -value
-        } else {
-          blackPieces++
-          score += piece.color === color ? value : -value
-        }
-      }
-    }
-  }
-  
-  // Bonus for putting opponent in check
-  const opponentColor = color === 'white' ? 'black' : 'white'
-  if (isKingInCheck(board, opponentColor)) {
-    score += 10
-  }
-  
-  // Penalty for being in check
-  if (isKingInCheck(board, color)) {
-    score -= 10
-  }
-  
-  return score
-}
-
-// Get all legal moves for a color
-const getAllLegalMoves = (board: (ChessPiece | null)[][], color: PieceColor): Move[] => {
-  const moves: Move[] = []
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = getBoardPiece(board, { row, col })
-      if (piece && piece.color === color) {
-        const from = { row, col }
-        const legalMoves = getLegalMoves(board, from)
-        
-        for (const to of legalMoves) {
-          const capturedPiece = getBoardPiece(board, to)
-          moves.push({
-            from,
-            to,
-            piece,
-            capturedPiece: capturedPiece || undefined
-          })
-        }
-      }
-    }
-  }
-  
-  return moves
-}
+const getSquareName = (pos: Position): string => positionToSquare(pos)
 
 // Generate comprehensive board analysis
-const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: PieceColor): string => {
+const generateBoardAnalysis = (game: Chess, currentPlayer: PieceColor, fenDetails: FENDetails): string => {
+  const board = getBoard(game)
   const analysis: string[] = []
   
   // Basic board state
@@ -367,7 +60,7 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
     for (let col = 0; col < 8; col++) {
       const piece = getBoardPiece(board, { row, col })
       if (piece) {
-        const pieceChar = piece.type === 'knight' ? 'N' : piece.type[0].toUpperCase()
+        const pieceChar = pieceLetter(piece.type)
         rowStr += piece.color === 'white' ? pieceChar : pieceChar.toLowerCase()
       } else {
         rowStr += '.'
@@ -379,6 +72,11 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
   }
   analysis.push("   a b c d e f g h")
   analysis.push("")
+
+  // Castling, en passant and clocks from the FEN
+  analysis.push("Game State:")
+  analysis.push(...describeFEN(fenDetails))
+  analysis.push("")
   
   // Piece count and material advantage
   let whitePoints = 0
@@ -408,15 +106,15 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
   analysis.push("")
   
   // Check status
-  const whiteInCheck = isKingInCheck(board, 'white')
-  const blackInCheck = isKingInCheck(board, 'black')
+  const whiteInCheck = game.inCheck() && game.turn() === 'w'
+  const blackInCheck = game.inCheck() && game.turn() === 'b'
   if (whiteInCheck || blackInCheck) {
     analysis.push(`CHECK STATUS: ${whiteInCheck ? 'White' : 'Black'} king is in check!`)
     analysis.push("")
   }
   
   // Current player's legal moves
-  const legalMoves = getAllLegalMoves(board, currentPlayer)
+  const legalMoves = getLegalMoves(game)
   analysis.push(`${currentPlayer.toUpperCase()} TO MOVE - ${legalMoves.length} legal moves available:`)
   
   // Categorize moves
@@ -430,9 +128,7 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
     }
     
     // Check if move gives check
-    const newBoard = makeMove(board, move.from, move.to)
-    const opponentColor = currentPlayer === 'white' ? 'black' : 'white'
-    if (isKingInCheck(newBoard, opponentColor)) {
+    if (move.san.endsWith('+') || move.san.endsWith('#')) {
       checks.push(move)
     }
     
@@ -446,11 +142,8 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
     analysis.push("")
     analysis.push("CAPTURING MOVES:")
     for (const move of captures) {
-      const fromSquare = getSquareName(move.from)
-      const toSquare = getSquareName(move.to)
-      const pieceSymbol = move.piece.type === 'knight' ? 'N' : move.piece.type[0].toUpperCase()
-      const capturedSymbol = move.capturedPiece!.type === 'knight' ? 'N' : move.capturedPiece!.type[0].toUpperCase()
-      analysis.push(`  ${pieceSymbol}${fromSquare}x${toSquare} (captures ${capturedSymbol}, +${pieceValues[move.capturedPiece!.type]} points)`)
+      const capturedSymbol = pieceLetter(move.capturedPiece!.type)
+      analysis.push(`  ${move.san} (captures ${capturedSymbol}, +${pieceValues[move.capturedPiece!.type]} points)`)
     }
   }
   
@@ -459,10 +152,7 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
     analysis.push("")
     analysis.push("MOVES THAT GIVE CHECK:")
     for (const move of checks) {
-      const fromSquare = getSquareName(move.from)
-      const toSquare = getSquareName(move.to)
-      const pieceSymbol = move.piece.type === 'knight' ? 'N' : move.piece.type[0].toUpperCase()
-      analysis.push(`  ${pieceSymbol}${fromSquare}-${toSquare}+`)
+      analysis.push(`  ${move.san}`)
     }
   }
   
@@ -476,12 +166,12 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
       const piece = getBoardPiece(board, { row, col })
       if (piece && piece.color === currentPlayer) {
         const from = { row, col }
-        const moves = getLegalMoves(board, from)
+        const moves = getLegalMoves(game, from).map(move => move.to)
         const square = getSquareName(from)
         pieceActivity[square] = moves.length
         
         if (moves.length > 0) {
-          const pieceSymbol = piece.type === 'knight' ? 'N' : piece.type[0].toUpperCase()
+          const pieceSymbol = pieceLetter(piece.type)
           analysis.push(`  ${pieceSymbol}${square}: ${moves.length} moves (${moves.map(m => getSquareName(m)).join(', ')})`)
         }
       }
@@ -498,7 +188,7 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
       pieceValues[current.capturedPiece!.type] > pieceValues[best.capturedPiece!.type] ? current : best
     )
     const capturedValue = pieceValues[bestCapture.capturedPiece!.type]
-    analysis.push(`• High-value capture available: ${getSquareName(bestCapture.from)}x${getSquareName(bestCapture.to)} (wins ${capturedValue} points)`)
+    analysis.push(`• High-value capture available: ${bestCapture.san} (wins ${capturedValue} points)`)
   }
   
   if (checks.length > 0) {
@@ -506,11 +196,11 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
   }
   
   // King safety
-  const kingPos = findKing(board, currentPlayer)
+  const kingPos = findKing(game, currentPlayer)
   if (kingPos) {
     const kingSquare = getSquareName(kingPos)
-    const opponentColor = currentPlayer === 'white' ? 'black' : 'white'
-    const kingUnderAttack = isSquareUnderAttack(board, kingPos, opponentColor)
+    const opponentColor = oppositeColor(currentPlayer)
+    const kingUnderAttack = isSquareUnderAttack(game, kingPos, opponentColor)
     if (kingUnderAttack && !whiteInCheck && !blackInCheck) {
       analysis.push(`• King on ${kingSquare} is under potential threat - consider safety`)
     }
@@ -523,14 +213,14 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
   ]
   let controlledCenterSquares = 0
   for (const square of centerSquares) {
-    if (isSquareUnderAttack(board, square, currentPlayer)) {
+    if (isSquareUnderAttack(game, square, currentPlayer)) {
       controlledCenterSquares++
     }
   }
   analysis.push(`• Center control: ${controlledCenterSquares}/4 central squares controlled`)
   
   // Position evaluation
-  const positionScore = evaluatePosition(board, currentPlayer)
+  const positionScore = evaluatePosition(game, currentPlayer)
   analysis.push(`• Position evaluation: ${positionScore > 0 ? '+' : ''}${positionScore} (${positionScore > 0 ? 'advantage' : positionScore < 0 ? 'disadvantage' : 'balanced'})`)
   
   analysis.push("")
@@ -546,7 +236,7 @@ export async function POST(request: NextRequest) {
     logs.push('Starting enhanced AI hint generation...')
     
     const body = await request.json()
-    const { fenString, gameHistory, currentPlayer } = body
+    const { fenString, gameHistory, currentPlayer, provider: providerName } = body
     
     logs.push(`Received parameters: FEN=${fenString}, Player=${currentPlayer}, History length=${gameHistory?.length || 0}`)
 
@@ -574,24 +264,69 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    logs.push('Parameters validated successfully')
+    // Parse and validate the full FEN (placement, side to move, castling, en passant, clocks)
+    let fenDetails: FENDetails
+    try {
+      fenDetails = parseFEN(fenString)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      logs.push(`ERROR: ${message}`)
+      return NextResponse.json(
+        { 
+          error: message,
+          logs
+        },
+        { status: 400 }
+      )
+    }
+
+    // The FEN's side to move must agree with currentPlayer
+    if (fenDetails.turn !== currentPlayer) {
+      logs.push('ERROR: FEN side to move does not match currentPlayer')
+      return NextResponse.json(
+        { 
+          error: `FEN has ${fenDetails.turn} to move but currentPlayer is ${currentPlayer}`,
+          logs
+        },
+        { status: 400 }
+      )
+    }
+
+    // Validate the optional provider; without one the configured provider is used
+    if (providerName !== undefined && !isAIMoveProviderName(providerName)) {
+      logs.push('ERROR: Invalid provider value')
+      return NextResponse.json(
+        { 
+          error: `provider must be one of: ${Object.keys(aiMoveProviders).join(', ')}`,
+          logs
+        },
+        { status: 400 }
+      )
+    }
+    const provider = getAIMoveProvider(providerName)
+
+    logs.push(`Parameters validated successfully; hint from ${provider.label}`)
     
     // Parse the board and generate comprehensive analysis
-    const board = parseFEN(fenString)
-    const boardAnalysis = generateBoardAnalysis(board, currentPlayer)
+    const game = createGame(fenString)
+    const boardAnalysis = generateBoardAnalysis(game, currentPlayer, fenDetails)
     
     logs.push('Generated comprehensive board analysis')
-    logs.push('Calling Cosmic AI with enhanced context...')
+    logs.push(`Calling ${provider.label} with enhanced context...`)
 
     // Generate AI hint using enhanced analysis
-    const aiHint = await generateAIMove(
-      boardAnalysis, // Send full analysis instead of just FEN
-      gameHistory || [],
-      currentPlayer
-    )
+    const aiHint = await provider.generateMove({
+      fen: fenString,
+      boardAnalysis,
+      gameHistory: gameHistory || [],
+      currentPlayer,
+      difficulty: HINT_DIFFICULTY,
+      timeLimitMs: HINT_SEARCH_MS,
+      signal: request.signal
+    })
 
     if (!aiHint) {
-      logs.push('ERROR: Cosmic AI failed to generate hint')
+      logs.push(`ERROR: ${provider.label} failed to generate hint`)
       return NextResponse.json(
         { 
           error: 'Failed to generate AI hint',
@@ -601,14 +336,39 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    logs.push(`AI hint generated successfully: ${aiHint}`)
+    // Read the model's answer against the legal moves and return it in standard notation
+    const hintMove = parseSAN(game, aiHint)
+    if (!hintMove) {
+      logs.push(`ERROR: AI hint "${aiHint}" is not a legal move`)
+      return NextResponse.json(
+        { 
+          error: 'AI hint was not a legal move',
+          logs
+        },
+        { status: 500 }
+      )
+    }
+
+    logs.push(`AI hint generated successfully: ${hintMove.san}`)
+
+    // The opponent's likely answer, from the local engine
+    game.move(hintMove.san)
+    const reply = searchPosition(getFEN(game), [], { timeLimitMs: REPLY_SEARCH_MS, tablebase: getSyzygyTablebase() }).bestMove
+    const expectedReply = reply ? parseUciMove(game, reply)?.san ?? null : null
+    logs.push(expectedReply ? `Expected reply: ${expectedReply}` : 'No reply expected - the hint move ends the game')
+
+    // Explain the idea for the full hint, in plain words if Cosmic AI cannot
+    const explanation = await explainHint(boardAnalysis, hintMove.san, expectedReply)
+    logs.push(explanation ? 'Cosmic AI explained the hint move' : 'Using a local description of the hint move')
+
     logs.push('Enhanced context provided comprehensive board analysis')
     logs.push('Returning hint response to client')
 
     return NextResponse.json({ 
-      move: aiHint,
-      logs,
-      boardAnalysis // Optionally return analysis for debugging
+      move: hintMove.san,
+      explanation: explanation ?? describeMoveIdea(hintMove),
+      expectedReply,
+      logs
     })
   } catch (error) {
     logs.push(`CRITICAL ERROR: ${error}`)
@@ -1,354 +1,93 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { generateAIMove } from '@/lib/cosmic'
-
-// Chess piece types and colors
-type PieceType = 'king' | 'queen' | 'rook' | 'bishop' | 'knight' | 'pawn'
-type PieceColor = 'white' | 'black'
-
-interface ChessPiece {
-  type: PieceType
-  color: PieceColor
-  hasMoved?: boolean
-}
-
-interface Position {
-  row: number
-  col: number
-}
-
-interface Move {
-  from: Position
-  to: Position
-  piece: ChessPiece
-  capturedPiece?: ChessPiece
-}
-
-// Chess piece values for evaluation
-const pieceValues: Record<PieceType, number> = {
-  pawn: 1,
-  knight: 3,
-  bishop: 3,
-  rook: 5,
-  queen: 9,
-  king: 100
-}
-
-// Position square names for easy reference
-const getSquareName = (pos: Position): string => {
-  return String.fromCharCode(97 + pos.col) + (8 - pos.row)
-}
-
-// Parse FEN string to get board state
-const parseFEN = (fen: string): (ChessPiece | null)[][] => {
-  const board: (ChessPiece | null)[][] = Array(8).fill(null).map(() => Array(8).fill(null))
-  const boardPart = fen.split(' ')[0]
-  const rows = boardPart.split('/')
-  
-  for (let row = 0; row < 8; row++) {
-    let col = 0
-    for (const char of rows[row]) {
-      if (char >= '1' && char <= '8') {
-        col += parseInt(char)
-      } else {
-        const isWhite = char === char.toUpperCase()
-        const pieceType = char.toLowerCase()
-        let type: PieceType
-        
-        switch (pieceType) {
-          case 'p': type = 'pawn'; break
-          case 'r': type = 'rook'; break
-          case 'n': type = 'knight'; break
-          case 'b': type = 'bishop'; break
-          case 'q': type = 'queen'; break
-          case 'k': type = 'king'; break
-          default: continue
-        }
-        
-        board[row][col] = {
-          type,
-          color: isWhite ? 'white' : 'black'
-        }
-        col++
-      }
-    }
+import { Chess } from 'chess.js'
+import { AIMoveProvider, AIMoveRejection, aiMoveProviders, isAIMoveProviderName } from '@/lib/providers/provider'
+import { getAIMoveProvider } from '@/lib/providers/registry'
+import { DifficultyLevel, DEFAULT_DIFFICULTY, difficultyLevels, isDifficultyLevel, rollMistake } from '@/lib/difficulty'
+import { playEngineMove } from '@/lib/engine/play'
+import { loadPosition } from '@/lib/engine/search'
+import { TablebaseResult, bestTablebaseMove } from '@/lib/engine/tablebase'
+import { getSyzygyTablebase } from '@/lib/engine/syzygy'
+import { moveToUci } from '@/lib/engine/board'
+import { getBookMoves, getOpeningBook, pickBookMove, plyFromStart } from '@/lib/openingBook'
+import { AIMoveCandidate, AIMoveResponse, AIMoveSource, AIMoveStreamEvent } from '@/types'
+import { formatSSE } from '@/lib/sse'
+import {
+  FENDetails,
+  Move,
+  PieceColor,
+  PieceType,
+  Position,
+  pieceValues,
+  pieceLetter,
+  createGame,
+  parseFEN,
+  describeFEN,
+  getBoard,
+  getBoardPiece,
+  getLegalMoves,
+  applyMove,
+  evaluatePosition,
+  findKing,
+  isSquareUnderAttack,
+  positionToSquare,
+  oppositeColor,
+  parseSAN,
+  parseUciMove,
+  toUciPosition
+} from '@/lib/chess'
+
+// How many times the AI provider may answer before the local engine takes over
+const MAX_AI_MOVE_ATTEMPTS = 3
+
+// Longest server-side engine search, and the default when the client sends no budget
+const MAX_ENGINE_TIME_MS = 1000
+
+// Check the provider's answer against the legal moves, explaining why it was rejected if it is not one
+const validateAIMove = (game: Chess, aiMove: string | null, currentPlayer: PieceColor): { move: Move | null, reason: string } => {
+  if (!aiMove) {
+    return { move: null, reason: 'no move was returned' }
   }
-  
-  return board
-}
-
-// Check if position is valid
-const isValidPosition = (pos: Position): boolean => {
-  return pos.row >= 0 && pos.row < 8 && pos.col >= 0 && pos.col < 8
-}
 
-// Get piece at position
-const getBoardPiece = (board: (ChessPiece | null)[][], pos: Position): ChessPiece | null => {
-  if (!isValidPosition(pos)) return null
-  return board[pos.row]?.[pos.col] ?? null
-}
-
-// Find king position
-const findKing = (board: (ChessPiece | null)[][], color: PieceColor): Position | null => {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = getBoardPiece(board, { row, col })
-      if (piece && piece.type === 'king' && piece.color === color) {
-        return { row, col }
-      }
-    }
+  const move = parseSAN(game, aiMove)
+  if (!move) {
+    return { move: null, reason: `"${aiMove}" is not a legal move for ${currentPlayer} in this position` }
   }
-  return null
-}
 
-// Check if square is under attack
-const isSquareUnderAttack = (board: (ChessPiece | null)[][], pos: Position, byColor: PieceColor): boolean => {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = getBoardPiece(board, { row, col })
-      if (piece && piece.color === byColor) {
-        const moves = getPossibleMovesRaw(board, { row, col })
-        if (moves.some(move => move.row === pos.row && move.col === pos.col)) {
-          return true
-        }
-      }
-    }
-  }
-  return false
+  return { move, reason: '' }
 }
 
-// Check if king is in check
-const isKingInCheck = (board: (ChessPiece | null)[][], color: PieceColor): boolean => {
-  const kingPos = findKing(board, color)
-  if (!kingPos) return false
-  
-  const opponentColor = color === 'white' ? 'black' : 'white'
-  return isSquareUnderAttack(board, kingPos, opponentColor)
-}
+// Structured response for a chosen move
+const createMoveResponse = (
+  move: Move,
+  attempts: number,
+  source: AIMoveSource,
+  provider: AIMoveProvider,
+  logs: string[],
+  tablebase?: TablebaseResult
+): AIMoveResponse => ({
+  move: {
+    from: positionToSquare(move.from),
+    to: positionToSquare(move.to),
+    promotion: move.promotion ? pieceLetter(move.promotion).toLowerCase() : undefined,
+    san: move.san
+  },
+  attempts,
+  source,
+  provider: provider.name,
+  tablebase,
+  logs
+})
+
+// Text for a tablebase result, e.g. "win, 7 plies to a capture or pawn move"
+const describeTablebaseResult = ({ wdl, dtz }: TablebaseResult): string =>
+  wdl.replace('-', ' ') + (dtz === null ? '' : `, ${dtz} plies to a capture or pawn move`)
 
-// Get raw possible moves (without check validation)
-const getPossibleMovesRaw = (board: (ChessPiece | null)[][], from: Position): Position[] => {
-  const piece = getBoardPiece(board, from)
-  if (!piece) return []
-
-  const moves: Position[] = []
-  const { type, color } = piece
-
-  switch (type) {
-    case 'pawn':
-      const direction = color === 'white' ? -1 : 1
-      const startRow = color === 'white' ? 6 : 1
-      
-      // Move forward one square
-      const oneSquareAhead = { row: from.row + direction, col: from.col }
-      if (isValidPosition(oneSquareAhead) && !getBoardPiece(board, oneSquareAhead)) {
-        moves.push(oneSquareAhead)
-        
-        // Move forward two squares from starting position
-        const twoSquaresAhead = { row: from.row + 2 * direction, col: from.col }
-        if (from.row === startRow && 
-            isValidPosition(twoSquaresAhead) && 
-            !getBoardPiece(board, twoSquaresAhead)) {
-          moves.push(twoSquaresAhead)
-        }
-      }
-      
-      // Capture diagonally
-      for (const colOffset of [-1, 1]) {
-        const capturePos = { row: from.row + direction, col: from.col + colOffset }
-        if (isValidPosition(capturePos)) {
-          const target = getBoardPiece(board, capturePos)
-          if (target && target.color !== color) {
-            moves.push(capturePos)
-          }
-        }
-      }
-      break
-
-    case 'rook':
-      // Horizontal and vertical moves
-      const rookDirections: [number, number][] = [[0, 1], [0, -1], [1, 0], [-1, 0]]
-      for (const [rowDir, colDir] of rookDirections) {
-        for (let i = 1; i < 8; i++) {
-          const newPos = { row: from.row + rowDir * i, col: from.col + colDir * i }
-          if (!isValidPosition(newPos)) break
-          
-          const target = getBoardPiece(board, newPos)
-          if (!target) {
-            moves.push(newPos)
-          } else {
-            if (target.color !== color) moves.push(newPos)
-            break
-          }
-        }
-      }
-      break
-
-    case 'bishop':
-      // Diagonal moves
-      const bishopDirections: [number, number][] = [[1, 1], [1, -1], [-1, 1], [-1, -1]]
-      for (const [rowDir, colDir] of bishopDirections) {
-        for (let i = 1; i < 8; i++) {
-          const newPos = { row: from.row + rowDir * i, col: from.col + colDir * i }
-          if (!isValidPosition(newPos)) break
-          
-          const target = getBoardPiece(board, newPos)
-          if (!target) {
-            moves.push(newPos)
-          } else {
-            if (target.color !== color) moves.push(newPos)
-            break
-          }
-        }
-      }
-      break
-
-    case 'queen':
-      // Combination of rook and bishop moves
-      const queenDirections: [number, number][] = [[0, 1], [0, -1], [1, 0], [-1, 0], [1, 1], [1, -1], [-1, 1], [-1, -1]]
-      for (const [rowDir, colDir] of queenDirections) {
-        for (let i = 1; i < 8; i++) {
-          const newPos = { row: from.row + rowDir * i, col: from.col + colDir * i }
-          if (!isValidPosition(newPos)) break
-          
-          const target = getBoardPiece(board, newPos)
-          if (!target) {
-            moves.push(newPos)
-          } else {
-            if (target.color !== color) moves.push(newPos)
-            break
-          }
-        }
-      }
-      break
-
-    case 'king':
-      // One square in any direction
-      const kingDirections: [number, number][] = [[0, 1], [0, -1], [1, 0], [-1, 0], [1, 1], [1, -1], [-1, 1], [-1, -1]]
-      for (const [rowDir, colDir] of kingDirections) {
-        const newPos = { row: from.row + rowDir, col: from.col + colDir }
-        if (isValidPosition(newPos)) {
-          const target = getBoardPiece(board, newPos)
-          if (!target || target.color !== color) {
-            moves.push(newPos)
-          }
-        }
-      }
-      break
-
-    case 'knight':
-      // L-shaped moves
-      const knightMoves: [number, number][] = [
-        [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-        [1, -2], [1, 2], [2, -1], [2, 1]
-      ]
-      for (const [rowOffset, colOffset] of knightMoves) {
-        const newPos = { row: from.row + rowOffset, col: from.col + colOffset }
-        if (isValidPosition(newPos)) {
-          const target = getBoardPiece(board, newPos)
-          if (!target || target.color !== color) {
-            moves.push(newPos)
-          }
-        }
-      }
-      break
-  }
-
-  return moves
-}
-
-// Make a move on the board
-const makeMove = (board: (ChessPiece | null)[][], from: Position, to: Position): (ChessPiece | null)[][] => {
-  const newBoard = board.map(row => [...row])
-  const piece = getBoardPiece(board, from)
-  
-  if (piece) {
-    newBoard[to.row][to.col] = { ...piece, hasMoved: true }
-    newBoard[from.row][from.col] = null
-  }
-  
-  return newBoard
-}
-
-// Get legal moves (with check validation)
-const getLegalMoves = (board: (ChessPiece | null)[][], from: Position): Position[] => {
-  const piece = getBoardPiece(board, from)
-  if (!piece) return []
-
-  const rawMoves = getPossibleMovesRaw(board, from)
-  const legalMoves: Position[] = []
-
-  // Filter out moves that would leave the king in check
-  for (const to of rawMoves) {
-    const newBoard = makeMove(board, from, to)
-    if (!isKingInCheck(newBoard, piece.color)) {
-      legalMoves.push(to)
-    }
-  }
-
-  return legalMoves
-}
-
-// Evaluate position
-const evaluatePosition = (board: (ChessPiece | null)[][], color: PieceColor): number => {
-  let score = 0
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = getBoardPiece(board, { row, col })
-      if (piece) {
-        const value = pieceValues[piece.type]
-        if (piece.color === color) {
-          score += value
-        } else {
-          score -= value
-        }
-      }
-    }
-  }
-  
-  // Bonus for putting opponent in check
-  const opponentColor = color === 'white' ? 'black' : 'white'
-  if (isKingInCheck(board, opponentColor)) {
-    score += 10
-  }
-  
-  // Penalty for being in check
-  if (isKingInCheck(board, color)) {
-    score -= 10
-  }
-  
-  return score
-}
-
-// Get all legal moves for a color
-const getAllLegalMoves = (board: (ChessPiece | null)[][], color: PieceColor): Move[] => {
-  const moves: Move[] = []
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = getBoardPiece(board, { row, col })
-      if (piece && piece.color === color) {
-        const from = { row, col }
-        const legalMoves = getLegalMoves(board, from)
-        
-        for (const to of legalMoves) {
-          const capturedPiece = getBoardPiece(board, to)
-          moves.push({
-            from,
-            to,
-            piece,
-            capturedPiece: capturedPiece || undefined
-          })
-        }
-      }
-    }
-  }
-  
-  return moves
-}
+// Position square names for easy reference
+const getSquareName = (pos: Position): string => positionToSquare(pos)
 
 // Generate comprehensive board analysis for AI
-const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: PieceColor): string => {
+const generateBoardAnalysis = (game: Chess, currentPlayer: PieceColor, fenDetails: FENDetails): string => {
+  const board = getBoard(game)
   const analysis: string[] = []
   
   // Basic board state
@@ -363,7 +102,7 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
     for (let col = 0; col < 8; col++) {
       const piece = getBoardPiece(board, { row, col })
       if (piece) {
-        const pieceChar = piece.type === 'knight' ? 'N' : piece.type[0].toUpperCase()
+        const pieceChar = pieceLetter(piece.type)
         rowStr += piece.color === 'white' ? pieceChar : pieceChar.toLowerCase()
       } else {
         rowStr += '.'
@@ -375,6 +114,11 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
   }
   analysis.push("   a b c d e f g h")
   analysis.push("")
+
+  // Castling, en passant and clocks from the FEN
+  analysis.push("Game State:")
+  analysis.push(...describeFEN(fenDetails))
+  analysis.push("")
   
   // Material count and advantage
   let whitePoints = 0
@@ -404,15 +148,15 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
   analysis.push("")
   
   // Check status
-  const whiteInCheck = isKingInCheck(board, 'white')
-  const blackInCheck = isKingInCheck(board, 'black')
+  const whiteInCheck = game.inCheck() && game.turn() === 'w'
+  const blackInCheck = game.inCheck() && game.turn() === 'b'
   if (whiteInCheck || blackInCheck) {
     analysis.push(`URGENT: ${whiteInCheck ? 'White' : 'Black'} king is in check!`)
     analysis.push("")
   }
   
   // Current player's legal moves analysis
-  const legalMoves = getAllLegalMoves(board, currentPlayer)
+  const legalMoves = getLegalMoves(game)
   analysis.push(`${currentPlayer.toUpperCase()} TO MOVE - Analyzing ${legalMoves.length} legal moves:`)
   analysis.push("")
   
@@ -428,14 +172,15 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
     }
     
     // Check if move gives check
-    const newBoard = makeMove(board, move.from, move.to)
-    const opponentColor = currentPlayer === 'white' ? 'black' : 'white'
-    if (isKingInCheck(newBoard, opponentColor)) {
+    if (move.san.endsWith('+') || move.san.endsWith('#')) {
       checks.push(move)
     }
     
     // Check if move creates threats
-    const moveScore = evaluatePosition(newBoard, currentPlayer) - evaluatePosition(board, currentPlayer)
+    const scoreBefore = evaluatePosition(game, currentPlayer)
+    applyMove(game, move)
+    const moveScore = evaluatePosition(game, currentPlayer) - scoreBefore
+    game.undo()
     if (moveScore > 0) {
       threats.push(move)
     } else if (!move.capturedPiece) {
@@ -447,11 +192,8 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
   if (captures.length > 0) {
     analysis.push("HIGH PRIORITY - CAPTURING MOVES:")
     for (const move of captures.sort((a, b) => pieceValues[b.capturedPiece!.type] - pieceValues[a.capturedPiece!.type])) {
-      const fromSquare = getSquareName(move.from)
-      const toSquare = getSquareName(move.to)
-      const pieceSymbol = move.piece.type === 'knight' ? 'N' : move.piece.type[0].toUpperCase()
-      const capturedSymbol = move.capturedPiece!.type === 'knight' ? 'N' : move.capturedPiece!.type[0].toUpperCase()
-      analysis.push(`  ${pieceSymbol}${fromSquare}x${toSquare} (wins ${capturedSymbol}, +${pieceValues[move.capturedPiece!.type]} points)`)
+      const capturedSymbol = pieceLetter(move.capturedPiece!.type)
+      analysis.push(`  ${move.san} (wins ${capturedSymbol}, +${pieceValues[move.capturedPiece!.type]} points)`)
     }
     analysis.push("")
   }
@@ -459,10 +201,7 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
   if (checks.length > 0) {
     analysis.push("HIGH PRIORITY - CHECKING MOVES:")
     for (const move of checks) {
-      const fromSquare = getSquareName(move.from)
-      const toSquare = getSquareName(move.to)
-      const pieceSymbol = move.piece.type === 'knight' ? 'N' : move.piece.type[0].toUpperCase()
-      analysis.push(`  ${pieceSymbol}${fromSquare}-${toSquare}+ (gives check)`)
+      analysis.push(`  ${move.san} (gives ${move.san.endsWith('#') ? 'checkmate' : 'check'})`)
     }
     analysis.push("")
   }
@@ -470,10 +209,7 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
   if (threats.length > 0) {
     analysis.push("TACTICAL MOVES (improve position):")
     for (const move of threats.slice(0, 5)) { // Show top 5 threats
-      const fromSquare = getSquareName(move.from)
-      const toSquare = getSquareName(move.to)
-      const pieceSymbol = move.piece.type === 'knight' ? 'N' : move.piece.type[0].toUpperCase()
-      analysis.push(`  ${pieceSymbol}${fromSquare}-${toSquare}`)
+      analysis.push(`  ${move.san}`)
     }
     analysis.push("")
   }
@@ -482,11 +218,11 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
   analysis.push("STRATEGIC ASSESSMENT:")
   
   // King safety
-  const kingPos = findKing(board, currentPlayer)
+  const kingPos = findKing(game, currentPlayer)
   if (kingPos) {
     const kingSquare = getSquareName(kingPos)
-    const opponentColor = currentPlayer === 'white' ? 'black' : 'white'
-    const kingUnderThreat = isSquareUnderAttack(board, kingPos, opponentColor)
+    const opponentColor = oppositeColor(currentPlayer)
+    const kingUnderThreat = isSquareUnderAttack(game, kingPos, opponentColor)
     if (kingUnderThreat) {
       analysis.push(`• URGENT: King on ${kingSquare} is under attack - prioritize safety!`)
     } else {
@@ -501,14 +237,14 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
   ]
   let controlledCenterSquares = 0
   for (const square of centerSquares) {
-    if (isSquareUnderAttack(board, square, currentPlayer)) {
+    if (isSquareUnderAttack(game, square, currentPlayer)) {
       controlledCenterSquares++
     }
   }
   analysis.push(`• Center control: ${controlledCenterSquares}/4 central squares controlled`)
   
   // Position evaluation
-  const positionScore = evaluatePosition(board, currentPlayer)
+  const positionScore = evaluatePosition(game, currentPlayer)
   analysis.push(`• Position evaluation: ${positionScore > 0 ? '+' : ''}${positionScore} (${positionScore > 5 ? 'winning' : positionScore > 0 ? 'advantageous' : positionScore < -5 ? 'losing' : positionScore < 0 ? 'difficult' : 'balanced'})`)
   
   analysis.push("")
@@ -518,6 +254,195 @@ const generateBoardAnalysis = (board: (ChessPiece | null)[][], currentPlayer: Pi
   return analysis.join('\n')
 }
 
+// Everything needed to choose a move once the request has been validated
+interface MoveContext {
+  game: Chess
+  legalMoves: Move[]
+  fenString: string
+  fenDetails: FENDetails
+  gameHistory: string[]
+  currentPlayer: PieceColor
+  difficulty: DifficultyLevel
+  engineTimeMs: number
+  bookDepth: number // plies from the start the opening book is used for
+  provider: AIMoveProvider
+}
+
+// Reporting while a move is chosen: every line is kept for the final response and,
+// when streaming, sent to the client as it happens
+interface MoveProgress {
+  logs: string[]
+  log: (message: string) => void
+  candidate: (candidate: AIMoveCandidate) => void
+  signal: AbortSignal // aborted when the client cancels the request
+}
+
+class RequestCancelledError extends Error {
+  constructor() {
+    super('Request cancelled by the client')
+    this.name = 'RequestCancelledError'
+  }
+}
+
+// Choose the AI's move: a book move in the opening, the tablebase move in simple endgames,
+// a deliberate mistake at weaker levels, otherwise the AI provider with feedback on bad
+// answers, and the local engine if it never gives a legal move
+const chooseMove = async (context: MoveContext, progress: MoveProgress): Promise<AIMoveResponse> => {
+  const { game, legalMoves, fenString, fenDetails, gameHistory, currentPlayer, difficulty, engineTimeMs, bookDepth, provider } = context
+  const { logs, log } = progress
+
+  // Known openings come from the book, before any search or AI call
+  const ply = plyFromStart(fenString, gameHistory)
+  if (ply < bookDepth) {
+    const bookMoves = getBookMoves(await getOpeningBook(), game)
+    const choice = pickBookMove(bookMoves)
+    if (choice) {
+      const total = bookMoves.reduce((sum, { weight }) => sum + weight, 0)
+      log(`Opening book move: ${choice.move.san} (weight ${choice.weight} of ${total}; book moves: ${bookMoves.map(({ move }) => move.san).join(', ')})`)
+      return createMoveResponse(choice.move, 0, 'book', provider, logs)
+    }
+    log(`Out of the opening book after ${ply} plies`)
+  }
+
+  // The local engine gets the moves played, so it knows about repetitions
+  const enginePosition = toUciPosition(fenString, gameHistory)
+
+  // Endgames the Syzygy tables cover are played perfectly at every level
+  const tablebase = getSyzygyTablebase()
+  const tablebaseMove = tablebase && bestTablebaseMove(tablebase, loadPosition(enginePosition.fen, enginePosition.moves))
+  if (tablebaseMove) {
+    const move = parseUciMove(game, moveToUci(tablebaseMove.move))
+    if (move) {
+      log(`Tablebase move: ${move.san} (${describeTablebaseResult(tablebaseMove.result)})`)
+      return createMoveResponse(move, 0, 'tablebase', provider, logs, tablebaseMove.result)
+    }
+  }
+
+  // Weaker levels sometimes play a deliberate mistake picked by the local engine
+  const mistake = rollMistake(difficulty)
+  if (mistake) {
+    const engineMove = playEngineMove(enginePosition.fen, enginePosition.moves, difficulty, { timeLimitMs: Math.min(500, engineTimeMs), tablebase }, mistake)
+    const move = engineMove.bestMove ? parseUciMove(game, engineMove.bestMove) : null
+    if (move && engineMove.mistake) {
+      log(`${difficultyLevels[difficulty].label} level plays a deliberate ${engineMove.mistake}: ${move.san}`)
+      return createMoveResponse(move, 0, 'mistake', provider, logs)
+    }
+  }
+
+  const boardAnalysis = generateBoardAnalysis(game, currentPlayer, fenDetails)
+  
+  log('Generated comprehensive board analysis for AI move generation')
+
+  // Forcing moves are the first candidates any player looks at
+  const forcingMoves = legalMoves.filter(move => move.capturedPiece || /[+#]$/.test(move.san)).map(move => move.san)
+  log(forcingMoves.length > 0
+    ? `Candidate forcing moves: ${forcingMoves.slice(0, 8).join(', ')}${forcingMoves.length > 8 ? ', ...' : ''}`
+    : `No captures or checks available; ${legalMoves.length} quiet moves to consider`)
+
+  // Ask the provider for a move, feeding back the reason and the legal moves when it answers badly
+  let rejection: AIMoveRejection | undefined
+  for (let attempt = 1; attempt <= MAX_AI_MOVE_ATTEMPTS; attempt++) {
+    if (progress.signal.aborted) throw new RequestCancelledError()
+    log(`Calling ${provider.label} with enhanced strategic context (attempt ${attempt}/${MAX_AI_MOVE_ATTEMPTS})...`)
+
+    const aiMove = await provider.generateMove({
+      fen: fenString,
+      boardAnalysis,
+      gameHistory,
+      currentPlayer,
+      difficulty,
+      timeLimitMs: engineTimeMs,
+      rejection,
+      signal: progress.signal
+    })
+
+    const validation = validateAIMove(game, aiMove, currentPlayer)
+    progress.candidate({
+      attempt,
+      move: aiMove || '',
+      accepted: validation.move !== null,
+      reason: validation.move ? undefined : validation.reason
+    })
+    if (validation.move) {
+      log(`AI move generated successfully: ${validation.move.san}`)
+      log('Returning move response to client')
+      return createMoveResponse(validation.move, attempt, 'ai', provider, logs)
+    }
+
+    log(`Rejected AI move: ${validation.reason}`)
+    rejection = {
+      move: aiMove || '',
+      reason: validation.reason,
+      legalMoves: legalMoves.map(move => move.san)
+    }
+  }
+
+  // The provider never produced a legal move, so let the local engine play at the chosen level
+  if (progress.signal.aborted) throw new RequestCancelledError()
+  log(`No legal move from ${provider.label} in ${MAX_AI_MOVE_ATTEMPTS} attempts, using the local engine`)
+  const engineMove = playEngineMove(enginePosition.fen, enginePosition.moves, difficulty, { timeLimitMs: engineTimeMs, tablebase }, null)
+  const fallbackMove = (engineMove.bestMove && parseUciMove(game, engineMove.bestMove)) || legalMoves[0]
+  log(`Local engine move: ${fallbackMove.san} (depth ${engineMove.depth})`)
+
+  return createMoveResponse(fallbackMove, MAX_AI_MOVE_ATTEMPTS, 'engine', provider, logs)
+}
+
+// Choose the move while streaming each step as a Server-Sent Event, ending with the
+// result or an error; stops calling the provider once the client cancels
+const streamMove = (context: MoveContext, logs: string[], signal: AbortSignal): Response => {
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AIMoveStreamEvent) => {
+        if (signal.aborted) return
+        try {
+          controller.enqueue(encoder.encode(formatSSE(event.type, event)))
+        } catch {
+          // The client has gone away
+        }
+      }
+
+      // Lines logged while validating the request
+      logs.forEach(message => send({ type: 'log', message }))
+
+      const progress: MoveProgress = {
+        logs,
+        log: message => {
+          logs.push(message)
+          send({ type: 'log', message })
+        },
+        candidate: candidate => send({ type: 'candidate', candidate }),
+        signal
+      }
+
+      try {
+        send({ type: 'result', response: await chooseMove(context, progress) })
+      } catch (error) {
+        if (!(error instanceof RequestCancelledError)) {
+          logs.push(`CRITICAL ERROR: ${error}`)
+          console.error('Error in enhanced generate-ai-move API:', error)
+          send({ type: 'error', error: 'Internal server error', logs })
+        }
+      } finally {
+        try {
+          controller.close()
+        } catch {
+          // Already closed by a cancelled request
+        }
+      }
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
+
 export async function POST(request: NextRequest) {
   const logs: string[] = []
   
@@ -525,9 +450,9 @@ export async function POST(request: NextRequest) {
     logs.push('Starting enhanced AI move generation...')
     
     const body = await request.json()
-    const { fenString, gameHistory, currentPlayer } = body
+    const { fenString, gameHistory, currentPlayer, difficulty = DEFAULT_DIFFICULTY, timeLimitMs, provider: providerName, bookDepth } = body
     
-    logs.push(`Received parameters: FEN=${fenString}, Player=${currentPlayer}, History length=${gameHistory?.length || 0}`)
+    logs.push(`Received parameters: FEN=${fenString}, Player=${currentPlayer}, Difficulty=${difficulty}, History length=${gameHistory?.length || 0}`)
 
     // Validate required parameters
     if (!fenString || !currentPlayer) {
@@ -553,42 +478,133 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    logs.push('Parameters validated successfully')
+    // Validate the optional move history, which the AI and the engine are given
+    if (gameHistory !== undefined && (!Array.isArray(gameHistory) || !gameHistory.every(move => typeof move === 'string'))) {
+      logs.push('ERROR: Invalid gameHistory value')
+      return NextResponse.json(
+        { 
+          error: 'gameHistory must be an array of SAN moves',
+          logs
+        },
+        { status: 400 }
+      )
+    }
+
+    // Validate difficulty is a known level
+    if (!isDifficultyLevel(difficulty)) {
+      logs.push('ERROR: Invalid difficulty value')
+      return NextResponse.json(
+        { 
+          error: `difficulty must be one of: ${Object.keys(difficultyLevels).join(', ')}`,
+          logs
+        },
+        { status: 400 }
+      )
+    }
+
+    // Validate the optional engine time budget (the AI's share of its clock in timed games)
+    if (timeLimitMs !== undefined && (typeof timeLimitMs !== 'number' || !(timeLimitMs > 0))) {
+      logs.push('ERROR: Invalid timeLimitMs value')
+      return NextResponse.json(
+        { 
+          error: 'timeLimitMs must be a positive number of milliseconds',
+          logs
+        },
+        { status: 400 }
+      )
+    }
+    const engineTimeMs = Math.min(timeLimitMs ?? MAX_ENGINE_TIME_MS, MAX_ENGINE_TIME_MS)
+
+    // Validate the optional provider; without one the configured provider is used
+    if (providerName !== undefined && !isAIMoveProviderName(providerName)) {
+      logs.push('ERROR: Invalid provider value')
+      return NextResponse.json(
+        { 
+          error: `provider must be one of: ${Object.keys(aiMoveProviders).join(', ')}`,
+          logs
+        },
+        { status: 400 }
+      )
+    }
+    const provider = getAIMoveProvider(providerName)
+
+    // Validate the optional book depth; 0 keeps the book out of the game
+    if (bookDepth !== undefined && (!Number.isInteger(bookDepth) || bookDepth < 0)) {
+      logs.push('ERROR: Invalid bookDepth value')
+      return NextResponse.json(
+        { 
+          error: 'bookDepth must be a non-negative whole number of plies',
+          logs
+        },
+        { status: 400 }
+      )
+    }
+
+    // Parse and validate the full FEN (placement, side to move, castling, en passant, clocks)
+    let fenDetails: FENDetails
+    try {
+      fenDetails = parseFEN(fenString)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      logs.push(`ERROR: ${message}`)
+      return NextResponse.json(
+        { 
+          error: message,
+          logs
+        },
+        { status: 400 }
+      )
+    }
+
+    // The FEN's side to move must agree with currentPlayer
+    if (fenDetails.turn !== currentPlayer) {
+      logs.push('ERROR: FEN side to move does not match currentPlayer')
+      return NextResponse.json(
+        { 
+          error: `FEN has ${fenDetails.turn} to move but currentPlayer is ${currentPlayer}`,
+          logs
+        },
+        { status: 400 }
+      )
+    }
+
+    logs.push(`Parameters validated successfully; moves from ${provider.label}`)
     
     // Parse the board and generate comprehensive analysis
-    const board = parseFEN(fenString)
-    const boardAnalysis = generateBoardAnalysis(board, currentPlayer)
-    
-    logs.push('Generated comprehensive board analysis for AI move generation')
-    logs.push('Calling Cosmic AI with enhanced strategic context...')
-
-    // Generate AI move using enhanced analysis
-    const aiMove = await generateAIMove(
-      boardAnalysis, // Send full strategic analysis instead of just FEN
-      gameHistory || [],
-      currentPlayer
-    )
+    const game = createGame(fenString)
+    const legalMoves = getLegalMoves(game)
 
-    if (!aiMove) {
-      logs.push('ERROR: Cosmic AI failed to generate move')
+    if (legalMoves.length === 0) {
+      logs.push('ERROR: No legal moves in this position')
       return NextResponse.json(
         { 
-          error: 'Failed to generate AI move',
+          error: 'The position has no legal moves',
           logs
         },
-        { status: 500 }
+        { status: 400 }
       )
     }
 
-    logs.push(`AI move generated successfully: ${aiMove}`)
-    logs.push('Enhanced context provided comprehensive strategic analysis')
-    logs.push('Returning move response to client')
+    const context: MoveContext = { game, legalMoves, fenString, fenDetails, gameHistory: gameHistory || [], currentPlayer, difficulty, engineTimeMs, bookDepth: bookDepth ?? difficultyLevels[difficulty].bookDepth, provider }
 
-    return NextResponse.json({ 
-      move: aiMove,
-      logs
-    })
+    // Stream progress to clients that ask for it, otherwise answer once the move is chosen
+    if (request.headers.get('accept')?.includes('text/event-stream')) {
+      return streamMove(context, logs, request.signal)
+    }
+
+    const progress: MoveProgress = {
+      logs,
+      log: message => { logs.push(message) },
+      candidate: () => {},
+      signal: request.signal
+    }
+    return NextResponse.json(await chooseMove(context, progress))
   } catch (error) {
+    // Nobody is left to answer when the client cancelled; 499 is "client closed request"
+    if (error instanceof RequestCancelledError) {
+      return new NextResponse(null, { status: 499 })
+    }
+
     logs.push(`CRITICAL ERROR: ${error}`)
     console.error('Error in enhanced generate-ai-move API:', error)
     
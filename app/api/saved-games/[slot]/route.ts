@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isSaveSlot, parseSavedGame } from '@/lib/savedGame'
+import { getSaveSlotStorage } from '@/lib/gameStorage'
+
+type SlotParams = { params: Promise<{ slot: string }> }
+
+const invalidSlot = () =>
+  NextResponse.json({ error: 'Save codes look like "k3j9-x8a2"' }, { status: 400 })
+
+// Fetch the unfinished game in a save slot
+export async function GET(request: NextRequest, { params }: SlotParams) {
+  const { slot } = await params
+  if (!isSaveSlot(slot)) return invalidSlot()
+
+  try {
+    const game = await getSaveSlotStorage().read(slot)
+    if (!game) {
+      return NextResponse.json({ error: 'No saved game for this code' }, { status: 404 })
+    }
+    return NextResponse.json({ game })
+  } catch (error) {
+    console.error(`Error loading saved game ${slot}:`, error)
+    return NextResponse.json({ error: 'Failed to load saved game' }, { status: 500 })
+  }
+}
+
+// Save the current game to a slot, replacing what was there
+export async function PUT(request: NextRequest, { params }: SlotParams) {
+  const { slot } = await params
+  if (!isSaveSlot(slot)) return invalidSlot()
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const game = parseSavedGame(body)
+  if (!game) {
+    return NextResponse.json({ error: 'Request body is not an unfinished game' }, { status: 400 })
+  }
+
+  try {
+    await getSaveSlotStorage().write(slot, game)
+    return NextResponse.json({ game })
+  } catch (error) {
+    console.error(`Error saving game to slot ${slot}:`, error)
+    return NextResponse.json({ error: 'Failed to save game' }, { status: 500 })
+  }
+}
+
+// Empty a slot once its game is finished or abandoned
+export async function DELETE(request: NextRequest, { params }: SlotParams) {
+  const { slot } = await params
+  if (!isSaveSlot(slot)) return invalidSlot()
+
+  try {
+    await getSaveSlotStorage().remove(slot)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error(`Error clearing save slot ${slot}:`, error)
+    return NextResponse.json({ error: 'Failed to clear saved game' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseFEN } from '@/lib/chess'
+import { loadPosition } from '@/lib/engine/search'
+import { getSyzygyTablebase } from '@/lib/engine/syzygy'
+import { probeTablebase } from '@/lib/engine/tablebase'
+
+// Exact result of an endgame position from the server's Syzygy tables, for the evaluation
+// bar: GET /api/tablebase?fen=<FEN>. Not found when no table covers the position.
+export async function GET(request: NextRequest) {
+  const fen = request.nextUrl.searchParams.get('fen')
+  if (!fen) {
+    return NextResponse.json({ error: 'fen is required' }, { status: 400 })
+  }
+  try {
+    parseFEN(fen)
+  } catch (error) {
+    return NextResponse.json({ error: `fen is invalid: ${error instanceof Error ? error.message : String(error)}` }, { status: 400 })
+  }
+
+  try {
+    const tablebase = getSyzygyTablebase()
+    const result = tablebase && probeTablebase(tablebase, loadPosition(fen))
+    if (!result) {
+      return NextResponse.json({ error: 'No tablebase covers this position' }, { status: 404 })
+    }
+    return NextResponse.json({ tablebase: result })
+  } catch (error) {
+    console.error('Error probing the tablebase:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
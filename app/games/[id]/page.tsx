@@ -0,0 +1,41 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import Header from '@/components/Header'
+import Footer from '@/components/Footer'
+import GameReplay from '@/components/GameReplay'
+import { getGameStorage } from '@/lib/gameStorage'
+
+export const metadata: Metadata = {
+  title: 'Game Replay - Chess AI',
+  description: 'Step through a past game against the Chess AI'
+}
+
+export const dynamic = 'force-dynamic'
+
+export default async function GameReplayPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const game = await getGameStorage().get(id)
+  if (!game) notFound()
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-100">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">
+            Game Replay
+          </h1>
+          <Link href="/games" className="text-blue-600 hover:text-blue-800 font-medium">
+            ← All games
+          </Link>
+        </div>
+
+        <GameReplay game={game} />
+      </div>
+
+      <Footer />
+    </main>
+  )
+}
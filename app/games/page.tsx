@@ -0,0 +1,110 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import Header from '@/components/Header'
+import Footer from '@/components/Footer'
+import { GameResult } from '@/types'
+import { getGameStorage } from '@/lib/gameStorage'
+import { difficultyLevels } from '@/lib/difficulty'
+import { formatDuration, describeOutcome, describeOpening, countFullMoves } from '@/lib/gameSummary'
+
+export const metadata: Metadata = {
+  title: 'Game History - Chess AI',
+  description: 'Review your past games against the Chess AI'
+}
+
+// Saved games change with every finished game
+export const dynamic = 'force-dynamic'
+
+const outcomeColors: Record<ReturnType<typeof describeOutcome>, string> = {
+  Won: 'text-green-600',
+  Lost: 'text-red-600',
+  Draw: 'text-gray-600'
+}
+
+export default async function GamesPage() {
+  let games: GameResult[] = []
+  let loadError = false
+  try {
+    games = await getGameStorage().list()
+  } catch (error) {
+    console.error('Error loading game history:', error)
+    loadError = true
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-100">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">
+            Game History
+          </h1>
+          <Link href="/" className="text-blue-600 hover:text-blue-800 font-medium">
+            ← Back to the board
+          </Link>
+        </div>
+
+        <div className="max-w-5xl mx-auto bg-white rounded-xl shadow-lg p-6">
+          {loadError ? (
+            <p className="text-center text-red-600">Could not load your games. Please try again later.</p>
+          ) : games.length === 0 ? (
+            <p className="text-center text-gray-600">No finished games yet. Play a game and it will show up here.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-gray-500 border-b border-gray-200">
+                  <tr>
+                    <th className="py-2 pr-4 font-semibold">Date</th>
+                    <th className="py-2 pr-4 font-semibold">Result</th>
+                    <th className="py-2 pr-4 font-semibold">Colour</th>
+                    <th className="py-2 pr-4 font-semibold">Level</th>
+                    <th className="py-2 pr-4 font-semibold">Opening</th>
+                    <th className="py-2 pr-4 font-semibold text-right">Moves</th>
+                    <th className="py-2 pr-4 font-semibold text-right">Duration</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {games.map(game => {
+                    const outcome = describeOutcome(game)
+                    return (
+                      <tr key={game.id} className="border-b border-gray-100 hover:bg-amber-50">
+                        <td className="py-2 pr-4 text-gray-700 whitespace-nowrap">
+                          {new Date(game.date).toLocaleString()}
+                        </td>
+                        <td className={`py-2 pr-4 font-semibold ${outcomeColors[outcome]}`}>{outcome}</td>
+                        <td className="py-2 pr-4 text-gray-700 capitalize">{game.playerColor}</td>
+                        <td className="py-2 pr-4 text-gray-700">
+                          {game.difficulty ? difficultyLevels[game.difficulty].label : '—'}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-700">
+                          {game.opening ? (
+                            <span title={describeOpening(game.moves)}>
+                              <span className="font-mono font-semibold">{game.eco}</span> {game.opening}
+                            </span>
+                          ) : (
+                            <span className="font-mono">{describeOpening(game.moves)}</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-700 text-right">{countFullMoves(game.moves)}</td>
+                        <td className="py-2 pr-4 text-gray-700 text-right">{formatDuration(game.duration)}</td>
+                        <td className="py-2 text-right">
+                          <Link href={`/games/${game.id}`} className="text-blue-600 hover:text-blue-800 font-medium">
+                            Replay
+                          </Link>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Footer />
+    </main>
+  )
+}
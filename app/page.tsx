@@ -1,3 +1,4 @@
+import Link from 'next/link'
 import ChessGame from '@/components/ChessGame'
 import Header from '@/components/Header'
 import Footer from '@/components/Footer'
@@ -16,6 +17,9 @@ export default function Home() {
             Test your chess skills against an intelligent AI opponent powered by Cosmic AI. 
             Make your moves and watch as the computer analyzes positions to provide challenging gameplay.
           </p>
+          <Link href="/games" className="inline-block mt-3 text-blue-600 hover:text-blue-800 font-medium">
+            📜 View past games
+          </Link>
         </div>
 
         <ChessGame />
@@ -0,0 +1,162 @@
+'use client'
+
+import { Board, PieceColor, PieceType, Position, getBoardPiece, positionsEqual } from '@/lib/chess'
+
+// Animation state interface
+export interface AnimationState {
+  isAnimating: boolean
+  attackingPiece: PieceType | null
+  attackingSquare: Position | null
+  targetSquare: Position | null
+  animationType: 'move' | 'capture' | null
+}
+
+// Chess piece Unicode symbols
+export const pieceSymbols: Record<PieceColor, Record<PieceType, string>> = {
+  white: {
+    king: '♔',
+    queen: '♕',
+    rook: '♖',
+    bishop: '♗',
+    knight: '♘',
+    pawn: '♙'
+  },
+  black: {
+    king: '♚',
+    queen: '♛',
+    rook: '♜',
+    bishop: '♝',
+    knight: '♞',
+    pawn: '♟'
+  }
+}
+
+// Attack animation symbols for each piece type
+export const attackAnimations: Record<PieceType, string[]> = {
+  king: ['👑', '⚔️', '🛡️', '✨', '💫'], // Royal strike with crown and sword
+  queen: ['👸', '🔮', '⭐', '💜', '🌟', '💥'], // Magical spell casting
+  rook: ['🏰', '💣', '🔥', '💥', '🌪️'], // Cannon bombardment
+  bishop: ['⛪', '🙏', '✨', '💫', '⚡', '🌟'], // Divine lightning strike
+  knight: ['🐴', '⚔️', '🛡️', '💨', '⚡', '💥'], // Charging cavalry attack
+  pawn: ['⚔️', '🛡️', '💪', '💥'] // Simple but determined strike
+}
+
+// Board rows and columns in display order, seen from the given side of the board
+export const displayOrder = (orientation: PieceColor): number[] =>
+  orientation === 'white' ? [0, 1, 2, 3, 4, 5, 6, 7] : [7, 6, 5, 4, 3, 2, 1, 0]
+
+interface ChessBoardProps {
+  board: Board
+  orientation: PieceColor // side shown at the bottom
+  selectedSquare?: Position | null
+  possibleMoves?: Position[]
+  hintMove?: Position | null
+  lastMove?: { from: Position, to: Position } | null
+  kingInCheck?: PieceColor | null
+  animation?: AnimationState
+  animationFrame?: number
+  disabled?: boolean // ignore clicks for now, e.g. while animating
+  onSquareClick?: (row: number, col: number) => void // omit for a read-only board
+}
+
+export default function ChessBoard({
+  board,
+  orientation,
+  selectedSquare = null,
+  possibleMoves = [],
+  hintMove = null,
+  lastMove = null,
+  kingInCheck = null,
+  animation,
+  animationFrame = 0,
+  disabled = false,
+  onSquareClick
+}: ChessBoardProps) {
+  const isAnimating = animation?.isAnimating ?? false
+
+  // Render square
+  const renderSquare = (row: number, col: number) => {
+    const piece = getBoardPiece(board, { row, col })
+    const isLight = (row + col) % 2 === 0
+    const isSelected = selectedSquare && positionsEqual(selectedSquare, { row, col })
+    const isPossibleMove = possibleMoves.some(move => positionsEqual(move, { row, col }))
+    const isKingInCheck = piece && piece.type === 'king' && kingInCheck === piece.color
+    const isHintMove = hintMove && positionsEqual(hintMove, { row, col })
+    const isLastMove = lastMove && (positionsEqual(lastMove.from, { row, col }) || positionsEqual(lastMove.to, { row, col }))
+    const isAttackingSquare = animation?.attackingSquare && positionsEqual(animation.attackingSquare, { row, col })
+    const isTargetSquare = animation?.targetSquare && positionsEqual(animation.targetSquare, { row, col })
+
+    let squareClasses = `
+      w-16 h-16 flex items-center justify-center text-5xl font-bold relative
+      ${onSquareClick ? 'cursor-pointer transition-all duration-200 hover:brightness-110' : ''}
+      ${isLight ? 'bg-amber-100' : 'bg-amber-800'}
+      ${isKingInCheck ? 'bg-red-400' : ''}
+      ${isAnimating || disabled ? 'pointer-events-none' : ''}
+    `
+
+    // Enhanced border styling for better visibility on all 4 sides
+    if (isSelected) {
+      squareClasses += ' border-4 border-blue-500 shadow-lg shadow-blue-500/50'
+    } else if (isHintMove) {
+      squareClasses += ' border-4 border-purple-500 shadow-lg shadow-purple-500/50'
+    } else if (isPossibleMove) {
+      squareClasses += ' border-2 border-green-400 shadow-md shadow-green-400/30'
+    } else if (isLastMove) {
+      squareClasses += ' border-4 border-yellow-400'
+    }
+
+    // Animation effects
+    if (isAttackingSquare && isAnimating) {
+      squareClasses += ' animate-pulse ring-4 ring-yellow-400'
+    }
+    if (isTargetSquare && isAnimating) {
+      squareClasses += ' animate-bounce ring-4 ring-red-500'
+    }
+
+    return (
+      <div
+        key={`${row}-${col}`}
+        className={squareClasses}
+        onClick={onSquareClick ? () => onSquareClick(row, col) : undefined}
+      >
+        {/* Render the chess piece or animation effect */}
+        {isAnimating && isTargetSquare && animation?.attackingPiece ? (
+          // Show attack animation on target square
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="text-6xl animate-bounce z-20">
+              {attackAnimations[animation.attackingPiece][animationFrame] || '💥'}
+            </span>
+          </div>
+        ) : piece ? (
+          // Show regular piece
+          <span
+            className={`
+              ${piece.color === 'white'
+                ? 'text-white drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]'
+                : 'text-black drop-shadow-[0_2px_2px_rgba(255,255,255,0.8)]'
+              }
+              ${isAttackingSquare && isAnimating ? 'animate-pulse scale-110' : ''}
+            `}
+          >
+            {pieceSymbols[piece.color][piece.type]}
+          </span>
+        ) : null}
+
+        {/* Show move indicator for empty squares */}
+        {isPossibleMove && !piece && !isAnimating && (
+          <div className="w-4 h-4 bg-green-400 rounded-full opacity-70"></div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="border-4 border-amber-900 rounded-lg overflow-hidden">
+      <div className="grid grid-cols-8 gap-0">
+        {displayOrder(orientation).map(row =>
+          displayOrder(orientation).map(col => renderSquare(row, col))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,534 +1,329 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
-import Timer from './Timer'
-
-// Chess piece types and colors
-type PieceType = 'king' | 'queen' | 'rook' | 'bishop' | 'knight' | 'pawn'
-type PieceColor = 'white' | 'black'
-
-// Chess piece interface
-interface ChessPiece {
-  type: PieceType
-  color: PieceColor
-  hasMoved?: boolean
-}
-
-// Square position interface
-interface Position {
-  row: number
-  col: number
-}
-
-// Move interface
-interface Move {
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { Chess } from 'chess.js'
+import Link from 'next/link'
+import Timer, { TimerHandle } from './Timer'
+import ChessBoard, { AnimationState, pieceSymbols, attackAnimations } from './ChessBoard'
+import PGNDialog from './PGNDialog'
+import ContinueDialog from './ContinueDialog'
+import EvalBar from './EvalBar'
+import EvalGraph from './EvalGraph'
+import GameAnalysisPanel from './GameAnalysisPanel'
+import { useEngine } from '@/hooks/useEngine'
+import { useEvaluations } from '@/hooks/useEvaluations'
+import { SearchResult } from '@/lib/engine/search'
+import { DifficultyLevel, DEFAULT_DIFFICULTY, difficultyLevels } from '@/lib/difficulty'
+import { ChessGameProps, GameStatus, AIMoveResponse, AIMoveCandidate, AIMoveStreamEvent, AIHintResponse, GameResult } from '@/types'
+import { readSSE } from '@/lib/sse'
+import { aiMoveProviders } from '@/lib/providers/provider'
+import {
+  SavedGame,
+  saveLocalGame,
+  loadLocalGame,
+  clearLocalGame,
+  getLocalSaveSlot,
+  setLocalSaveSlot
+} from '@/lib/savedGame'
+import { Hint, HintLevel, MAX_HINT_LEVEL, describeHint, describeMoveIdea } from '@/lib/hints'
+import { classifyOpening } from '@/lib/eco'
+import { MoveAnnotation, PGNGame, PGNHeaders, createPGN, createPGNHeaders, toPGNResult, toPGNTermination, findHumanColor } from '@/lib/pgn'
+import {
+  PieceType,
+  PieceColor,
+  ChessPiece,
+  Position,
+  Move,
+  DrawReason,
+  ClaimableDraw,
+  STARTING_FEN,
+  promotionPieces,
+  replayGame,
+  getMoveHistory,
+  getFEN,
+  getBoard,
+  getBoardPiece,
+  getLegalMoves,
+  applyMove,
+  getGameStatus,
+  getGameEndReason,
+  isGameOverStatus,
+  evaluatePosition,
+  isPromotionMove,
+  parseSAN,
+  toFigurineSAN,
+  positionsEqual,
+  oppositeColor,
+  toPieceColor,
+  toUciMove,
+  parseUciMove,
+  hasMatingMaterial
+} from '@/lib/chess'
+import {
+  TimeControl,
+  TimeControlPreset,
+  timeControlPresets,
+  DEFAULT_CUSTOM_TIME_CONTROL,
+  startingClocks,
+  formatTimeControl,
+  chargeMoveTime,
+  engineTimeBudgetMs
+} from '@/lib/timeControl'
+
+// Side the human asks to play; 'random' is settled when the game starts
+type ColorChoice = PieceColor | 'random'
+
+// Pending pawn promotion awaiting the player's piece choice
+interface PendingPromotion {
   from: Position
   to: Position
-  piece: ChessPiece
-  capturedPiece?: ChessPiece
-}
-
-// Animation state interface
-interface AnimationState {
-  isAnimating: boolean
-  attackingPiece: PieceType | null
-  attackingSquare: Position | null
-  targetSquare: Position | null
-  animationType: 'move' | 'capture' | null
 }
 
 // Game state interface
 interface GameState {
-  board: (ChessPiece | null)[][]
   currentPlayer: PieceColor
+  humanColor: PieceColor
+  colorChoice: ColorChoice
   selectedSquare: Position | null
   possibleMoves: Position[]
-  gameStatus: 'playing' | 'check' | 'checkmate' | 'stalemate' | 'draw'
+  gameStatus: GameStatus
   moves: Move[]
   isThinking: boolean
   winner: PieceColor | null
   kingInCheck: PieceColor | null
+  drawReason: DrawReason | null
+  claimableDraw: ClaimableDraw | null
   aiLogs: string[]
-  hintMove: Position | null
+  hint: Hint | null
+  hintsUsed: number // positions a hint was asked for this game, recorded with the saved game
   isGettingHint: boolean
   animation: AnimationState
-  speedChessMode: boolean
-  playerTimeLeft: number
-  isTimeExpired: boolean
+  timeControlPreset: TimeControlPreset | null // null for an untimed game
+  timeControl: TimeControl | null
+  clocks: Record<PieceColor, number> // seconds left on each side's clock
+  turnStartClock: number // mover's clock when their turn began, for the delay refund
+  isTimeExpired: boolean // a flag fell and ended the game
+  pendingPromotion: PendingPromotion | null
+  engineTimeMs: number
+  difficulty: DifficultyLevel
+  moveAnnotations: Record<number, MoveAnnotation> // clock/eval data by ply, for PGN comments
+  startedAt: number // ms timestamp, for the saved game's duration
+  saveStatus: SaveStatus
+  savedGameId: string | null
+  allowTakebacks: boolean // off for rated or timed games
+  allowHints: boolean // off for rated games
+  positionStack: PositionSnapshot[] // state before each of the human's moves, newest last
+  timerKey: number // bumped to restart the Timers from clocks after a takeback, resume or new game
 }
 
-// Chess piece Unicode symbols
-const pieceSymbols: Record<PieceColor, Record<PieceType, string>> = {
-  white: {
-    king: '♔',
-    queen: '♕',
-    rook: '♖',
-    bishop: '♗',
-    knight: '♘',
-    pawn: '♙'
-  },
-  black: {
-    king: '♚',
-    queen: '♛',
-    rook: '♜',
-    bishop: '♝',
-    knight: '♞',
-    pawn: '♟'
-  }
+// What a takeback restores: the position before the human's last move, with its
+// status, clock and hint as they were then
+type PositionSnapshot = Pick<GameState,
+  'moves' | 'moveAnnotations' | 'currentPlayer' | 'gameStatus' | 'winner' | 'kingInCheck' |
+  'drawReason' | 'claimableDraw' | 'clocks' | 'turnStartClock' | 'hint'>
+
+const takeSnapshot = (state: GameState): PositionSnapshot => ({
+  moves: state.moves,
+  moveAnnotations: state.moveAnnotations,
+  currentPlayer: state.currentPlayer,
+  gameStatus: state.gameStatus,
+  winner: state.winner,
+  kingInCheck: state.kingInCheck,
+  drawReason: state.drawReason,
+  claimableDraw: state.claimableDraw,
+  clocks: state.clocks,
+  turnStartClock: state.turnStartClock,
+  hint: state.hint
+})
+
+// Takebacks wait for the AI, hints and animations to finish; a lost clock is final, and so
+// is a game once it is being saved, so it is never stored twice
+const canTakeBack = (state: GameState): boolean =>
+  state.allowTakebacks &&
+  state.positionStack.length > 0 &&
+  !state.isThinking &&
+  !state.isGettingHint &&
+  !state.animation.isAnimating &&
+  !state.isTimeExpired &&
+  state.saveStatus !== 'saving' &&
+  state.saveStatus !== 'saved'
+
+// Progress of saving a finished game to /api/games; loaded games that were already
+// over are skipped so they are not stored twice
+type SaveStatus = 'unsaved' | 'saving' | 'saved' | 'failed' | 'skipped'
+
+const saveStatusLabels: Partial<Record<SaveStatus, string>> = {
+  saving: 'Saving game...',
+  saved: 'Game saved',
+  failed: 'Game could not be saved'
 }
 
-// Attack animation symbols for each piece type
-const attackAnimations: Record<PieceType, string[]> = {
-  king: ['👑', '⚔️', '🛡️', '✨', '💫'], // Royal strike with crown and sword
-  queen: ['👸', '🔮', '⭐', '💜', '🌟', '💥'], // Magical spell casting
-  rook: ['🏰', '💣', '🔥', '💥', '🌪️'], // Cannon bombardment
-  bishop: ['⛪', '🙏', '✨', '💫', '⚡', '🌟'], // Divine lightning strike
-  knight: ['🐴', '⚔️', '🛡️', '💨', '⚡', '💥'], // Charging cavalry attack
-  pawn: ['⚔️', '🛡️', '💪', '💥'] // Simple but determined strike
+// Human-readable draw reasons
+const drawReasonLabels: Record<DrawReason, string> = {
+  'threefold-repetition': 'threefold repetition',
+  'fivefold-repetition': 'fivefold repetition',
+  'fifty-move-rule': 'the fifty-move rule',
+  'seventy-five-move-rule': 'the seventy-five-move rule',
+  'insufficient-material': 'insufficient material',
+  'timeout-vs-insufficient-material': 'timeout against insufficient material'
 }
 
-// Initialize chess board with starting position
-const initializeBoard = (): (ChessPiece | null)[][] => {
-  const board: (ChessPiece | null)[][] = Array(8).fill(null).map(() => Array(8).fill(null))
-  
-  // Place pieces in starting positions
-  const pieceOrder: PieceType[] = ['rook', 'knight', 'bishop', 'queen', 'king', 'bishop', 'knight', 'rook']
-  
-  // Place black pieces
-  for (let col = 0; col < 8; col++) {
-    board[0][col] = { type: pieceOrder[col], color: 'black' }
-    board[1][col] = { type: 'pawn', color: 'black' }
-  }
-  
-  // Place white pieces
-  for (let col = 0; col < 8; col++) {
-    board[6][col] = { type: 'pawn', color: 'white' }
-    board[7][col] = { type: pieceOrder[col], color: 'white' }
-  }
-  
-  return board
+// Colour options offered before a game starts
+const colorChoiceLabels: Record<ColorChoice, string> = {
+  white: '⚪ White',
+  black: '⚫ Black',
+  random: '🎲 Random'
 }
 
-// Check if position is within board bounds
-const isValidPosition = (pos: Position): boolean => {
-  return pos.row >= 0 && pos.row < 8 && pos.col >= 0 && pos.col < 8
+// Settle a colour choice, flipping a coin for 'random'
+const resolveColorChoice = (choice: ColorChoice): PieceColor =>
+  choice === 'random' ? (Math.random() < 0.5 ? 'white' : 'black') : choice
+
+// Where the server's move came from, for the AI logs
+const describeMoveSource = ({ source, provider }: AIMoveResponse): string => {
+  if (source === 'book') return 'the opening book'
+  if (source === 'tablebase') return 'the endgame tablebase'
+  if (source === 'mistake') return 'a deliberate difficulty-level mistake'
+  if (source === 'engine') return 'the server-side engine'
+  return aiMoveProviders[provider].label
 }
 
-// Check if positions are equal
-const positionsEqual = (pos1: Position, pos2: Position): boolean => {
-  return pos1.row === pos2.row && pos1.col === pos2.col
-}
+// Name the AI plays under in PGN headers
+const aiPlayerName = (difficulty: DifficultyLevel): string => `Cosmic AI (${difficultyLevels[difficulty].label})`
 
-// Safe board access helper
-const getBoardPiece = (board: (ChessPiece | null)[][], pos: Position): ChessPiece | null => {
-  if (!isValidPosition(pos)) return null
-  return board[pos.row]?.[pos.col] ?? null
-}
+// Difficulty level named in a PGN player name, if any
+const findDifficulty = (name: string): DifficultyLevel | null =>
+  (Object.keys(difficultyLevels) as DifficultyLevel[]).find(level => name.includes(`(${difficultyLevels[level].label})`)) ?? null
 
-// Find king position for a given color
-const findKing = (board: (ChessPiece | null)[][], color: PieceColor): Position | null => {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = getBoardPiece(board, { row, col })
-      if (piece && piece.type === 'king' && piece.color === color) {
-        return { row, col }
-      }
-    }
-  }
-  return null
-}
+// Local engine think time options in milliseconds
+const engineTimeOptions = [500, 1000, 2000, 5000]
 
-// Check if a square is under attack by the opponent
-const isSquareUnderAttack = (board: (ChessPiece | null)[][], pos: Position, byColor: PieceColor): boolean => {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = getBoardPiece(board, { row, col })
-      if (piece && piece.color === byColor) {
-        const moves = getPossibleMovesRaw(board, { row, col })
-        if (moves.some(move => positionsEqual(move, pos))) {
-          return true
-        }
-      }
-    }
-  }
-  return false
-}
+// Rebuild the rules state from the moves played so far
+const replayMoves = (moves: Move[]): Chess => replayGame(moves.map(move => move.san))
 
-// Check if the king is in check
-const isKingInCheck = (board: (ChessPiece | null)[][], color: PieceColor): boolean => {
-  const kingPos = findKing(board, color)
-  if (!kingPos) return false
-  
-  const opponentColor = color === 'white' ? 'black' : 'white'
-  return isSquareUnderAttack(board, kingPos, opponentColor)
+// One-line summary of a local engine search for the AI logs
+const describeSearch = (result: SearchResult): string => {
+  const score = result.mate !== null
+    ? `mate in ${Math.abs(result.mate)}`
+    : `${result.score >= 0 ? '+' : ''}${(result.score / 100).toFixed(2)}`
+  if (result.tablebase) return `Local engine: ${result.bestMove} from the tablebase (${result.score > 0 ? 'win' : result.score < 0 ? 'loss' : 'draw'})`
+  return `Local engine: ${result.bestMove} (depth ${result.depth}, ${score}, ${result.nodes} nodes in ${result.timeMs}ms)`
 }
 
-// Get possible moves for a piece (without check validation)
-const getPossibleMovesRaw = (board: (ChessPiece | null)[][], from: Position): Position[] => {
-  const piece = getBoardPiece(board, from)
-  if (!piece) return []
-
-  const moves: Position[] = []
-  const { type, color } = piece
-
-  switch (type) {
-    case 'pawn':
-      const direction = color === 'white' ? -1 : 1
-      const startRow = color === 'white' ? 6 : 1
-      
-      // Move forward one square
-      const oneSquareAhead = { row: from.row + direction, col: from.col }
-      if (isValidPosition(oneSquareAhead) && !getBoardPiece(board, oneSquareAhead)) {
-        moves.push(oneSquareAhead)
-        
-        // Move forward two squares from starting position
-        const twoSquaresAhead = { row: from.row + 2 * direction, col: from.col }
-        if (from.row === startRow && 
-            isValidPosition(twoSquaresAhead) && 
-            !getBoardPiece(board, twoSquaresAhead)) {
-          moves.push(twoSquaresAhead)
-        }
-      }
-      
-      // Capture diagonally
-      for (const colOffset of [-1, 1]) {
-        const capturePos = { row: from.row + direction, col: from.col + colOffset }
-        if (isValidPosition(capturePos)) {
-          const target = getBoardPiece(board, capturePos)
-          if (target && target.color !== color) {
-            moves.push(capturePos)
-          }
-        }
-      }
-      break
-
-    case 'rook':
-      // Horizontal and vertical moves
-      const rookDirections: [number, number][] = [[0, 1], [0, -1], [1, 0], [-1, 0]]
-      for (const [rowDir, colDir] of rookDirections) {
-        for (let i = 1; i < 8; i++) {
-          const newPos = { row: from.row + rowDir * i, col: from.col + colDir * i }
-          if (!isValidPosition(newPos)) break
-          
-          const target = getBoardPiece(board, newPos)
-          if (!target) {
-            moves.push(newPos)
-          } else {
-            if (target.color !== color) moves.push(newPos)
-            break
-          }
-        }
-      }
-      break
-
-    case 'bishop':
-      // Diagonal moves
-      const bishopDirections: [number, number][] = [[1, 1], [1, -1], [-1, 1], [-1, -1]]
-      for (const [rowDir, colDir] of bishopDirections) {
-        for (let i = 1; i < 8; i++) {
-          const newPos = { row: from.row + rowDir * i, col: from.col + colDir * i }
-          if (!isValidPosition(newPos)) break
-          
-          const target = getBoardPiece(board, newPos)
-          if (!target) {
-            moves.push(newPos)
-          } else {
-            if (target.color !== color) moves.push(newPos)
-            break
-          }
-        }
-      }
-      break
-
-    case 'queen':
-      // Combination of rook and bishop moves
-      const queenDirections: [number, number][] = [[0, 1], [0, -1], [1, 0], [-1, 0], [1, 1], [1, -1], [-1, 1], [-1, -1]]
-      for (const [rowDir, colDir] of queenDirections) {
-        for (let i = 1; i < 8; i++) {
-          const newPos = { row: from.row + rowDir * i, col: from.col + colDir * i }
-          if (!isValidPosition(newPos)) break
-          
-          const target = getBoardPiece(board, newPos)
-          if (!target) {
-            moves.push(newPos)
-          } else {
-            if (target.color !== color) moves.push(newPos)
-            break
-          }
-        }
-      }
-      break
-
-    case 'king':
-      // One square in any direction
-      const kingDirections: [number, number][] = [[0, 1], [0, -1], [1, 0], [-1, 0], [1, 1], [1, -1], [-1, 1], [-1, -1]]
-      for (const [rowDir, colDir] of kingDirections) {
-        const newPos = { row: from.row + rowDir, col: from.col + colDir }
-        if (isValidPosition(newPos)) {
-          const target = getBoardPiece(board, newPos)
-          if (!target || target.color !== color) {
-            moves.push(newPos)
-          }
-        }
-      }
-      break
-
-    case 'knight':
-      // L-shaped moves
-      const knightMoves: [number, number][] = [
-        [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-        [1, -2], [1, 2], [2, -1], [2, 1]
-      ]
-      for (const [rowOffset, colOffset] of knightMoves) {
-        const newPos = { row: from.row + rowOffset, col: from.col + colOffset }
-        if (isValidPosition(newPos)) {
-          const target = getBoardPiece(board, newPos)
-          if (!target || target.color !== color) {
-            moves.push(newPos)
-          }
-        }
-      }
-      break
+// The game so far as PGN, with clock/eval comments if wanted
+const buildPGN = (state: GameState, includeComments: boolean): { pgn: string, headers: PGNHeaders } => {
+  const isOver = isGameOverStatus(state.gameStatus) || state.isTimeExpired
+  const result = toPGNResult(isOver ? state.winner ?? 'draw' : null)
+  const headers = createPGNHeaders(state.humanColor, aiPlayerName(state.difficulty), result, new Date(state.startedAt), state.timeControl)
+  const endReason = getGameEndReason(state.gameStatus, state.drawReason)
+  if (endReason) headers.Termination = toPGNTermination(endReason)
+  const opening = classifyOpening(state.moves.map(move => move.san))
+  if (opening) {
+    headers.ECO = opening.eco
+    headers.Opening = opening.name
   }
-
-  return moves
+  const annotations = includeComments ? state.moves.map((_, index) => state.moveAnnotations[index] ?? null) : []
+  return { pgn: createPGN(state.moves, headers, annotations), headers }
 }
 
-// Get possible moves for a piece (with check validation)
-const getPossibleMoves = (board: (ChessPiece | null)[][], from: Position): Position[] => {
-  const piece = getBoardPiece(board, from)
-  if (!piece) return []
-
-  const rawMoves = getPossibleMovesRaw(board, from)
-  const validMoves: Position[] = []
-
-  // Filter out moves that would leave the king in check
-  for (const to of rawMoves) {
-    const newBoard = makeMove(board, from, to)
-    if (!isKingInCheck(newBoard, piece.color)) {
-      validMoves.push(to)
-    }
-  }
-
-  return validMoves
-}
-
-// Make a move on the board
-const makeMove = (board: (ChessPiece | null)[][], from: Position, to: Position): (ChessPiece | null)[][] => {
-  const newBoard = board.map(row => [...row])
-  const piece = getBoardPiece(board, from)
-  
-  if (piece) {
-    newBoard[to.row][to.col] = { ...piece, hasMoved: true }
-    newBoard[from.row][from.col] = null
-  }
-  
-  return newBoard
-}
-
-// Get all possible moves for a color
-const getAllPossibleMoves = (board: (ChessPiece | null)[][], color: PieceColor): Move[] => {
-  const moves: Move[] = []
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = getBoardPiece(board, { row, col })
-      if (piece && piece.color === color) {
-        const from = { row, col }
-        const possibleMoves = getPossibleMoves(board, from)
-        
-        for (const to of possibleMoves) {
-          const capturedPiece = getBoardPiece(board, to)
-          moves.push({
-            from,
-            to,
-            piece,
-            capturedPiece: capturedPiece || undefined
-          })
-        }
-      }
-    }
-  }
-  
-  return moves
-}
-
-// Check if the game is over and determine the result
-const checkGameStatus = (board: (ChessPiece | null)[][], currentPlayer: PieceColor): {
-  status: 'playing' | 'check' | 'checkmate' | 'stalemate'
-  winner: PieceColor | null
-  kingInCheck: PieceColor | null
-} => {
-  const isInCheck = isKingInCheck(board, currentPlayer)
-  const possibleMoves = getAllPossibleMoves(board, currentPlayer)
-  
-  if (possibleMoves.length === 0) {
-    if (isInCheck) {
-      // Checkmate - opponent wins
-      const winner = currentPlayer === 'white' ? 'black' : 'white'
-      return { status: 'checkmate', winner, kingInCheck: currentPlayer }
-    } else {
-      // Stalemate - draw
-      return { status: 'stalemate', winner: null, kingInCheck: null }
-    }
-  }
-  
-  if (isInCheck) {
-    return { status: 'check', winner: null, kingInCheck: currentPlayer }
-  }
-  
-  return { status: 'playing', winner: null, kingInCheck: null }
+// Clock choices; untimed games have no clocks
+const timeControlLabels: Record<TimeControlPreset, string> = {
+  bullet: timeControlPresets.bullet.label,
+  blitz: timeControlPresets.blitz.label,
+  rapid: timeControlPresets.rapid.label,
+  custom: 'Custom'
 }
 
-// Convert board to FEN notation (simplified)
-const boardToFEN = (board: (ChessPiece | null)[][], currentPlayer: PieceColor): string => {
-  let fen = ''
-  
-  for (let row = 0; row < 8; row++) {
-    let emptyCount = 0
-    
-    for (let col = 0; col < 8; col++) {
-      const piece = getBoardPiece(board, { row, col })
-      
-      if (!piece) {
-        emptyCount++
-      } else {
-        if (emptyCount > 0) {
-          fen += emptyCount.toString()
-          emptyCount = 0
-        }
-        
-        const pieceChar = piece.type === 'knight' ? 'n' : piece.type[0]
-        fen += piece.color === 'white' ? pieceChar.toUpperCase() : pieceChar
-      }
-    }
-    
-    if (emptyCount > 0) {
-      fen += emptyCount.toString()
-    }
-    
-    if (row < 7) {
-      fen += '/'
-    }
-  }
-  
-  // Add current player, castling, en passant, halfmove, fullmove
-  fen += ` ${currentPlayer[0]} - - 0 1`
-  
-  return fen
-}
-
-// Convert moves to algebraic notation for game history
-const moveToAlgebraic = (move: Move): string => {
-  const fromSquare = String.fromCharCode(97 + move.from.col) + (8 - move.from.row)
-  const toSquare = String.fromCharCode(97 + move.to.col) + (8 - move.to.row)
-  
-  let algebraic = ''
-  
-  // Piece notation (except pawns)
-  if (move.piece.type !== 'pawn') {
-    algebraic += move.piece.type === 'knight' ? 'N' : move.piece.type[0].toUpperCase()
-  }
-  
-  // Capture notation
-  if (move.capturedPiece) {
-    if (move.piece.type === 'pawn') {
-      algebraic += fromSquare[0] // pawn captures show the file
-    }
-    algebraic += 'x'
-  }
-  
-  algebraic += toSquare
-  
-  return algebraic
-}
-
-// Simple AI evaluation function (fallback)
-const evaluatePosition = (board: (ChessPiece | null)[][], color: PieceColor): number => {
-  const pieceValues: Record<PieceType, number> = {
-    pawn: 1,
-    knight: 3,
-    bishop: 3,
-    rook: 5,
-    queen: 9,
-    king: 100
-  }
-  
-  let score = 0
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = getBoardPiece(board, { row, col })
-      if (piece) {
-        const value = pieceValues[piece.type]
-        if (piece.color === color) {
-          score += value
-        } else {
-          score -= value
-        }
-      }
+// Inputs for a custom time control; the base time is entered in minutes
+const customTimeFields: { field: keyof TimeControl, label: string, scale: number }[] = [
+  { field: 'baseSeconds', label: 'Minutes', scale: 60 },
+  { field: 'incrementSeconds', label: 'Increment (s)', scale: 1 },
+  { field: 'delaySeconds', label: 'Delay (s)', scale: 1 }
+]
+
+// Clocks only run once both sides have made their first move, as on most online servers
+const isClockRunning = (state: GameState, color: PieceColor): boolean =>
+  state.timeControl !== null &&
+  state.moves.length >= 2 &&
+  state.currentPlayer === color &&
+  !state.isTimeExpired &&
+  !isGameOverStatus(state.gameStatus) &&
+  !state.animation.isAnimating
+
+// Updates once `mover` has moved: their clock reads `settledClock` (already charged for
+// the move), the opponent's turn starts, and the clock reading is added to the move's
+// PGN comment. Call with the state from before the move.
+const finishTurn = (
+  state: GameState,
+  mover: PieceColor,
+  settledClock: number | null,
+  annotation: MoveAnnotation | null = null
+): Pick<GameState, 'clocks' | 'turnStartClock' | 'moveAnnotations'> => {
+  const ply = state.moves.length
+  if (!state.timeControl || settledClock === null) {
+    return {
+      clocks: state.clocks,
+      turnStartClock: state.turnStartClock,
+      moveAnnotations: annotation ? { ...state.moveAnnotations, [ply]: annotation } : state.moveAnnotations
     }
   }
-  
-  // Bonus for putting opponent in check
-  const opponentColor = color === 'white' ? 'black' : 'white'
-  if (isKingInCheck(board, opponentColor)) {
-    score += 5
-  }
-  
-  return score
-}
 
-// Simple minimax AI (fallback)
-const getBestMove = (board: (ChessPiece | null)[][], color: PieceColor): Move | null => {
-  const moves = getAllPossibleMoves(board, color)
-  if (moves.length === 0) return null
-  
-  let bestMove: Move | null = null
-  let bestScore = -Infinity
-  
-  for (const move of moves) {
-    const newBoard = makeMove(board, move.from, move.to)
-    const score = evaluatePosition(newBoard, color)
-    
-    if (score > bestScore) {
-      bestScore = score
-      bestMove = move
-    }
+  const clocks = { ...state.clocks, [mover]: settledClock }
+  return {
+    clocks,
+    turnStartClock: clocks[oppositeColor(mover)],
+    moveAnnotations: { ...state.moveAnnotations, [ply]: { ...annotation, clockSeconds: settledClock } }
   }
-  
-  return bestMove
 }
 
-// Parse algebraic notation to move
-const parseAlgebraicMove = (algebraic: string, board: (ChessPiece | null)[][], color: PieceColor): Move | null => {
-  // This is a simplified parser - in a real implementation you'd want more robust parsing
-  const moves = getAllPossibleMoves(board, color)
-  
-  // Try to find a move that matches the algebraic notation
-  for (const move of moves) {
-    const moveAlgebraic = moveToAlgebraic(move)
-    if (moveAlgebraic === algebraic || moveAlgebraic.toLowerCase() === algebraic.toLowerCase()) {
-      return move
-    }
-  }
-  
-  return null
+// How long the AI may search: from its clock in a timed game, otherwise the chosen engine time
+const aiThinkTimeMs = (state: GameState): number =>
+  state.timeControl
+    ? engineTimeBudgetMs(state.clocks[oppositeColor(state.humanColor)], state.timeControl)
+    : state.engineTimeMs
+
+// The game in progress, in the form saved for resuming
+const toSavedGame = (state: GameState): SavedGame => ({
+  version: 3,
+  savedAt: new Date().toISOString(),
+  moves: state.moves.map(move => move.san),
+  moveAnnotations: state.moveAnnotations,
+  humanColor: state.humanColor,
+  colorChoice: state.colorChoice,
+  difficulty: state.difficulty,
+  engineTimeMs: state.engineTimeMs,
+  timeControlPreset: state.timeControlPreset,
+  timeControl: state.timeControl,
+  clocks: state.clocks,
+  allowTakebacks: state.allowTakebacks,
+  allowHints: state.allowHints,
+  hintsUsed: state.hintsUsed,
+  startedAt: state.startedAt
+})
+
+// Short description of a saved game for the resume prompt
+const describeSavedGame = (saved: SavedGame): string => {
+  const moveCount = Math.ceil(saved.moves.length / 2)
+  return `${moveCount} move${moveCount === 1 ? '' : 's'} as ${saved.humanColor} against the ${difficultyLevels[saved.difficulty].label} AI, saved ${new Date(saved.savedAt).toLocaleString()}`
 }
 
-export default function ChessGame() {
+export default function ChessGame({ playerColor = 'white' }: ChessGameProps = {}) {
   const [gameState, setGameState] = useState<GameState>(() => ({
-    board: initializeBoard(),
     currentPlayer: 'white',
+    humanColor: playerColor,
+    colorChoice: playerColor,
     selectedSquare: null,
     possibleMoves: [],
     gameStatus: 'playing',
     moves: [],
-    isThinking: false,
+    isThinking: playerColor === 'black', // The AI opens when the human plays black
     winner: null,
     kingInCheck: null,
+    drawReason: null,
+    claimableDraw: null,
     aiLogs: [],
-    hintMove: null,
+    hint: null,
+    hintsUsed: 0,
     isGettingHint: false,
     animation: {
       isAnimating: false,
@@ -537,46 +332,172 @@ export default function ChessGame() {
       targetSquare: null,
       animationType: null
     },
-    speedChessMode: false,
-    playerTimeLeft: 60, // 1 minute in seconds
-    isTimeExpired: false
+    timeControlPreset: null,
+    timeControl: null,
+    clocks: { white: 0, black: 0 },
+    turnStartClock: 0,
+    isTimeExpired: false,
+    pendingPromotion: null,
+    engineTimeMs: 1000,
+    difficulty: DEFAULT_DIFFICULTY,
+    moveAnnotations: {},
+    startedAt: Date.now(),
+    saveStatus: 'unsaved',
+    savedGameId: null,
+    allowTakebacks: true,
+    allowHints: true,
+    positionStack: [],
+    timerKey: 0
   }))
 
+  // Latest state for effects and callbacks that should not rerun on every clock tick
+  const gameStateRef = useRef(gameState)
+  useEffect(() => {
+    gameStateRef.current = gameState
+  })
+
+  // Each side's Timer, read when a move is made
+  const clockRefs = useRef<Partial<Record<PieceColor, TimerHandle | null>>>({})
+
+  // The AI move request in flight and the position it is for
+  const aiRequestRef = useRef<{ moves: Move[]; controller: AbortController } | null>(null)
+  const [aiCandidates, setAiCandidates] = useState<AIMoveCandidate[]>([]) // model's proposals for the current move
+
+  const [isPGNDialogOpen, setIsPGNDialogOpen] = useState(false)
+  const [isContinueDialogOpen, setIsContinueDialogOpen] = useState(false)
+  const [resumeOffer, setResumeOffer] = useState<SavedGame | null>(null) // unfinished game found on load
+  const [saveSlot, setSaveSlot] = useState<string | null>(null) // server-side save code for this device
+  const [includePGNComments, setIncludePGNComments] = useState(true)
+  const [reviewPly, setReviewPly] = useState<number | null>(null) // earlier position shown on the board
+  const [isAnalysisOpen, setIsAnalysisOpen] = useState(false)
+
   // Animation state for attack effects
   const [animationFrame, setAnimationFrame] = useState(0)
 
-  // Handle time expiration
-  const handleTimeExpire = useCallback(() => {
-    if (gameState.currentPlayer === 'white' && gameState.speedChessMode && !gameState.isTimeExpired) {
-      setGameState(prev => ({
+  // Rules state derived from the current position
+  const game = useMemo(() => replayMoves(gameState.moves), [gameState.moves])
+  const board = useMemo(() => getBoard(game), [game])
+  const fen = useMemo(() => getFEN(game), [game])
+  const opening = useMemo(() => classifyOpening(gameState.moves.map(move => move.san)), [gameState.moves])
+  const aiColor = oppositeColor(gameState.humanColor)
+  const isGameInProgress = gameState.moves.length > 0 && !isGameOverStatus(gameState.gameStatus) && !gameState.isTimeExpired
+
+  // Review mode shows an earlier position on a read-only board; the game carries on underneath
+  const viewPly = reviewPly !== null && reviewPly < gameState.moves.length ? reviewPly : null
+  const reviewGame = useMemo(() => (viewPly === null ? null : replayMoves(gameState.moves.slice(0, viewPly))), [gameState.moves, viewPly])
+  const shownPly = viewPly ?? gameState.moves.length
+
+  // Analysis waits while the AI searches so the two engines do not compete
+  const { evaluations, evaluationAt } = useEvaluations(
+    gameState.moves,
+    shownPly,
+    gameState.isThinking || gameState.animation.isAnimating
+  )
+
+  const { search: searchEngine, play: playEngine } = useEngine()
+
+  // Move from the local search engine, at full strength or played at a difficulty level;
+  // never throws so callers can use it as a fallback
+  const getEngineMove = useCallback(async (
+    moves: Move[],
+    difficulty?: DifficultyLevel,
+    timeLimitMs: number = gameState.engineTimeMs
+  ): Promise<{ move: Move | null, log: string, annotation: MoveAnnotation | null }> => {
+    try {
+      const options = { moves: moves.map(toUciMove), timeLimitMs }
+      const result = difficulty
+        ? await playEngine(STARTING_FEN, difficulty, options)
+        : await searchEngine(STARTING_FEN, options)
+      const engineGame = replayMoves(moves)
+      const move = result.bestMove ? parseUciMove(engineGame, result.bestMove) : null
+      const mistake = 'mistake' in result && result.mistake ? ` - deliberate ${result.mistake}` : ''
+
+      // Engine scores are from the mover's side; PGN evals are from White's
+      const sign = toPieceColor(engineGame.turn()) === 'white' ? 1 : -1
+      const annotation: MoveAnnotation | null = result.depth === 0 && !result.tablebase ? null
+        : result.mate !== null ? { mate: sign * result.mate } : { eval: sign * result.score }
+
+      return { move, log: describeSearch(result) + mistake, annotation }
+    } catch (error) {
+      console.error('Error running local engine:', error)
+      return { move: null, log: `Local engine failed: ${error}`, annotation: null }
+    }
+  }, [searchEngine, playEngine, gameState.engineTimeMs])
+
+  // A flag fell: the side loses on time, unless the opponent could never checkmate
+  const handleFlagFall = useCallback((color: PieceColor) => {
+    setGameState(prev => {
+      if (prev.isTimeExpired || isGameOverStatus(prev.gameStatus) || prev.currentPlayer !== color) return prev
+      const opponent = oppositeColor(color)
+      const canWin = hasMatingMaterial(replayMoves(prev.moves), opponent)
+
+      return {
         ...prev,
+        clocks: { ...prev.clocks, [color]: 0 },
         isTimeExpired: true,
-        gameStatus: 'checkmate',
-        winner: 'black'
-      }))
-    }
-  }, [gameState.currentPlayer, gameState.speedChessMode, gameState.isTimeExpired])
+        isThinking: false,
+        selectedSquare: null,
+        possibleMoves: [],
+        pendingPromotion: null,
+        gameStatus: canWin ? 'timeout' : 'draw',
+        winner: canWin ? opponent : null,
+        drawReason: canWin ? null : 'timeout-vs-insufficient-material',
+        claimableDraw: null,
+        aiLogs: [...prev.aiLogs, `${color === prev.humanColor ? 'Your' : 'The AI\'s'} flag fell`]
+      }
+    })
+  }, [])
 
-  // Toggle speed chess mode
-  const toggleSpeedChessMode = useCallback(() => {
+  // Choose the clock for the next game (null for untimed); both clocks start full
+  const selectTimeControl = useCallback((preset: TimeControlPreset | null, custom: TimeControl = DEFAULT_CUSTOM_TIME_CONTROL) => {
+    const timeControl = preset === null ? null : preset === 'custom' ? custom : timeControlPresets[preset].timeControl
+    const clocks = timeControl ? startingClocks(timeControl) : { white: 0, black: 0 }
     setGameState(prev => ({
       ...prev,
-      speedChessMode: !prev.speedChessMode,
-      playerTimeLeft: 60,
-      isTimeExpired: false
+      timeControlPreset: preset,
+      timeControl,
+      clocks,
+      turnStartClock: clocks[prev.currentPlayer],
+      isTimeExpired: false,
+      timerKey: prev.timerKey + 1
     }))
   }, [])
 
-  // Reset timer when player's turn changes
-  const resetPlayerTimer = useCallback(() => {
-    if (gameState.speedChessMode && gameState.currentPlayer === 'white') {
-      setGameState(prev => ({
+  // Charge the mover's clock for the move just made (delay refund and increment) and
+  // return its new reading for state, or null in an untimed game
+  const settleClock = useCallback((mover: PieceColor): number | null => {
+    const { timeControl, turnStartClock } = gameStateRef.current
+    const timer = clockRefs.current[mover]
+    if (!timeControl || !timer) return null
+
+    const remaining = timer.getTimeLeft()
+    const settled = chargeMoveTime(remaining, turnStartClock - remaining, timeControl)
+    timer.addTime(settled - remaining)
+    return settled
+  }, [])
+
+  // Take back the human's last move and the AI's reply to it
+  const takeBack = useCallback(() => {
+    setGameState(prev => {
+      if (!canTakeBack(prev)) return prev
+      const snapshot = prev.positionStack[prev.positionStack.length - 1]
+      const undone = prev.moves.slice(snapshot.moves.length).map(move => move.san)
+
+      return {
         ...prev,
-        playerTimeLeft: 60,
-        isTimeExpired: false
-      }))
-    }
-  }, [gameState.speedChessMode, gameState.currentPlayer])
+        ...snapshot,
+        positionStack: prev.positionStack.slice(0, -1),
+        selectedSquare: null,
+        possibleMoves: [],
+        pendingPromotion: null,
+        isThinking: false,
+        saveStatus: 'unsaved',
+        savedGameId: null,
+        timerKey: prev.timerKey + 1,
+        aiLogs: [...prev.aiLogs, `Took back ${undone.join(' ')}`]
+      }
+    })
+  }, [])
 
   // Trigger attack animation
   const triggerAttackAnimation = useCallback((piece: ChessPiece, from: Position, to: Position, isCapture: boolean) => {
@@ -627,27 +548,56 @@ export default function ChessGame() {
     })
   }, [])
 
+  // Play the human's move, animating captures first
+  const executePlayerMove = useCallback(async (from: Position, to: Position, promotion?: PieceType) => {
+    const nextGame = replayMoves(gameState.moves)
+    const move = applyMove(nextGame, { from, to, promotion })
+    if (!move) return
+
+    // Trigger attack animation if it's a capture
+    if (move.capturedPiece) {
+      await triggerAttackAnimation(move.piece, from, to, true)
+    }
+
+    // Check game status after the move
+    const gameStatus = getGameStatus(nextGame)
+    const settledClock = settleClock(gameState.humanColor)
+
+    setGameState(prev => prev.isTimeExpired ? prev : ({
+      ...prev,
+      ...finishTurn(prev, prev.humanColor, settledClock),
+      positionStack: [...prev.positionStack, takeSnapshot(prev)],
+      currentPlayer: oppositeColor(prev.humanColor),
+      hint: null, // Clear hint once the player moves
+      selectedSquare: null,
+      possibleMoves: [],
+      pendingPromotion: null,
+      moves: [...prev.moves, move],
+      isThinking: !isGameOverStatus(gameStatus.status),
+      gameStatus: gameStatus.status,
+      winner: gameStatus.winner,
+      kingInCheck: gameStatus.kingInCheck,
+      drawReason: gameStatus.drawReason,
+      claimableDraw: gameStatus.claimableDraw
+    }))
+  }, [gameState.moves, gameState.humanColor, triggerAttackAnimation, settleClock])
+
   // Handle square click
   const handleSquareClick = useCallback(async (row: number, col: number) => {
-    if (gameState.currentPlayer !== 'white' || 
+    if (gameState.currentPlayer !== gameState.humanColor || 
         gameState.isThinking || 
-        gameState.gameStatus === 'checkmate' || 
-        gameState.gameStatus === 'stalemate' || 
+        isGameOverStatus(gameState.gameStatus) || 
         gameState.animation.isAnimating ||
-        gameState.isTimeExpired) return
+        gameState.isTimeExpired ||
+        gameState.pendingPromotion) return
 
     const clickedPos = { row, col }
     
-    // Clear hint when player makes a move
-    if (gameState.hintMove) {
-      setGameState(prev => ({ ...prev, hintMove: null }))
-    }
-    
-    // If no square is selected, select this square if it has a white piece
+    // If no square is selected, select this square if it has one of the human's pieces
     if (!gameState.selectedSquare) {
-      const piece = getBoardPiece(gameState.board, clickedPos)
-      if (piece && piece.color === 'white') {
-        const moves = getPossibleMoves(gameState.board, clickedPos)
+      const piece = getBoardPiece(board, clickedPos)
+      if (piece && piece.color === gameState.humanColor) {
+        const moves = getLegalMoves(game, clickedPos).map(move => move.to)
         setGameState(prev => ({
           ...prev,
           selectedSquare: clickedPos,
@@ -673,47 +623,22 @@ export default function ChessGame() {
     )
 
     if (isValidMove && gameState.selectedSquare) {
-      const piece = getBoardPiece(gameState.board, gameState.selectedSquare)
-      const capturedPiece = getBoardPiece(gameState.board, clickedPos)
-      const isCapture = !!capturedPiece
+      const piece = getBoardPiece(board, gameState.selectedSquare)
       
-      if (piece) {
-        // Trigger attack animation if it's a capture
-        if (isCapture) {
-          await triggerAttackAnimation(piece, gameState.selectedSquare, clickedPos, true)
-        }
-        
-        // Make the move after animation
-        const newBoard = makeMove(gameState.board, gameState.selectedSquare, clickedPos)
-        
-        const move: Move = {
-          from: gameState.selectedSquare,
-          to: clickedPos,
-          piece,
-          capturedPiece: capturedPiece || undefined
-        }
-
-        // Check game status after the move
-        const gameStatus = checkGameStatus(newBoard, 'black')
-
+      if (piece && isPromotionMove(piece, clickedPos)) {
+        // Ask which piece to promote to before playing the move
         setGameState(prev => ({
           ...prev,
-          board: newBoard,
-          currentPlayer: 'black',
-          selectedSquare: null,
-          possibleMoves: [],
-          moves: [...prev.moves, move],
-          isThinking: gameStatus.status !== 'checkmate' && gameStatus.status !== 'stalemate',
-          gameStatus: gameStatus.status,
-          winner: gameStatus.winner,
-          kingInCheck: gameStatus.kingInCheck
+          pendingPromotion: { from: prev.selectedSquare!, to: clickedPos }
         }))
+      } else if (piece) {
+        await executePlayerMove(gameState.selectedSquare, clickedPos)
       }
     } else {
       // Try to select a different piece
-      const piece = getBoardPiece(gameState.board, clickedPos)
-      if (piece && piece.color === 'white') {
-        const moves = getPossibleMoves(gameState.board, clickedPos)
+      const piece = getBoardPiece(board, clickedPos)
+      if (piece && piece.color === gameState.humanColor) {
+        const moves = getLegalMoves(game, clickedPos).map(move => move.to)
         setGameState(prev => ({
           ...prev,
           selectedSquare: clickedPos,
@@ -727,18 +652,83 @@ export default function ChessGame() {
         }))
       }
     }
-  }, [gameState, triggerAttackAnimation])
+  }, [gameState, game, board, executePlayerMove])
+
+  // Complete a pending promotion with the chosen piece
+  const handlePromotionChoice = useCallback(async (type: PieceType) => {
+    if (!gameState.pendingPromotion) return
+    await executePlayerMove(gameState.pendingPromotion.from, gameState.pendingPromotion.to, type)
+  }, [gameState.pendingPromotion, executePlayerMove])
+
+  // Cancel a pending promotion and keep the pawn selected
+  const cancelPromotion = useCallback(() => {
+    setGameState(prev => ({ ...prev, pendingPromotion: null }))
+  }, [])
+
+  // Claim a draw by repetition or the fifty-move rule
+  const claimDraw = useCallback(() => {
+    setGameState(prev => {
+      if (!prev.claimableDraw || prev.currentPlayer !== prev.humanColor || prev.isThinking) return prev
+      return {
+        ...prev,
+        gameStatus: 'draw',
+        drawReason: prev.claimableDraw,
+        claimableDraw: null,
+        selectedSquare: null,
+        possibleMoves: [],
+        hint: null
+      }
+    })
+  }, [])
+
+  // Suggested move from the local engine, with its expected reply; never throws so it
+  // can back up the hint route
+  const getEngineHint = async (): Promise<Hint | null> => {
+    try {
+      const result = await searchEngine(STARTING_FEN, { moves: gameState.moves.map(toUciMove), timeLimitMs: gameState.engineTimeMs })
+      const move = result.bestMove ? parseUciMove(game, result.bestMove) : null
+      if (!move) return null
+      const reply = result.pv[1] ? parseUciMove(replayMoves([...gameState.moves, move]), result.pv[1]) : null
+      return { level: 1, move, explanation: describeMoveIdea(move), expectedReply: reply?.san ?? null }
+    } catch (error) {
+      console.error('Error running local engine for a hint:', error)
+      return null
+    }
+  }
 
-  // Get AI hint
+  // Hints come in levels: the first click finds a suggested move and shows which piece
+  // to move, later clicks reveal its target square and then the whole move explained
   const getHint = async () => {
-    if (gameState.currentPlayer !== 'white' || 
+    if (!gameState.allowHints ||
+        gameState.currentPlayer !== gameState.humanColor || 
         gameState.isThinking || 
         gameState.isGettingHint || 
         gameState.animation.isAnimating ||
-        gameState.isTimeExpired) return
+        gameState.isTimeExpired ||
+        (gameState.hint && gameState.hint.level >= MAX_HINT_LEVEL)) return
+
+    // A hint counts once per position, however many levels are shown; from level 2 the
+    // piece is picked up so its target stands out
+    const showHint = (prev: GameState, hint: Hint): GameState => ({
+      ...prev,
+      hint,
+      hintsUsed: hint.level === 1 ? prev.hintsUsed + 1 : prev.hintsUsed,
+      isGettingHint: false,
+      ...(hint.level >= 2 && {
+        selectedSquare: hint.move.from,
+        possibleMoves: getLegalMoves(game, hint.move.from).map(move => move.to)
+      })
+    })
+
+    const currentHint = gameState.hint
+    if (currentHint) {
+      setGameState(prev => showHint(prev, { ...currentHint, level: (currentHint.level + 1) as HintLevel }))
+      return
+    }
 
-    setGameState(prev => ({ ...prev, isGettingHint: true, hintMove: null }))
+    setGameState(prev => ({ ...prev, isGettingHint: true }))
 
+    let hint: Hint | null = null
     try {
       const response = await fetch('/api/generate-ai-hint', {
         method: 'POST',
@@ -746,200 +736,333 @@ export default function ChessGame() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          fenString: boardToFEN(gameState.board, 'white'),
-          gameHistory: gameState.moves.map(moveToAlgebraic),
-          currentPlayer: 'white'
+          fenString: fen,
+          gameHistory: gameState.moves.map(move => move.san),
+          currentPlayer: gameState.humanColor
         })
       })
 
       if (response.ok) {
-        const data = await response.json()
-        if (data.move) {
-          // Parse the hint move
-          const hintMove = parseAlgebraicMove(data.move, gameState.board, 'white')
-          if (hintMove) {
-            setGameState(prev => ({ 
-              ...prev, 
-              hintMove: hintMove.to,
-              selectedSquare: hintMove.from,
-              possibleMoves: getPossibleMoves(gameState.board, hintMove.from),
-              isGettingHint: false 
-            }))
-            return
-          }
+        const data: AIHintResponse = await response.json()
+        const move = data.move ? parseSAN(game, data.move) : null
+        if (move) {
+          hint = { level: 1, move, explanation: data.explanation || describeMoveIdea(move), expectedReply: data.expectedReply ?? null }
         }
       }
-
-      // Fallback to local AI
-      const bestMove = getBestMove(gameState.board, 'white')
-      if (bestMove) {
-        setGameState(prev => ({ 
-          ...prev, 
-          hintMove: bestMove.to,
-          selectedSquare: bestMove.from,
-          possibleMoves: getPossibleMoves(gameState.board, bestMove.from),
-          isGettingHint: false 
-        }))
-      } else {
-        setGameState(prev => ({ ...prev, isGettingHint: false }))
-      }
     } catch (error) {
       console.error('Error getting hint:', error)
-      // Fallback to local AI
-      const bestMove = getBestMove(gameState.board, 'white')
-      if (bestMove) {
-        setGameState(prev => ({ 
-          ...prev, 
-          hintMove: bestMove.to,
-          selectedSquare: bestMove.from,
-          possibleMoves: getPossibleMoves(gameState.board, bestMove.from),
-          isGettingHint: false 
-        }))
-      } else {
-        setGameState(prev => ({ ...prev, isGettingHint: false }))
-      }
     }
+
+    // Fallback to the local engine
+    if (!hint) hint = await getEngineHint()
+
+    const foundHint = hint
+    setGameState(prev => foundHint ? showHint(prev, foundHint) : { ...prev, isGettingHint: false })
   }
 
-  // AI move effect
+  // AI move effect: ask the server for a move, streaming its reasoning into the logs,
+  // and fall back to the local engine if the request fails or is stopped
   useEffect(() => {
-    if (gameState.currentPlayer === 'black' && gameState.isThinking && gameState.gameStatus !== 'checkmate' && gameState.gameStatus !== 'stalemate' && !gameState.animation.isAnimating) {
-      const timer = setTimeout(async () => {
-        try {
-          // Generate FEN string and game history for AI
-          const fenString = boardToFEN(gameState.board, 'black')
-          const gameHistory = gameState.moves.map(moveToAlgebraic)
-          
-          // Call server-side API for AI move generation
-          const response = await fetch('/api/generate-ai-move', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              fenString,
-              gameHistory,
-              currentPlayer: 'black'
-            })
+    if (gameState.currentPlayer !== aiColor || !gameState.isThinking || isGameOverStatus(gameState.gameStatus) || gameState.animation.isAnimating) return
+
+    // One request per position, however often this effect reruns while it is out
+    const moves = gameState.moves
+    if (aiRequestRef.current?.moves === moves) return
+    const controller = new AbortController()
+    aiRequestRef.current = { moves, controller }
+
+    const playAIMove = async () => {
+      const aiGame = replayMoves(moves)
+
+      // The AI claims an available draw when it is behind on material
+      if (gameState.claimableDraw && evaluatePosition(aiGame, aiColor) < 0) {
+        const reason = gameState.claimableDraw
+        setGameState(prev => prev.isTimeExpired || prev.moves !== moves ? prev : ({
+          ...prev,
+          isThinking: false,
+          gameStatus: 'draw',
+          drawReason: reason,
+          claimableDraw: null,
+          aiLogs: [`AI claimed a draw by ${drawReasonLabels[reason]}`]
+        }))
+        return
+      }
+
+      // Show the AI's reasoning as it streams in
+      const logs: string[] = []
+      const addLog = (message: string) => {
+        logs.push(message)
+        setGameState(prev => prev.moves === moves ? { ...prev, aiLogs: [...logs] } : prev)
+      }
+      setAiCandidates([])
+      setGameState(prev => ({ ...prev, aiLogs: [] }))
+
+      let bestMove: Move | null = null
+      let annotation: MoveAnnotation | null = null
+
+      try {
+        // Call server-side API for AI move generation
+        const response = await fetch('/api/generate-ai-move', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'text/event-stream'
+          },
+          body: JSON.stringify({
+            fenString: getFEN(aiGame),
+            gameHistory: moves.map(move => move.san),
+            currentPlayer: aiColor,
+            difficulty: gameState.difficulty,
+            timeLimitMs: aiThinkTimeMs(gameStateRef.current)
+          }),
+          signal: controller.signal
+        })
+
+        if (response.ok && response.body) {
+          let result: AIMoveResponse | null = null
+          await readSSE(response.body, ({ data }) => {
+            const event: AIMoveStreamEvent = JSON.parse(data)
+            if (event.type === 'log') addLog(event.message)
+            else if (event.type === 'candidate') setAiCandidates(prev => [...prev, event.candidate])
+            else if (event.type === 'result') result = event.response
+            else addLog(`Server error: ${event.error}`)
           })
-          
-          let bestMove: Move | null = null
-          let logs: string[] = []
-          
-          if (response.ok) {
-            const data = await response.json()
-            if (data.move) {
-              // Try to parse the AI-suggested move
-              bestMove = parseAlgebraicMove(data.move, gameState.board, 'black')
-            }
-            // Store AI logs if available
-            if (data.logs) {
-              logs = data.logs
-            }
-          } else {
-            logs.push('API request failed with status: ' + response.status)
-          }
-          
-          // Fallback to local AI if server-side AI fails
-          if (!bestMove) {
-            logs.push('Server-side AI failed, using fallback local AI')
-            bestMove = getBestMove(gameState.board, 'black')
-          }
-          
-          if (bestMove) {
-            const capturedPiece = getBoardPiece(gameState.board, bestMove.to)
-            const isCapture = !!capturedPiece
-            
-            // Trigger AI attack animation if it's a capture
-            if (isCapture) {
-              await triggerAttackAnimation(bestMove.piece, bestMove.from, bestMove.to, true)
-            }
-            
-            const newBoard = makeMove(gameState.board, bestMove.from, bestMove.to)
-            const gameStatus = checkGameStatus(newBoard, 'white')
-            
-            setGameState(prev => ({
-              ...prev,
-              board: newBoard,
-              currentPlayer: 'white',
-              moves: [...prev.moves, bestMove],
-              isThinking: false,
-              gameStatus: gameStatus.status,
-              winner: gameStatus.winner,
-              kingInCheck: gameStatus.kingInCheck,
-              aiLogs: logs,
-              hintMove: null // Clear hint after AI moves
-            }))
-          } else {
-            // AI has no moves - this shouldn't happen if game status is correct
-            logs.push('AI has no valid moves available')
-            setGameState(prev => ({
-              ...prev,
-              isThinking: false,
-              aiLogs: logs
-            }))
+
+          const data: AIMoveResponse | null = result
+          if (data) {
+            // The route has already checked the move is legal
+            bestMove = parseUciMove(aiGame, `${data.move.from}${data.move.to}${data.move.promotion ?? ''}`)
+            addLog(`Move ${data.move.san} from ${describeMoveSource(data)} after ${data.attempts} AI attempt(s)`)
           }
-        } catch (error) {
+        } else {
+          const data = await response.json().catch(() => ({}))
+          ;(data.logs ?? []).forEach(addLog)
+          addLog('API request failed with status: ' + response.status)
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          addLog('Stopped waiting for the server-side AI')
+        } else {
           console.error('Error generating AI move:', error)
-          const errorLogs = [`Error generating AI move: ${error}`]
-          
-          // Fallback to local AI
-          const fallbackMove = getBestMove(gameState.board, 'black')
-          if (fallbackMove) {
-            const capturedPiece = getBoardPiece(gameState.board, fallbackMove.to)
-            const isCapture = !!capturedPiece
-            
-            // Trigger fallback AI attack animation if it's a capture
-            if (isCapture) {
-              await triggerAttackAnimation(fallbackMove.piece, fallbackMove.from, fallbackMove.to, true)
-            }
-            
-            const newBoard = makeMove(gameState.board, fallbackMove.from, fallbackMove.to)
-            const gameStatus = checkGameStatus(newBoard, 'white')
-            
-            errorLogs.push('Using fallback local AI due to error')
-            
-            setGameState(prev => ({
-              ...prev,
-              board: newBoard,
-              currentPlayer: 'white',
-              moves: [...prev.moves, fallbackMove],
-              isThinking: false,
-              gameStatus: gameStatus.status,
-              winner: gameStatus.winner,
-              kingInCheck: gameStatus.kingInCheck,
-              aiLogs: errorLogs,
-              hintMove: null // Clear hint after AI moves
-            }))
-          } else {
-            errorLogs.push('Fallback AI also failed - no valid moves')
-            setGameState(prev => ({
-              ...prev,
-              isThinking: false,
-              aiLogs: errorLogs
-            }))
-          }
+          addLog(`Error generating AI move: ${error}`)
         }
-      }, 1000) // 1 second delay for AI thinking
+      }
+
+      // A new game has started in the meantime
+      if (gameStateRef.current.moves !== moves) return
+
+      // Fallback to the local engine if server-side AI fails
+      if (!bestMove) {
+        addLog('Using fallback local engine')
+        const engineMove = await getEngineMove(moves, gameState.difficulty, aiThinkTimeMs(gameStateRef.current))
+        addLog(engineMove.log)
+        bestMove = engineMove.move
+        annotation = engineMove.annotation
+      }
+
+      if (!bestMove) {
+        // AI has no moves - this shouldn't happen if game status is correct
+        addLog('AI has no valid moves available')
+        setGameState(prev => prev.moves === moves ? { ...prev, isThinking: false } : prev)
+        return
+      }
+
+      // Trigger AI attack animation if it's a capture
+      if (bestMove.capturedPiece) {
+        await triggerAttackAnimation(bestMove.piece, bestMove.from, bestMove.to, true)
+      }
+
+      const aiMove = bestMove
+      applyMove(aiGame, aiMove)
+      const gameStatus = getGameStatus(aiGame)
+      const settledClock = settleClock(aiColor)
+
+      // A move that arrives after the AI's flag fell, or after the game was replaced, is not played
+      setGameState(prev => prev.isTimeExpired || prev.moves !== moves ? prev : ({
+        ...prev,
+        ...finishTurn(prev, aiColor, settledClock, annotation),
+        currentPlayer: prev.humanColor,
+        moves: [...prev.moves, aiMove],
+        isThinking: false,
+        gameStatus: gameStatus.status,
+        winner: gameStatus.winner,
+        kingInCheck: gameStatus.kingInCheck,
+        drawReason: gameStatus.drawReason,
+        claimableDraw: gameStatus.claimableDraw,
+        aiLogs: logs,
+        hint: null // Clear hint after AI moves
+      }))
+    }
+
+    playAIMove()
+  }, [aiColor, gameState.currentPlayer, gameState.isThinking, gameState.gameStatus, gameState.moves, gameState.claimableDraw, gameState.difficulty, gameState.animation.isAnimating, triggerAttackAnimation, getEngineMove, settleClock])
+
+  // Stop waiting for the server-side AI; the local engine moves instead
+  const stopAIRequest = () => aiRequestRef.current?.controller.abort()
 
-      return () => clearTimeout(timer)
+  // Save each finished game once it is over
+  useEffect(() => {
+    const isOver = isGameOverStatus(gameState.gameStatus) || gameState.isTimeExpired
+    if (!isOver || gameState.saveStatus !== 'unsaved' || gameState.moves.length === 0) return
+
+    const { pgn } = buildPGN(gameState, true)
+    const opening = classifyOpening(gameState.moves.map(move => move.san))
+    const gameResult: GameResult = {
+      pgn,
+      result: gameState.winner ?? 'draw',
+      moves: gameState.moves.map(move => move.san),
+      duration: Math.round((Date.now() - gameState.startedAt) / 1000),
+      date: new Date(gameState.startedAt).toISOString(),
+      playerColor: gameState.humanColor,
+      finalFen: fen,
+      difficulty: gameState.difficulty,
+      hintsUsed: gameState.hintsUsed,
+      eco: opening?.eco,
+      opening: opening?.name,
+      endReason: getGameEndReason(gameState.gameStatus, gameState.drawReason) ?? undefined
     }
-  }, [gameState.currentPlayer, gameState.isThinking, gameState.board, gameState.gameStatus, gameState.moves, gameState.animation.isAnimating, triggerAttackAnimation])
+    const startedAt = gameState.startedAt
+
+    setGameState(prev => ({ ...prev, saveStatus: 'saving' }))
+    fetch('/api/games', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(gameResult)
+    })
+      .then(async response => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+        return data.game as GameResult
+      })
+      .then(saved => {
+        // Ignore the answer if a new game has started meanwhile
+        setGameState(prev => prev.startedAt === startedAt
+          ? { ...prev, saveStatus: 'saved', savedGameId: saved.id ?? null }
+          : prev)
+      })
+      .catch(error => {
+        console.error('Error saving game:', error)
+        setGameState(prev => prev.startedAt === startedAt
+          ? { ...prev, saveStatus: 'failed', aiLogs: [...prev.aiLogs, `Could not save game: ${error.message}`] }
+          : prev)
+      })
+  }, [gameState, fen])
 
-  // Reset game
-  const resetGame = () => {
+  // Offer to resume the game left unfinished on this device; localStorage is only readable after mounting
+  useEffect(() => {
+    setResumeOffer(loadLocalGame())
+    setSaveSlot(getLocalSaveSlot())
+  }, [])
+
+  // Snapshot the game after every move, locally and in this device's save slot;
+  // once the game is over there is nothing left to resume
+  useEffect(() => {
+    const state = gameStateRef.current
+    if (state.moves.length === 0 || !saveSlot) return
+    setResumeOffer(null)
+
+    const isOver = isGameOverStatus(state.gameStatus) || state.isTimeExpired
+    const savedGame = toSavedGame(state)
+    const request = isOver
+      ? { method: 'DELETE' }
+      : { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(savedGame) }
+    if (isOver) {
+      clearLocalGame()
+    } else {
+      saveLocalGame(savedGame)
+    }
+
+    fetch(`/api/saved-games/${saveSlot}`, request)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      })
+      .catch(error => console.error('Error updating save slot:', error))
+  }, [gameState.moves, gameState.gameStatus, gameState.isTimeExpired, saveSlot])
+
+  // Pick up a saved game where it was left
+  const resumeGame = (saved: SavedGame) => {
+    stopAIRequest()
+    setReviewPly(null)
+    setIsAnalysisOpen(false)
+    const moves = getMoveHistory(replayGame(saved.moves))
+    const resumedGame = replayMoves(moves)
+    const gameStatus = getGameStatus(resumedGame)
+    const currentPlayer = toPieceColor(resumedGame.turn())
+
+    setResumeOffer(null)
+    setGameState(prev => ({
+      ...prev,
+      currentPlayer,
+      humanColor: saved.humanColor,
+      colorChoice: saved.colorChoice,
+      difficulty: saved.difficulty,
+      engineTimeMs: saved.engineTimeMs,
+      timeControlPreset: saved.timeControlPreset,
+      timeControl: saved.timeControl,
+      clocks: saved.clocks,
+      turnStartClock: saved.clocks[currentPlayer],
+      allowTakebacks: saved.allowTakebacks,
+      allowHints: saved.allowHints,
+      startedAt: saved.startedAt,
+      selectedSquare: null,
+      possibleMoves: [],
+      moves,
+      moveAnnotations: saved.moveAnnotations,
+      isThinking: currentPlayer !== saved.humanColor && !isGameOverStatus(gameStatus.status),
+      gameStatus: gameStatus.status,
+      winner: gameStatus.winner,
+      kingInCheck: gameStatus.kingInCheck,
+      drawReason: gameStatus.drawReason,
+      claimableDraw: gameStatus.claimableDraw,
+      aiLogs: [`Resumed game: ${describeSavedGame(saved)}`],
+      hint: null,
+      hintsUsed: saved.hintsUsed,
+      isGettingHint: false,
+      isTimeExpired: false,
+      pendingPromotion: null,
+      saveStatus: 'unsaved',
+      savedGameId: null,
+      positionStack: [],
+      timerKey: prev.timerKey + 1
+    }))
+    setAnimationFrame(0)
+  }
+
+  // Continue a game saved on another device, sharing its save code from now on
+  const continueFromSlot = (saved: SavedGame, slot: string) => {
+    setIsContinueDialogOpen(false)
+    setLocalSaveSlot(slot)
+    setSaveSlot(slot)
+    resumeGame(saved)
+  }
+
+  const discardResumeOffer = () => {
+    setResumeOffer(null)
+    clearLocalGame()
+  }
+
+  // Start a new game, playing the chosen colour
+  const startGame = (colorChoice: ColorChoice) => {
+    stopAIRequest()
+    const humanColor = resolveColorChoice(colorChoice)
+    setReviewPly(null)
+    setIsAnalysisOpen(false)
     setGameState({
-      board: initializeBoard(),
       currentPlayer: 'white',
+      humanColor,
+      colorChoice,
       selectedSquare: null,
       possibleMoves: [],
       gameStatus: 'playing',
       moves: [],
-      isThinking: false,
+      isThinking: humanColor === 'black', // The AI opens when the human plays black
       winner: null,
       kingInCheck: null,
+      drawReason: null,
+      claimableDraw: null,
       aiLogs: [],
-      hintMove: null,
+      hint: null,
+      hintsUsed: 0,
       isGettingHint: false,
       animation: {
         isAnimating: false,
@@ -948,90 +1071,94 @@ export default function ChessGame() {
         targetSquare: null,
         animationType: null
       },
-      speedChessMode: gameState.speedChessMode, // Preserve speed chess mode setting
-      playerTimeLeft: 60,
-      isTimeExpired: false
+      timeControlPreset: gameState.timeControlPreset, // Preserve clock settings
+      timeControl: gameState.timeControl,
+      clocks: gameState.timeControl ? startingClocks(gameState.timeControl) : { white: 0, black: 0 },
+      turnStartClock: gameState.timeControl?.baseSeconds ?? 0,
+      isTimeExpired: false,
+      pendingPromotion: null,
+      engineTimeMs: gameState.engineTimeMs, // Preserve engine think time setting
+      difficulty: gameState.difficulty, // Preserve difficulty setting
+      moveAnnotations: {},
+      startedAt: Date.now(),
+      saveStatus: 'unsaved',
+      savedGameId: null,
+      allowTakebacks: gameState.allowTakebacks, // Preserve takeback setting
+      allowHints: gameState.allowHints, // Preserve hint setting
+      positionStack: [],
+      timerKey: gameState.timerKey + 1
     })
     setAnimationFrame(0)
   }
 
-  // Render square
-  const renderSquare = (row: number, col: number) => {
-    const piece = getBoardPiece(gameState.board, { row, col })
-    const isLight = (row + col) % 2 === 0
-    const isSelected = gameState.selectedSquare && positionsEqual(gameState.selectedSquare, { row, col })
-    const isPossibleMove = gameState.possibleMoves.some(move => positionsEqual(move, { row, col }))
-    const isKingInCheck = piece && piece.type === 'king' && gameState.kingInCheck === piece.color
-    const isHintMove = gameState.hintMove && positionsEqual(gameState.hintMove, { row, col })
-    const isAttackingSquare = gameState.animation.attackingSquare && positionsEqual(gameState.animation.attackingSquare, { row, col })
-    const isTargetSquare = gameState.animation.targetSquare && positionsEqual(gameState.animation.targetSquare, { row, col })
-    
-    let squareClasses = `
-      w-16 h-16 flex items-center justify-center cursor-pointer text-5xl font-bold relative
-      transition-all duration-200 hover:brightness-110
-      ${isLight ? 'bg-amber-100' : 'bg-amber-800'}
-      ${isKingInCheck ? 'bg-red-400' : ''}
-      ${gameState.animation.isAnimating || gameState.isTimeExpired ? 'pointer-events-none' : ''}
-    `
-
-    // Enhanced border styling for better visibility on all 4 sides
-    if (isSelected) {
-      squareClasses += ' border-4 border-blue-500 shadow-lg shadow-blue-500/50'
-    } else if (isHintMove) {
-      squareClasses += ' border-4 border-purple-500 shadow-lg shadow-purple-500/50'
-    } else if (isPossibleMove) {
-      squareClasses += ' border-2 border-green-400 shadow-md shadow-green-400/30'
-    }
+  // Download the game so far as PGN
+  const downloadPGN = () => {
+    const { pgn, headers } = buildPGN(gameState, includePGNComments)
 
-    // Animation effects
-    if (isAttackingSquare && gameState.animation.isAnimating) {
-      squareClasses += ' animate-pulse ring-4 ring-yellow-400'
-    }
-    if (isTargetSquare && gameState.animation.isAnimating) {
-      squareClasses += ' animate-bounce ring-4 ring-red-500'
-    }
+    const url = URL.createObjectURL(new Blob([pgn], { type: 'application/x-chess-pgn' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `chess-${headers.Date.replace(/\./g, '-')}.pgn`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
 
-    return (
-      <div
-        key={`${row}-${col}`}
-        className={squareClasses}
-        onClick={() => handleSquareClick(row, col)}
-      >
-        {/* Render the chess piece or animation effect */}
-        {gameState.animation.isAnimating && isTargetSquare && gameState.animation.attackingPiece ? (
-          // Show attack animation on target square
-          <div className="absolute inset-0 flex items-center justify-center">
-            <span className="text-6xl animate-bounce z-20">
-              {attackAnimations[gameState.animation.attackingPiece][animationFrame] || '💥'}
-            </span>
-          </div>
-        ) : piece ? (
-          // Show regular piece
-          <span 
-            className={`
-              ${piece.color === 'white' 
-                ? 'text-white drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]' 
-                : 'text-black drop-shadow-[0_2px_2px_rgba(255,255,255,0.8)]'
-              }
-              ${isAttackingSquare && gameState.animation.isAnimating ? 'animate-pulse scale-110' : ''}
-            `}
-          >
-            {pieceSymbols[piece.color][piece.type]}
-          </span>
-        ) : null}
-        
-        {/* Show move indicator for empty squares */}
-        {isPossibleMove && !piece && !gameState.animation.isAnimating && (
-          <div className="w-4 h-4 bg-green-400 rounded-full opacity-70"></div>
-        )}
-      </div>
-    )
+  // Replay a loaded PGN game so it can be reviewed or continued
+  const loadPGNGame = (pgnGame: PGNGame) => {
+    stopAIRequest()
+    setReviewPly(null)
+    setIsAnalysisOpen(false)
+    const loadedGame = replayMoves(pgnGame.moves)
+    const gameStatus = getGameStatus(loadedGame)
+    const humanColor = findHumanColor(pgnGame.headers) ?? gameState.humanColor
+    const currentPlayer = toPieceColor(loadedGame.turn())
+    const difficulty = findDifficulty(humanColor === 'white' ? pgnGame.headers.Black : pgnGame.headers.White) ?? gameState.difficulty
+
+    setIsPGNDialogOpen(false)
+    setGameState(prev => ({
+      ...prev,
+      currentPlayer,
+      humanColor,
+      colorChoice: humanColor,
+      difficulty,
+      selectedSquare: null,
+      possibleMoves: [],
+      moves: pgnGame.moves,
+      moveAnnotations: pgnGame.annotations.reduce<Record<number, MoveAnnotation>>((annotations, annotation, index) => {
+        if (annotation) annotations[index] = annotation
+        return annotations
+      }, {}),
+      isThinking: currentPlayer !== humanColor && !isGameOverStatus(gameStatus.status),
+      gameStatus: gameStatus.status,
+      winner: gameStatus.winner,
+      kingInCheck: gameStatus.kingInCheck,
+      drawReason: gameStatus.drawReason,
+      claimableDraw: gameStatus.claimableDraw,
+      aiLogs: [`Loaded ${pgnGame.moves.length} moves from PGN (${pgnGame.headers.White} vs ${pgnGame.headers.Black}, ${pgnGame.headers.Result})`],
+      hint: null,
+      hintsUsed: 0,
+      isTimeExpired: false,
+      pendingPromotion: null,
+      clocks: prev.timeControl ? startingClocks(prev.timeControl) : prev.clocks,
+      turnStartClock: prev.timeControl?.baseSeconds ?? 0,
+      startedAt: Date.now(),
+      saveStatus: isGameOverStatus(gameStatus.status) ? 'skipped' : 'unsaved',
+      savedGameId: null,
+      positionStack: [],
+      timerKey: prev.timerKey + 1
+    }))
+    setAnimationFrame(0)
   }
 
+  // Reset game, keeping the colour choice
+  const resetGame = () => startGame(gameState.colorChoice)
+
   // Get game status message
   const getGameStatusMessage = () => {
     if (gameState.isTimeExpired) {
-      return { text: '⏰ Time Expired! AI Wins!', color: 'text-red-600' }
+      if (gameState.winner === gameState.humanColor) return { text: '⏰ AI Flagged! You Win on Time!', color: 'text-green-600' }
+      if (gameState.winner === aiColor) return { text: '⏰ Time Expired! AI Wins!', color: 'text-red-600' }
+      return { text: '⏰ Time Expired! Draw - no mating material left!', color: 'text-yellow-600' }
     }
 
     if (gameState.animation.isAnimating) {
@@ -1049,15 +1176,20 @@ export default function ChessGame() {
 
     switch (gameState.gameStatus) {
       case 'checkmate':
-        if (gameState.winner === 'white') {
+        if (gameState.winner === gameState.humanColor) {
           return { text: '🎉 You Win! Checkmate!', color: 'text-green-600' }
         } else {
           return { text: '💀 AI Wins! Checkmate!', color: 'text-red-600' }
         }
       case 'stalemate':
         return { text: '🤝 Draw! Stalemate!', color: 'text-yellow-600' }
+      case 'draw':
+        return { 
+          text: `🤝 Draw by ${gameState.drawReason ? drawReasonLabels[gameState.drawReason] : 'agreement'}!`, 
+          color: 'text-yellow-600' 
+        }
       case 'check':
-        if (gameState.kingInCheck === 'white') {
+        if (gameState.kingInCheck === gameState.humanColor) {
           return { text: '⚠️ Your King is in Check!', color: 'text-red-600' }
         } else {
           return { text: '⚡ AI King is in Check!', color: 'text-blue-600' }
@@ -1067,8 +1199,10 @@ export default function ChessGame() {
           return { text: '🤖 AI is thinking...', color: 'text-blue-600' }
         } else {
           return { 
-            text: gameState.currentPlayer === 'white' ? '⚪ Your turn' : '⚫ AI turn', 
-            color: gameState.currentPlayer === 'white' ? 'text-gray-800' : 'text-gray-600' 
+            text: gameState.currentPlayer === gameState.humanColor
+              ? `${gameState.humanColor === 'white' ? '⚪' : '⚫'} Your turn`
+              : `${aiColor === 'white' ? '⚪' : '⚫'} AI (${difficultyLevels[gameState.difficulty].label}) turn`, 
+            color: gameState.currentPlayer === gameState.humanColor ? 'text-gray-800' : 'text-gray-600' 
           }
         }
     }
@@ -1083,34 +1217,134 @@ export default function ChessGame() {
         <div className="flex justify-between items-center mb-4">
           <div className="flex items-center gap-4">
             <h2 className="text-xl font-bold text-gray-800">Chess Game</h2>
-            <button
-              onClick={toggleSpeedChessMode}
-              disabled={gameState.animation.isAnimating}
-              className={`
-                px-4 py-2 rounded-lg font-medium transition-all duration-200
-                ${gameState.speedChessMode 
-                  ? 'bg-red-500 text-white hover:bg-red-600' 
-                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                }
-                disabled:opacity-50 disabled:cursor-not-allowed
-              `}
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Clock
+              <select
+                value={gameState.timeControlPreset ?? 'untimed'}
+                onChange={(e) => selectTimeControl(e.target.value === 'untimed' ? null : e.target.value as TimeControlPreset)}
+                disabled={isGameInProgress}
+                className="px-2 py-1 rounded border border-gray-300 bg-white text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <option value="untimed">🐌 Untimed</option>
+                {(Object.keys(timeControlLabels) as TimeControlPreset[]).map(preset => (
+                  <option key={preset} value={preset}>⚡ {timeControlLabels[preset]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Play as
+              <select
+                value={gameState.colorChoice}
+                onChange={(e) => startGame(e.target.value as ColorChoice)}
+                disabled={gameState.isThinking || (gameState.moves.length > 0 && !isGameOverStatus(gameState.gameStatus))}
+                className="px-2 py-1 rounded border border-gray-300 bg-white text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {(Object.keys(colorChoiceLabels) as ColorChoice[]).map(choice => (
+                  <option key={choice} value={choice}>{colorChoiceLabels[choice]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Level
+              <select
+                value={gameState.difficulty}
+                onChange={(e) => setGameState(prev => ({ ...prev, difficulty: e.target.value as DifficultyLevel }))}
+                disabled={gameState.moves.length > 0 && !isGameOverStatus(gameState.gameStatus)}
+                title={difficultyLevels[gameState.difficulty].description}
+                className="px-2 py-1 rounded border border-gray-300 bg-white text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {(Object.keys(difficultyLevels) as DifficultyLevel[]).map(level => (
+                  <option key={level} value={level}>{difficultyLevels[level].label}</option>
+                ))}
+              </select>
+            </label>
+            <label
+              className="flex items-center gap-2 text-sm text-gray-600"
+              title="Turn off for rated or timed games"
             >
-              {gameState.speedChessMode ? '⚡ Speed Chess ON' : '🐌 Normal Chess'}
-            </button>
+              <input
+                type="checkbox"
+                checked={gameState.allowTakebacks}
+                onChange={(e) => setGameState(prev => ({ ...prev, allowTakebacks: e.target.checked }))}
+                disabled={gameState.moves.length > 0 && !isGameOverStatus(gameState.gameStatus)}
+              />
+              Takebacks
+            </label>
+            <label
+              className="flex items-center gap-2 text-sm text-gray-600"
+              title="Turn off for rated games"
+            >
+              <input
+                type="checkbox"
+                checked={gameState.allowHints}
+                onChange={(e) => setGameState(prev => ({ ...prev, allowHints: e.target.checked, hint: null }))}
+                disabled={gameState.moves.length > 0 && !isGameOverStatus(gameState.gameStatus)}
+              />
+              Hints
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Engine time
+              <select
+                value={gameState.engineTimeMs}
+                onChange={(e) => setGameState(prev => ({ ...prev, engineTimeMs: Number(e.target.value) }))}
+                className="px-2 py-1 rounded border border-gray-300 bg-white text-gray-700"
+              >
+                {engineTimeOptions.map(ms => (
+                  <option key={ms} value={ms}>{ms / 1000}s</option>
+                ))}
+              </select>
+            </label>
           </div>
           
-          {/* Speed Chess Timer */}
-          {gameState.speedChessMode && (
-            <Timer
-              initialTime={60}
-              isActive={gameState.currentPlayer === 'white' && !gameState.isTimeExpired && gameState.gameStatus === 'playing' && !gameState.animation.isAnimating}
-              onExpire={handleTimeExpire}
-              onReset={resetPlayerTimer}
-              className="ml-4"
-            />
-          )}
         </div>
 
+        {/* Opening */}
+        {opening && (
+          <div className="-mt-2 mb-4 text-sm text-gray-600" title="Opening recognised from the position, whatever the move order">
+            📖 <span className="font-mono font-semibold">{opening.eco}</span> {opening.name}
+          </div>
+        )}
+
+        {/* Custom Time Control */}
+        {gameState.timeControlPreset === 'custom' && gameState.timeControl && (
+          <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-600">
+            {customTimeFields.map(({ field, label, scale }) => (
+              <label key={field} className="flex items-center gap-2">
+                {label}
+                <input
+                  type="number"
+                  min={field === 'baseSeconds' ? 1 : 0}
+                  value={gameState.timeControl![field] / scale}
+                  onChange={(e) => {
+                    const value = Math.max(0, Number(e.target.value)) * scale
+                    if (field === 'baseSeconds' && value <= 0) return
+                    selectTimeControl('custom', { ...gameState.timeControl!, [field]: value })
+                  }}
+                  disabled={isGameInProgress}
+                  className="w-16 px-2 py-1 rounded border border-gray-300 bg-white text-gray-700 disabled:opacity-50"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+
+        {/* Chess Clocks */}
+        {gameState.timeControl && (
+          <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+            {[aiColor, gameState.humanColor].map(color => (
+              <Timer
+                key={`${gameState.timerKey}-${color}`}
+                ref={handle => { clockRefs.current[color] = handle }}
+                label={`${color === 'white' ? '⚪' : '⚫'} ${color === gameState.humanColor ? 'You' : 'AI'}`}
+                initialTime={gameState.timeControl!.baseSeconds}
+                startTime={gameState.clocks[color]}
+                isActive={isClockRunning(gameState, color)}
+                onExpire={() => handleFlagFall(color)}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Game Status */}
         <div className="flex justify-between items-center mb-6">
           <div className={`text-lg font-semibold ${statusMessage.color}`}>
@@ -1121,28 +1355,54 @@ export default function ChessGame() {
           </div>
           
           <div className="flex gap-2">
-            <button
-              onClick={getHint}
-              disabled={gameState.currentPlayer !== 'white' || 
-                       gameState.isThinking || 
-                       gameState.isGettingHint || 
-                       gameState.gameStatus === 'checkmate' || 
-                       gameState.gameStatus === 'stalemate' || 
-                       gameState.animation.isAnimating ||
-                       gameState.isTimeExpired}
-              className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
-            >
-              {gameState.isGettingHint ? (
-                <>
-                  <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
-                  Getting Hint...
-                </>
-              ) : (
-                <>
-                  💡 Hint
-                </>
-              )}
-            </button>
+            {gameState.allowHints && (
+              <button
+                onClick={getHint}
+                disabled={gameState.currentPlayer !== gameState.humanColor || 
+                         gameState.isThinking || 
+                         gameState.isGettingHint || 
+                         isGameOverStatus(gameState.gameStatus) || 
+                         gameState.animation.isAnimating ||
+                         gameState.isTimeExpired ||
+                         gameState.hint?.level === MAX_HINT_LEVEL}
+                title={`Hints used this game: ${gameState.hintsUsed}`}
+                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+              >
+                {gameState.isGettingHint ? (
+                  <>
+                    <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+                    Getting Hint...
+                  </>
+                ) : (
+                  <>
+                    💡 {gameState.hint ? `Hint ${Math.min(gameState.hint.level + 1, MAX_HINT_LEVEL)}/${MAX_HINT_LEVEL}` : 'Hint'}
+                    {gameState.hintsUsed > 0 && <span className="text-xs opacity-80">({gameState.hintsUsed} used)</span>}
+                  </>
+                )}
+              </button>
+            )}
+            {gameState.claimableDraw && !isGameOverStatus(gameState.gameStatus) && (
+              <button
+                onClick={claimDraw}
+                disabled={gameState.currentPlayer !== gameState.humanColor || 
+                         gameState.isThinking || 
+                         gameState.animation.isAnimating}
+                title={`Claim a draw by ${drawReasonLabels[gameState.claimableDraw]}`}
+                className="px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+              >
+                🤝 Claim Draw
+              </button>
+            )}
+            {gameState.allowTakebacks && (
+              <button
+                onClick={takeBack}
+                disabled={!canTakeBack(gameState)}
+                title="Take back your last move and the AI's reply"
+                className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+              >
+                ↩️ Undo
+              </button>
+            )}
             <button
               onClick={resetGame}
               disabled={gameState.animation.isAnimating}
@@ -1150,30 +1410,129 @@ export default function ChessGame() {
             >
               New Game
             </button>
+            <button
+              onClick={() => setIsPGNDialogOpen(true)}
+              disabled={gameState.isThinking || gameState.animation.isAnimating}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              📂 Load PGN
+            </button>
+            <button
+              onClick={() => setIsContinueDialogOpen(true)}
+              disabled={gameState.isThinking || gameState.animation.isAnimating}
+              title="Continue this game on another device, or one from another device here"
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              ☁️ Continue
+            </button>
           </div>
         </div>
 
-        {/* Speed Chess Info */}
-        {gameState.speedChessMode && (
+        {/* AI Reasoning */}
+        {(gameState.isThinking || gameState.aiLogs.length > 0) && (
+          <div className="mb-6 p-3 rounded-lg bg-slate-50 border border-slate-200 text-sm">
+            <div className="flex justify-between items-center mb-2">
+              <span className="font-semibold text-slate-700">
+                🧠 AI reasoning{gameState.isThinking && gameState.currentPlayer === aiColor && ' (live)'}
+              </span>
+              {gameState.isThinking && gameState.currentPlayer === aiColor && (
+                <button
+                  onClick={stopAIRequest}
+                  title="Stop waiting for the server and let the local engine move"
+                  className="px-3 py-1 text-xs bg-slate-200 text-slate-700 rounded-md hover:bg-slate-300 transition-colors"
+                >
+                  ⏹ Stop
+                </button>
+              )}
+            </div>
+            {aiCandidates.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 mb-2 text-xs">
+                <span className="text-slate-500">Candidates:</span>
+                {aiCandidates.map(candidate => (
+                  <span
+                    key={candidate.attempt}
+                    title={candidate.reason}
+                    className={`px-2 py-0.5 rounded font-mono ${candidate.accepted ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-700 line-through'}`}
+                  >
+                    {candidate.move || '—'}
+                  </span>
+                ))}
+              </div>
+            )}
+            <ul className="max-h-32 overflow-y-auto font-mono text-xs text-slate-600 space-y-0.5 break-all">
+              {gameState.aiLogs.map((line, index) => (
+                <li key={index}>{line}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Time Control Info */}
+        {gameState.timeControl && gameState.moves.length < 2 && !isGameOverStatus(gameState.gameStatus) && (
           <div className="mb-4 p-3 rounded-lg bg-gradient-to-r from-orange-50 to-red-50 border-2 border-orange-200">
             <div className="flex items-center gap-2 text-orange-800">
               <span className="text-lg">⚡</span>
               <div>
-                <div className="font-semibold">Speed Chess Mode Active</div>
-                <div className="text-sm">You have 1 minute total for all your moves. Timer runs only during your turn!</div>
+                <div className="font-semibold">Timed Game ({formatTimeControl(gameState.timeControl)})</div>
+                <div className="text-sm">Both clocks start once each side has made a move. Run out of time and you lose!</div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Resume Offer */}
+        {resumeOffer && (
+          <div className="mb-4 p-3 rounded-lg bg-gradient-to-r from-green-50 to-emerald-50 border-2 border-green-200">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-green-800">
+              <div className="flex items-center gap-2">
+                <span className="text-lg">♻️</span>
+                <div>
+                  <div className="font-semibold">Unfinished Game</div>
+                  <div className="text-sm">{describeSavedGame(resumeOffer)}</div>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => resumeGame(resumeOffer)}
+                  disabled={gameState.isThinking || gameState.animation.isAnimating}
+                  className="px-3 py-1 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  Resume
+                </button>
+                <button
+                  onClick={discardResumeOffer}
+                  className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Claimable Draw Info */}
+        {gameState.claimableDraw && !isGameOverStatus(gameState.gameStatus) && (
+          <div className="mb-4 p-3 rounded-lg bg-gradient-to-r from-yellow-50 to-amber-50 border-2 border-yellow-200">
+            <div className="flex items-center gap-2 text-yellow-800">
+              <span className="text-lg">🤝</span>
+              <div>
+                <div className="font-semibold">Draw Available</div>
+                <div className="text-sm">
+                  A draw can be claimed by {drawReasonLabels[gameState.claimableDraw]}. Claim it on your turn or play on!
+                </div>
               </div>
             </div>
           </div>
         )}
 
         {/* Game Over Notification */}
-        {(gameState.gameStatus === 'checkmate' || gameState.gameStatus === 'stalemate' || gameState.isTimeExpired) && !gameState.animation.isAnimating && (
+        {(isGameOverStatus(gameState.gameStatus) || gameState.isTimeExpired) && !gameState.animation.isAnimating && (
           <div className="mb-6 p-4 rounded-lg bg-gradient-to-r from-blue-50 to-purple-50 border-2 border-blue-200">
             <div className="text-center">
               <div className="text-2xl mb-2">
                 {gameState.isTimeExpired ? '⏰' :
                  gameState.gameStatus === 'checkmate' ? 
-                  (gameState.winner === 'white' ? '🏆' : '👑') : 
+                  (gameState.winner === gameState.humanColor ? '🏆' : '👑') : 
                   '🤝'
                 }
               </div>
@@ -1181,93 +1540,252 @@ export default function ChessGame() {
                 Game Over!
               </div>
               <div className="text-gray-600">
-                {gameState.isTimeExpired && 
-                  "Time expired! You ran out of time in speed chess mode."
+                {gameState.isTimeExpired && gameState.winner === aiColor &&
+                  "Time expired! You ran out of time."
+                }
+                {gameState.isTimeExpired && gameState.winner === gameState.humanColor &&
+                  "The AI ran out of time. You win on time!"
                 }
-                {gameState.gameStatus === 'checkmate' && gameState.winner === 'white' && 
+                {gameState.gameStatus === 'checkmate' && gameState.winner === gameState.humanColor && !gameState.isTimeExpired &&
                   "Congratulations! You defeated the AI!"
                 }
-                {gameState.gameStatus === 'checkmate' && gameState.winner === 'black' && !gameState.isTimeExpired &&
+                {gameState.gameStatus === 'checkmate' && gameState.winner === aiColor && !gameState.isTimeExpired &&
                   "The AI has defeated you. Better luck next time!"
                 }
                 {gameState.gameStatus === 'stalemate' && 
                   "The game ends in a draw. No legal moves available!"
                 }
+                {gameState.gameStatus === 'draw' && gameState.drawReason &&
+                  `The game ends in a draw by ${drawReasonLabels[gameState.drawReason]}.`
+                }
+              </div>
+              <div className="text-sm text-gray-500 mt-1">
+                AI level: {difficultyLevels[gameState.difficulty].label}
+                {gameState.allowHints ? ` · Hints used: ${gameState.hintsUsed}` : ' · No hints'}
+              </div>
+              {saveStatusLabels[gameState.saveStatus] && (
+                <div className="text-xs text-gray-500 mt-1">
+                  {saveStatusLabels[gameState.saveStatus]}
+                  {gameState.savedGameId && (
+                    <>
+                      {' - '}
+                      <Link href={`/games/${gameState.savedGameId}`} className="text-blue-600 hover:text-blue-800">
+                        View replay
+                      </Link>
+                    </>
+                  )}
+                </div>
+              )}
+              <div className="mt-3 flex justify-center gap-3">
+                <button
+                  onClick={resetGame}
+                  className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-semibold"
+                >
+                  Play Again
+                </button>
+                {gameState.moves.length > 0 && (
+                  <button
+                    onClick={() => setIsAnalysisOpen(true)}
+                    disabled={isAnalysisOpen}
+                    className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors font-semibold"
+                  >
+                    🔍 Analyze game
+                  </button>
+                )}
               </div>
-              <button
-                onClick={resetGame}
-                className="mt-3 px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-semibold"
-              >
-                Play Again
-              </button>
             </div>
           </div>
         )}
 
-        {/* Chess Board */}
-        <div className="flex justify-center mb-6">
-          <div className="border-4 border-amber-900 rounded-lg overflow-hidden">
-            <div className="grid grid-cols-8 gap-0">
-              {Array.from({ length: 8 }, (_, row) =>
-                Array.from({ length: 8 }, (_, col) => renderSquare(row, col))
-              )}
-            </div>
+        {/* Review Mode */}
+        {viewPly !== null && (
+          <div className="flex flex-wrap justify-center items-center gap-3 mb-4 p-3 rounded-lg bg-blue-50 border border-blue-200 text-blue-800">
+            <span>
+              Reviewing {viewPly === 0
+                ? 'the starting position'
+                : `after ${Math.ceil(viewPly / 2)}${viewPly % 2 === 1 ? '.' : '...'} ${gameState.moves[viewPly - 1].san}`}
+            </span>
+            <button
+              onClick={() => setReviewPly(null)}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Back to game
+            </button>
           </div>
+        )}
+
+        {/* Chess Board with Evaluation Bar */}
+        <div className="flex justify-center gap-3 mb-6">
+          <EvalBar evaluation={evaluationAt(shownPly)} orientation={gameState.humanColor} />
+          {reviewGame ? (
+            <ChessBoard
+              board={getBoard(reviewGame)}
+              orientation={gameState.humanColor}
+              lastMove={viewPly > 0 ? gameState.moves[viewPly - 1] : null}
+              kingInCheck={reviewGame.inCheck() ? toPieceColor(reviewGame.turn()) : null}
+            />
+          ) : (
+            <ChessBoard
+              board={board}
+              orientation={gameState.humanColor}
+              selectedSquare={gameState.selectedSquare}
+              possibleMoves={gameState.possibleMoves}
+              hintMove={gameState.hint && (gameState.hint.level === 1 ? gameState.hint.move.from : gameState.hint.move.to)}
+              kingInCheck={gameState.kingInCheck}
+              animation={gameState.animation}
+              animationFrame={animationFrame}
+              disabled={gameState.isTimeExpired}
+              onSquareClick={handleSquareClick}
+            />
+          )}
         </div>
 
+        {/* Promotion Picker */}
+        {gameState.pendingPromotion && (
+          <div className="flex justify-center mb-6">
+            <div className="p-4 rounded-lg bg-gradient-to-r from-amber-50 to-yellow-50 border-2 border-amber-300 shadow-lg">
+              <div className="text-center font-semibold text-amber-900 mb-3">
+                Promote your pawn to:
+              </div>
+              <div className="flex gap-2">
+                {promotionPieces.map(type => (
+                  <button
+                    key={type}
+                    onClick={() => handlePromotionChoice(type)}
+                    className="w-16 h-16 text-5xl bg-amber-100 hover:bg-amber-200 rounded-lg border-2 border-amber-400 transition-colors"
+                    title={type.charAt(0).toUpperCase() + type.slice(1)}
+                  >
+                    <span className={gameState.humanColor === 'white'
+                      ? 'text-white drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]'
+                      : 'text-black drop-shadow-[0_2px_2px_rgba(255,255,255,0.8)]'}>
+                      {pieceSymbols[gameState.humanColor][type]}
+                    </span>
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={cancelPromotion}
+                className="mt-3 w-full px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 rounded-md transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Move History */}
         {gameState.moves.length > 0 && (
           <div className="mt-6">
-            <h3 className="text-lg font-semibold mb-3">Move History</h3>
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-lg font-semibold">Move History</h3>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-1 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={includePGNComments}
+                    onChange={(e) => setIncludePGNComments(e.target.checked)}
+                  />
+                  Clock/eval comments
+                </label>
+                <button
+                  onClick={downloadPGN}
+                  className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                  ⬇️ Download PGN
+                </button>
+              </div>
+            </div>
             <div className="bg-gray-50 rounded-lg p-4 max-h-32 overflow-y-auto">
               <div className="text-sm space-y-1">
                 {gameState.moves.map((move, index) => (
                   <div key={index} className="flex items-center">
                     <span className="w-8 text-gray-500">{Math.floor(index / 2) + 1}.</span>
-                    <span className="font-mono">
-                      {pieceSymbols[move.piece.color][move.piece.type]}
-                      {String.fromCharCode(97 + move.from.col)}{8 - move.from.row}
-                      {move.capturedPiece ? 'x' : '-'}
-                      {String.fromCharCode(97 + move.to.col)}{8 - move.to.row}
+                    <button
+                      onClick={() => setReviewPly(index + 1)}
+                      className={`font-mono px-1 rounded text-left ${index + 1 === shownPly ? 'bg-blue-100' : 'hover:bg-gray-200'}`}
+                    >
+                      {toFigurineSAN(move.san, move.piece.color)}
                       {move.capturedPiece && ` (${pieceSymbols[move.capturedPiece.color][move.capturedPiece.type]})`}
-                    </span>
+                      {move.isEnPassant && ' e.p.'}
+                    </button>
                   </div>
                 ))}
               </div>
             </div>
+
+            {/* Evaluation Graph */}
+            <div className="mt-3">
+              <EvalGraph evaluations={evaluations} selectedPly={shownPly} onSelectPly={setReviewPly} />
+            </div>
           </div>
         )}
 
+        {/* Post-game Analysis */}
+        {isAnalysisOpen && isGameOverStatus(gameState.gameStatus) && (
+          <GameAnalysisPanel
+            moves={gameState.moves}
+            humanColor={gameState.humanColor}
+            onSelectPly={setReviewPly}
+            onClose={() => setIsAnalysisOpen(false)}
+          />
+        )}
+
         {/* Instructions */}
         <div className="mt-6 text-sm text-gray-600">
           <p><strong>How to play:</strong></p>
           <ul className="list-disc list-inside space-y-1 mt-2">
-            <li>Click on your pieces (white) to select them</li>
+            <li>Choose to play white, black or a random colour before the game starts</li>
+            <li>Click on your pieces ({gameState.humanColor}) to select them</li>
             <li>Green borders show possible moves</li>
             <li>Click on a highlighted square to move</li>
+            <li>Castle by moving your king two squares; pawns reaching the last rank let you pick a promotion</li>
             <li>Red squares indicate a king in check</li>
-            <li>Purple borders highlight show AI hint suggestions</li>
+            <li>Hint shows which piece to move, then its target square (purple), then the full move with its idea and the expected reply; turn off Hints for a rated game</li>
             <li>Watch epic attack animations when pieces capture!</li>
-            <li>The AI will automatically respond with black pieces</li>
+            <li>The AI will automatically respond with {aiColor} pieces</li>
+            <li>Use Undo to take back your last move and the AI&apos;s reply, or turn off Takebacks for a rated game</li>
+            <li>The bar beside the board shows who is better; click a move or the evaluation graph to review an earlier position</li>
+            <li>When the game ends, use Analyze game to find your inaccuracies, mistakes and blunders</li>
             <li>Win by checkmating the AI's king!</li>
-            {gameState.speedChessMode && (
+            {gameState.timeControl && (
               <>
-                <li><strong>Speed Chess:</strong> You have only 1 minute total for all moves!</li>
-                <li>Timer counts down only during your turn and pauses when AI is thinking</li>
-                <li>Game ends immediately if timer reaches zero!</li>
+                <li><strong>Timed game ({formatTimeControl(gameState.timeControl)}):</strong> each side&apos;s clock runs on its own turn, and the AI plans its thinking time from its clock</li>
+                {gameState.timeControl.incrementSeconds > 0 && (
+                  <li>Every move adds {gameState.timeControl.incrementSeconds}s to the mover&apos;s clock</li>
+                )}
+                {gameState.timeControl.delaySeconds > 0 && (
+                  <li>Up to {gameState.timeControl.delaySeconds}s of each move&apos;s thinking time is given back</li>
+                )}
+                <li>Running out of time loses, unless your opponent has too little material to checkmate</li>
               </>
             )}
           </ul>
         </div>
       </div>
 
+      <PGNDialog
+        isOpen={isPGNDialogOpen}
+        onLoad={loadPGNGame}
+        onClose={() => setIsPGNDialogOpen(false)}
+      />
+
+      <ContinueDialog
+        isOpen={isContinueDialogOpen}
+        saveSlot={saveSlot}
+        onContinue={continueFromSlot}
+        onClose={() => setIsContinueDialogOpen(false)}
+      />
+
       {/* Fixed AI Hint Message - positioned at bottom */}
-      {gameState.hintMove && !gameState.animation.isAnimating && (
+      {gameState.hint && !gameState.animation.isAnimating && (
         <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 z-50 max-w-md w-full mx-4">
           <div className="p-3 rounded-lg bg-purple-100 border-2 border-purple-300 shadow-lg">
             <div className="text-purple-800 font-medium text-center">
-              💡 AI Suggestion: The purple highlight shows the recommended move!
+              💡 Hint {gameState.hint.level}/{MAX_HINT_LEVEL}: {describeHint(gameState.hint)}
             </div>
+            {gameState.hint.level < MAX_HINT_LEVEL && (
+              <div className="text-purple-600 text-xs text-center mt-1">Click Hint again for more help</div>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,93 @@
+'use client'
+
+import React, { useState } from 'react'
+import { SavedGame, isSaveSlot } from '@/lib/savedGame'
+
+interface ContinueDialogProps {
+  isOpen: boolean
+  saveSlot: string | null // this device's save code
+  onContinue: (game: SavedGame, slot: string) => void
+  onClose: () => void
+}
+
+export default function ContinueDialog({ isOpen, saveSlot, onContinue, onClose }: ContinueDialogProps) {
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  if (!isOpen) return null
+
+  // Fetch the game saved under a code from another device
+  const handleContinue = async () => {
+    const slot = code.trim().toLowerCase()
+    if (!isSaveSlot(slot)) {
+      setError('Save codes look like "k3j9-x8a2"')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/saved-games/${slot}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+      setCode('')
+      onContinue(data.game, slot)
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    setError(null)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl">
+        <h3 className="text-lg font-semibold text-gray-800 mb-3">Continue on Another Device</h3>
+        {saveSlot && (
+          <p className="text-sm text-gray-600 mb-4">
+            Your game is saved after every move under the code{' '}
+            <span className="font-mono font-semibold text-gray-800">{saveSlot}</span>.
+            Enter it on another device to pick up where you left off.
+          </p>
+        )}
+        <label className="block text-sm text-gray-600 mb-1" htmlFor="save-code">
+          Continue a game from another device
+        </label>
+        <input
+          id="save-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleContinue()}
+          placeholder="k3j9-x8a2"
+          className="w-full rounded border border-gray-300 p-2 font-mono text-sm text-gray-800"
+        />
+        {error && (
+          <div className="mt-2 text-sm text-red-600">
+            Could not continue: {error}
+          </div>
+        )}
+        <div className="mt-4 flex justify-end gap-2">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleContinue}
+            disabled={!code.trim() || isLoading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {isLoading ? 'Loading...' : 'Continue Game'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
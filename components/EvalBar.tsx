@@ -0,0 +1,39 @@
+'use client'
+
+import { PieceColor } from '@/lib/chess'
+import { PositionEval, describeEval, formatEval, whiteBarShare } from '@/lib/evaluation'
+
+interface EvalBarProps {
+  evaluation: PositionEval | null // null while the first search runs
+  orientation: PieceColor // side shown at the bottom of the board
+}
+
+// Vertical bar beside the board: White's share of the evaluation grows from White's side
+export default function EvalBar({ evaluation, orientation }: EvalBarProps) {
+  const whiteShare = evaluation ? whiteBarShare(evaluation) : 0.5
+  const whiteAhead = !evaluation || evaluation.score >= 0
+  const label = evaluation ? formatEval(evaluation) : '…'
+
+  return (
+    <div
+      className={`relative w-7 self-stretch rounded-md overflow-hidden bg-gray-800 border border-gray-400 flex ${
+        orientation === 'white' ? 'flex-col-reverse' : 'flex-col'
+      }`}
+      title={evaluation ? describeEval(evaluation) : 'Evaluating…'}
+    >
+      <div
+        className="bg-gray-100 transition-all duration-500"
+        style={{ height: `${whiteShare * 100}%` }}
+      />
+
+      {/* The score sits at the leading side's end of the bar */}
+      <span
+        className={`absolute inset-x-0 text-center text-[10px] font-bold font-mono ${
+          whiteAhead ? 'text-gray-800' : 'text-gray-100'
+        } ${whiteAhead === (orientation === 'white') ? 'bottom-1' : 'top-1'}`}
+      >
+        {label}
+      </span>
+    </div>
+  )
+}
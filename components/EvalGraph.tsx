@@ -0,0 +1,63 @@
+'use client'
+
+import React from 'react'
+import { PositionEval, EVAL_DISPLAY_LIMIT, displayScore, formatEval } from '@/lib/evaluation'
+
+interface EvalGraphProps {
+  evaluations: (PositionEval | null)[] // one per position, starting position first; null while pending
+  selectedPly: number // position on the board
+  onSelectPly: (ply: number) => void
+}
+
+const WIDTH = 300
+const HEIGHT = 80
+
+// White's advantage over the game, drawn as the white area above the bottom edge;
+// click anywhere to jump to that position
+export default function EvalGraph({ evaluations, selectedPly, onSelectPly }: EvalGraphProps) {
+  const lastPly = evaluations.length - 1
+  const x = (ply: number) => (lastPly > 0 ? (ply / lastPly) * WIDTH : WIDTH / 2)
+  const y = (evaluation: PositionEval) => HEIGHT / 2 - (displayScore(evaluation) / EVAL_DISPLAY_LIMIT) * (HEIGHT / 2)
+
+  // Pending positions are skipped; the line joins the evaluations either side
+  const points = evaluations.flatMap((evaluation, ply) => (evaluation ? [`${x(ply)},${y(evaluation)}`] : []))
+  const evaluatedPlies = evaluations.flatMap((evaluation, ply) => (evaluation ? [ply] : []))
+  const area = points.length > 1
+    ? `${x(evaluatedPlies[0])},${HEIGHT} ${points.join(' ')} ${x(evaluatedPlies[evaluatedPlies.length - 1])},${HEIGHT}`
+    : null
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const fraction = (event.clientX - rect.left) / rect.width
+    onSelectPly(Math.max(0, Math.min(lastPly, Math.round(fraction * lastPly))))
+  }
+
+  const selected = evaluations[selectedPly]
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-20 rounded-md bg-gray-700 cursor-pointer"
+        onClick={handleClick}
+        role="img"
+        aria-label="Evaluation graph"
+      >
+        {area && <polygon points={area} className="fill-gray-100" />}
+        {points.length > 1 && (
+          <polyline points={points.join(' ')} fill="none" className="stroke-amber-500" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        )}
+        <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} className="stroke-gray-400" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+        <line x1={x(selectedPly)} y1={0} x2={x(selectedPly)} y2={HEIGHT} className="stroke-blue-500" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between mt-1 text-xs text-gray-500">
+        <span>Click the graph to review a position</span>
+        <span>
+          {selectedPly === 0 ? 'Start' : `Move ${Math.ceil(selectedPly / 2)}${selectedPly % 2 === 1 ? '.' : '...'}`}
+          {': '}{selected ? formatEval(selected) : 'evaluating…'}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Move, PieceColor, oppositeColor } from '@/lib/chess'
+import { AnalyzedMove, countClassifications, moveClassifications } from '@/lib/analysis'
+import { formatEval } from '@/lib/evaluation'
+import { useGameAnalysis } from '@/hooks/useGameAnalysis'
+
+interface GameAnalysisPanelProps {
+  moves: Move[]
+  humanColor: PieceColor
+  onSelectPly: (ply: number) => void // show the position after this many moves
+  onClose: () => void
+}
+
+type Explanation = { status: 'loading' } | { status: 'done'; text: string } | { status: 'failed' }
+
+// Errors worth a better line and an explanation
+const isError = (move: AnalyzedMove) =>
+  move.classification === 'inaccuracy' || move.classification === 'mistake' || move.classification === 'blunder'
+
+// Engine review of a finished game: accuracy for both sides and each of the human's
+// moves classified, with the better line for every error
+export default function GameAnalysisPanel({ moves, humanColor, onSelectPly, onClose }: GameAnalysisPanelProps) {
+  const { analysis, progress, analyze, reset } = useGameAnalysis()
+  const [explanations, setExplanations] = useState<Record<number, Explanation>>({})
+
+  // Analyse on opening, and stop if the panel closes first
+  useEffect(() => {
+    setExplanations({})
+    analyze(moves)
+    return () => reset()
+  }, [moves, analyze, reset])
+
+  // Ask Cosmic AI why a move was an error
+  const explain = async (move: AnalyzedMove) => {
+    setExplanations(prev => ({ ...prev, [move.ply]: { status: 'loading' } }))
+    try {
+      const response = await fetch('/api/explain-move', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fen: move.fenBefore,
+          move: move.san,
+          bestLine: move.bestLine,
+          classification: move.classification
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error ?? `status ${response.status}`)
+      setExplanations(prev => ({ ...prev, [move.ply]: { status: 'done', text: data.explanation } }))
+    } catch (error) {
+      console.error('Error explaining move:', error)
+      setExplanations(prev => ({ ...prev, [move.ply]: { status: 'failed' } }))
+    }
+  }
+
+  const sides = [
+    { color: humanColor, label: 'You' },
+    { color: oppositeColor(humanColor), label: 'AI' }
+  ]
+
+  return (
+    <div className="mt-6 p-4 rounded-lg bg-white border-2 border-indigo-200 shadow">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold">🔍 Game Analysis</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-800" title="Close analysis">
+          ✕
+        </button>
+      </div>
+
+      {progress !== null && (
+        <div>
+          <div className="text-sm text-gray-600 mb-1">
+            Analysing position {progress} of {moves.length + 1}…
+          </div>
+          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-indigo-500 transition-all"
+              style={{ width: `${(progress / (moves.length + 1)) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {analysis && (
+        <>
+          {/* Accuracy */}
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            {sides.map(({ color, label }) => {
+              const counts = countClassifications(analysis, color)
+              return (
+                <div key={color} className="p-3 rounded-lg bg-gray-50 text-center">
+                  <div className="text-sm text-gray-600">{label} ({color})</div>
+                  <div className="text-2xl font-bold">{analysis.accuracy[color].toFixed(1)}%</div>
+                  <div className="text-xs text-gray-500">accuracy</div>
+                  <div className="mt-2 text-xs space-x-2">
+                    {(['inaccuracy', 'mistake', 'blunder'] as const).map(kind => (
+                      <span key={kind} className={moveClassifications[kind].color}>
+                        {counts[kind]} {moveClassifications[kind].label.toLowerCase()}{counts[kind] === 1 ? '' : 's'}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          {/* Your Moves */}
+          <div className="max-h-96 overflow-y-auto space-y-1 text-sm">
+            {analysis.moves.filter(move => move.color === humanColor).map(move => {
+              const { label, symbol, color } = moveClassifications[move.classification]
+              const explanation = explanations[move.ply]
+              return (
+                <div key={move.ply} className={`p-2 rounded ${isError(move) ? 'bg-gray-50' : ''}`}>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => onSelectPly(move.ply)}
+                      className="font-mono hover:underline"
+                      title="Show the position before this move"
+                    >
+                      {Math.floor(move.ply / 2) + 1}{move.color === 'white' ? '.' : '...'} {move.san}
+                    </button>
+                    <span className={`font-semibold ${color}`}>{symbol} {label}</span>
+                    <span className="ml-auto text-xs text-gray-500 font-mono">
+                      {formatEval(move.evalBefore)} → {formatEval(move.evalAfter)}
+                    </span>
+                  </div>
+
+                  {isError(move) && move.bestLine.length > 0 && (
+                    <div className="mt-1 ml-4 text-gray-700">
+                      Better: <span className="font-mono">{move.bestLine.slice(0, 6).join(' ')}</span>
+                      {!explanation && (
+                        <button
+                          onClick={() => explain(move)}
+                          className="ml-2 text-xs text-indigo-600 hover:text-indigo-800"
+                        >
+                          💬 Explain
+                        </button>
+                      )}
+                      {explanation?.status === 'loading' && <div className="text-xs text-gray-500 mt-1">Asking Cosmic AI…</div>}
+                      {explanation?.status === 'done' && <div className="text-xs text-gray-700 mt-1 italic">{explanation.text}</div>}
+                      {explanation?.status === 'failed' && (
+                        <div className="text-xs text-red-600 mt-1">
+                          No explanation available.{' '}
+                          <button onClick={() => explain(move)} className="underline">Retry</button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import ChessBoard from './ChessBoard'
+import { GameResult } from '@/types'
+import { difficultyLevels } from '@/lib/difficulty'
+import { replayGame, getBoard, getMoveHistory, toFigurineSAN, toPieceColor } from '@/lib/chess'
+import { formatDuration, describeOutcome } from '@/lib/gameSummary'
+
+interface GameReplayProps {
+  game: GameResult
+}
+
+// Step through a saved game on a read-only board
+export default function GameReplay({ game }: GameReplayProps) {
+  const moves = useMemo(() => getMoveHistory(replayGame(game.moves)), [game.moves])
+  const [ply, setPly] = useState(moves.length) // moves shown on the board; starts at the final position
+
+  const position = useMemo(() => replayGame(moves.slice(0, ply).map(move => move.san)), [moves, ply])
+  const board = useMemo(() => getBoard(position), [position])
+  const lastMove = ply > 0 ? moves[ply - 1] : null
+
+  const goTo = useCallback((target: number) => {
+    setPly(Math.max(0, Math.min(moves.length, target)))
+  }, [moves.length])
+
+  // Arrow keys step through the game, Home/End jump to either end
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return
+
+      const targets: Record<string, number> = {
+        ArrowLeft: ply - 1,
+        ArrowRight: ply + 1,
+        Home: 0,
+        End: moves.length
+      }
+      if (!(event.key in targets)) return
+      event.preventDefault()
+      goTo(targets[event.key])
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [ply, moves.length, goTo])
+
+  const controls = [
+    { label: '⏮', title: 'First move (Home)', target: 0 },
+    { label: '◀', title: 'Previous move (←)', target: ply - 1 },
+    { label: '▶', title: 'Next move (→)', target: ply + 1 },
+    { label: '⏭', title: 'Last move (End)', target: moves.length }
+  ]
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white rounded-xl shadow-lg p-6">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-6 text-sm text-gray-600">
+        <span>{new Date(game.date).toLocaleString()}</span>
+        <span className="font-semibold text-gray-800">
+          {describeOutcome(game)}{game.endReason === 'timeout' && ' on time'} as {game.playerColor}
+          {game.difficulty && ` vs ${difficultyLevels[game.difficulty].label} AI`}
+          {game.opening && ` · ${game.eco ? `${game.eco} ` : ''}${game.opening}`}
+        </span>
+        <span>
+          Duration: {formatDuration(game.duration)}
+          {game.hintsUsed !== undefined && ` · Hints used: ${game.hintsUsed}`}
+        </span>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6 items-start justify-center">
+        <div>
+          <ChessBoard
+            board={board}
+            orientation={game.playerColor}
+            lastMove={lastMove}
+            kingInCheck={position.inCheck() ? toPieceColor(position.turn()) : null}
+          />
+
+          <div className="flex justify-center gap-2 mt-4">
+            {controls.map(({ label, title, target }) => (
+              <button
+                key={title}
+                onClick={() => goTo(target)}
+                disabled={target < 0 || target > moves.length || target === ply}
+                title={title}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="text-center text-sm text-gray-500 mt-2">
+            {ply === 0 ? 'Starting position' : `After ${Math.ceil(ply / 2)}${ply % 2 === 1 ? '.' : '...'} ${lastMove?.san}`}
+            {' '}({ply}/{moves.length})
+          </div>
+        </div>
+
+        {/* Move List */}
+        <div className="w-full lg:w-64">
+          <h3 className="text-lg font-semibold mb-3">Moves</h3>
+          <div className="bg-gray-50 rounded-lg p-4 max-h-96 overflow-y-auto">
+            <div className="grid grid-cols-[2rem_1fr_1fr] gap-x-2 gap-y-1 text-sm">
+              {moves.map((move, index) => (
+                <div key={index} className="contents">
+                  {index % 2 === 0 && <span className="text-gray-500">{index / 2 + 1}.</span>}
+                  <button
+                    onClick={() => goTo(index + 1)}
+                    className={`text-left font-mono px-1 rounded ${
+                      index + 1 === ply ? 'bg-blue-600 text-white' : 'hover:bg-gray-200'
+                    }`}
+                  >
+                    {toFigurineSAN(move.san, move.piece.color)}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">Use ← → to step through moves, Home/End to jump.</p>
+        </div>
+      </div>
+    </div>
+  )
+}
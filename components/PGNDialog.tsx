@@ -0,0 +1,85 @@
+'use client'
+
+import React, { useState } from 'react'
+import { PGNGame, parsePGN } from '@/lib/pgn'
+
+interface PGNDialogProps {
+  isOpen: boolean
+  onLoad: (game: PGNGame) => void
+  onClose: () => void
+}
+
+export default function PGNDialog({ isOpen, onLoad, onClose }: PGNDialogProps) {
+  const [pgnText, setPgnText] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  if (!isOpen) return null
+
+  // Read a .pgn file into the text area
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    setPgnText(await file.text())
+    setError(null)
+  }
+
+  const handleLoad = () => {
+    try {
+      const game = parsePGN(pgnText)
+      setPgnText('')
+      setError(null)
+      onLoad(game)
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError))
+    }
+  }
+
+  const handleClose = () => {
+    setError(null)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-lg rounded-lg bg-white p-6 shadow-xl">
+        <h3 className="text-lg font-semibold text-gray-800 mb-3">Load PGN</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Paste a game or choose a .pgn file. The moves are replayed so you can review the game or continue it against the AI.
+        </p>
+        <input
+          type="file"
+          accept=".pgn,text/plain"
+          onChange={handleFileChange}
+          className="mb-3 block w-full text-sm text-gray-600"
+        />
+        <textarea
+          value={pgnText}
+          onChange={(e) => setPgnText(e.target.value)}
+          rows={10}
+          placeholder={'[Event "Casual game"]\n\n1. e4 e5 2. Nf3 Nc6 *'}
+          className="w-full rounded border border-gray-300 p-2 font-mono text-sm text-gray-800"
+        />
+        {error && (
+          <div className="mt-2 text-sm text-red-600">
+            Could not load PGN: {error}
+          </div>
+        )}
+        <div className="mt-4 flex justify-end gap-2">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleLoad}
+            disabled={!pgnText.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            Load Game
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
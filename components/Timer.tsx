@@ -3,42 +3,49 @@
 import React from 'react'
 import { useTimer } from '@/hooks/useTimer'
 
+// Imperative controls for the parent, e.g. charging a move to the clock
+export interface TimerHandle {
+  getTimeLeft: () => number // exact seconds left
+  addTime: (seconds: number) => void
+  reset: (newTime?: number) => void
+}
+
 interface TimerProps {
   initialTime: number // in seconds
+  startTime?: number // time left on mount, e.g. when restored by a takeback
   isActive: boolean
   onExpire: () => void
   onReset?: () => void
+  label?: string // whose clock this is
   className?: string
 }
 
-export default function Timer({ 
+const Timer = React.forwardRef<TimerHandle, TimerProps>(function Timer({ 
   initialTime, 
+  startTime,
   isActive, 
   onExpire, 
   onReset,
+  label,
   className = '' 
-}: TimerProps) {
-  const { timeLeft, isRunning, isExpired, formattedTime, start, pause, reset } = useTimer({
+}, ref) {
+  const { timeLeft, isRunning, isExpired, formattedTime, start, pause, reset, addTime, getTimeLeft } = useTimer({
     initialTime,
+    startTime,
     onExpire,
     autoStart: false
   })
 
+  React.useImperativeHandle(ref, () => ({ getTimeLeft, addTime, reset }), [getTimeLeft, addTime, reset])
+
   // Control timer based on isActive prop
   React.useEffect(() => {
-    if (isActive && !isExpired && timeLeft > 0) {
+    if (isActive && !isExpired) {
       start()
     } else {
       pause()
     }
-  }, [isActive, isExpired, timeLeft, start, pause])
-
-  // Handle reset from parent component
-  React.useEffect(() => {
-    if (onReset && timeLeft === initialTime && !isRunning) {
-      // Timer has been reset externally
-    }
-  }, [timeLeft, initialTime, isRunning, onReset])
+  }, [isActive, isExpired, start, pause])
 
   // Get timer color based on remaining time
   const getTimerColor = () => {
@@ -66,6 +73,8 @@ export default function Timer({
 
   return (
     <div className={`flex items-center gap-3 ${className}`}>
+      {label && <span className="text-sm font-medium text-gray-700">{label}</span>}
+
       {/* Timer Display */}
       <div className={`
         px-4 py-2 rounded-lg border-2 font-mono text-lg font-bold
@@ -104,13 +113,17 @@ export default function Timer({
       </div>
 
       {/* Reset Button */}
-      <button
-        onClick={handleReset}
-        className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 rounded-md transition-colors"
-        title="Reset Timer"
-      >
-        🔄
-      </button>
+      {onReset && (
+        <button
+          onClick={handleReset}
+          className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 rounded-md transition-colors"
+          title="Reset Timer"
+        >
+          🔄
+        </button>
+      )}
     </div>
   )
-}
\ No newline at end of file
+})
+
+export default Timer
@@ -0,0 +1,109 @@
+import { useEffect, useCallback, useRef } from 'react'
+import { searchPosition, SearchInfo, SearchResult } from '@/lib/engine/search'
+import { playEngineMove, EngineMoveResult } from '@/lib/engine/play'
+import { DifficultyLevel } from '@/lib/difficulty'
+import type { EngineRequest, EngineResponse } from '@/lib/engine/worker'
+
+export interface EngineSearchOptions {
+  moves?: string[] // UCI moves played from fen, so the engine can see repetitions
+  timeLimitMs?: number
+  maxDepth?: number
+  onInfo?: (info: SearchInfo) => void
+}
+
+interface PendingSearch {
+  resolve: (result: SearchResult) => void
+  reject: (error: Error) => void
+  onInfo?: (info: SearchInfo) => void
+}
+
+// Runs the local search engine in a Web Worker so the board stays responsive
+export const useEngine = () => {
+  const workerRef = useRef<Worker | null>(null)
+  const pendingRef = useRef<Map<number, PendingSearch>>(new Map())
+  const nextIdRef = useRef(0)
+
+  const createWorker = useCallback(() => {
+    if (typeof Worker === 'undefined') return null
+
+    const worker = new Worker(new URL('../lib/engine/worker.ts', import.meta.url))
+    worker.onmessage = (event: MessageEvent<EngineResponse>) => {
+      const message = event.data
+      const pending = pendingRef.current.get(message.id)
+      if (!pending) return
+
+      if (message.type === 'info') {
+        pending.onInfo?.(message.info)
+      } else if (message.type === 'result') {
+        pendingRef.current.delete(message.id)
+        pending.resolve(message.result)
+      } else {
+        pendingRef.current.delete(message.id)
+        pending.reject(new Error(message.error))
+      }
+    }
+    return worker
+  }, [])
+
+  // Start the worker on mount and shut it down on unmount
+  useEffect(() => {
+    const pending = pendingRef.current
+    workerRef.current = createWorker()
+
+    return () => {
+      workerRef.current?.terminate()
+      workerRef.current = null
+      pending.forEach(search => search.reject(new Error('Engine stopped')))
+      pending.clear()
+    }
+  }, [createWorker])
+
+  const run = useCallback((request: Omit<EngineRequest, 'id'>, onInfo?: (info: SearchInfo) => void): Promise<SearchResult> => {
+    const worker = workerRef.current
+
+    // Without worker support, search on the main thread
+    if (!worker) {
+      const { fen, moves, timeLimitMs, maxDepth, difficulty } = request
+      return new Promise((resolve, reject) => {
+        setTimeout(() => {
+          try {
+            resolve(difficulty
+              ? playEngineMove(fen, moves, difficulty, { timeLimitMs, onInfo })
+              : searchPosition(fen, moves, { timeLimitMs, maxDepth, onInfo }))
+          } catch (error) {
+            reject(error)
+          }
+        }, 0)
+      })
+    }
+
+    const id = nextIdRef.current++
+    return new Promise((resolve, reject) => {
+      pendingRef.current.set(id, { resolve, reject, onInfo })
+      worker.postMessage({ ...request, id })
+    })
+  }, [])
+
+  // Plain full-strength search
+  const search = useCallback((fen: string, options: EngineSearchOptions = {}): Promise<SearchResult> => {
+    const { moves, timeLimitMs, maxDepth, onInfo } = options
+    return run({ fen, moves, timeLimitMs, maxDepth }, onInfo)
+  }, [run])
+
+  // Choose the AI's move at a difficulty level, deliberate mistakes included
+  const play = useCallback((fen: string, difficulty: DifficultyLevel, options: Omit<EngineSearchOptions, 'maxDepth'> = {}): Promise<EngineMoveResult> => {
+    const { moves, timeLimitMs, onInfo } = options
+    return run({ fen, moves, timeLimitMs, difficulty }, onInfo) as Promise<EngineMoveResult>
+  }, [run])
+
+  // Abort any running search; the worker cannot be interrupted, so replace it
+  const stop = useCallback(() => {
+    if (pendingRef.current.size === 0) return
+    workerRef.current?.terminate()
+    pendingRef.current.forEach(search => search.reject(new Error('Engine stopped')))
+    pendingRef.current.clear()
+    workerRef.current = createWorker()
+  }, [createWorker])
+
+  return { search, play, stop }
+}
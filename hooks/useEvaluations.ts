@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useEngine } from '@/hooks/useEngine'
+import { Move, PieceColor, STARTING_FEN, getFEN, replayGame, toUciMove } from '@/lib/chess'
+import { PositionEval, fromTablebaseResult, toPositionEval } from '@/lib/evaluation'
+import { TABLEBASE_MAX_PIECES, TablebaseResult } from '@/lib/engine/tablebase'
+
+// Search time for each position; short, as every position of the game gets one
+const ANALYSIS_TIME_MS = 400
+
+// The exact result from the server's endgame tablebase, or null when it has none for the position
+const fetchTablebaseEval = async (fen: string, sideToMove: PieceColor): Promise<PositionEval | null> => {
+  const pieces = fen.split(' ')[0].replace(/[^a-z]/gi, '').length
+  if (pieces > TABLEBASE_MAX_PIECES) return null
+  try {
+    const response = await fetch(`/api/tablebase?fen=${encodeURIComponent(fen)}`)
+    if (!response.ok) return null
+    const { tablebase }: { tablebase: TablebaseResult } = await response.json()
+    return fromTablebaseResult(tablebase, sideToMove)
+  } catch {
+    return null
+  }
+}
+
+// Evaluates every position of a game on its own engine worker: the position in focus
+// first, then the rest from the latest back to the start. Endgames the server's tablebase
+// covers get its exact result instead. Results are cached by move sequence, so takebacks
+// and review reuse them.
+export const useEvaluations = (moves: Move[], focusPly: number, paused: boolean) => {
+  const { search, stop } = useEngine()
+  const [cache, setCache] = useState<Record<string, PositionEval>>({})
+  const [live, setLive] = useState<{ key: string; evaluation: PositionEval } | null>(null) // search in progress
+
+  // Cache key for the position after each ply, 0 being the starting position
+  const keys = useMemo(() => {
+    const uciMoves = moves.map(toUciMove)
+    return Array.from({ length: uciMoves.length + 1 }, (_, ply) => uciMoves.slice(0, ply).join(' '))
+  }, [moves])
+
+  useEffect(() => {
+    if (paused) return
+
+    const order = [focusPly, ...keys.map((_, index) => keys.length - 1 - index)]
+    const ply = order.find(candidate => keys[candidate] !== undefined && !(keys[candidate] in cache))
+    if (ply === undefined) return
+
+    let cancelled = false
+    const key = keys[ply]
+    const sideToMove: PieceColor = ply % 2 === 0 ? 'white' : 'black'
+    // Null when a newer position took over while waiting for the tablebase
+    const evaluate = async (): Promise<PositionEval | null> => {
+      const fen = getFEN(replayGame(moves.slice(0, ply).map(move => move.san)))
+      const tablebase = await fetchTablebaseEval(fen, sideToMove)
+      if (tablebase || cancelled) return tablebase
+      const result = await search(STARTING_FEN, {
+        moves: key ? key.split(' ') : [],
+        timeLimitMs: ANALYSIS_TIME_MS,
+        onInfo: info => {
+          if (!cancelled) setLive({ key, evaluation: toPositionEval(info, sideToMove) })
+        }
+      })
+      return toPositionEval(result, sideToMove)
+    }
+    evaluate()
+      .then(evaluation => {
+        if (evaluation && !cancelled) setCache(prev => ({ ...prev, [key]: evaluation }))
+      })
+      .catch(error => {
+        if (!cancelled) console.error('Error evaluating position:', error)
+      })
+
+    // A newer position or a pause takes over from this search
+    return () => {
+      cancelled = true
+      stop()
+    }
+  }, [keys, moves, focusPly, cache, paused, search, stop])
+
+  // Finished evaluation of the position after `ply`, or the best so far while searching
+  const evaluationAt = useCallback((ply: number): PositionEval | null => {
+    const key = keys[ply]
+    if (key === undefined) return null
+    return cache[key] ?? (live?.key === key ? live.evaluation : null)
+  }, [keys, cache, live])
+
+  // Finished evaluations for every position, null where still pending
+  const evaluations = useMemo(() => keys.map(key => cache[key] ?? null), [keys, cache])
+
+  return { evaluations, evaluationAt }
+}
@@ -0,0 +1,49 @@
+import { useState, useCallback, useRef } from 'react'
+import { useEngine } from '@/hooks/useEngine'
+import { Move, STARTING_FEN, toUciMove } from '@/lib/chess'
+import { GameAnalysis, analyzeGame } from '@/lib/analysis'
+import { SearchResult } from '@/lib/engine/search'
+
+// Search time for each position of the game
+const ANALYSIS_TIME_MS = 300
+
+// Runs the local engine over every position of a finished game, one at a time
+export const useGameAnalysis = () => {
+  const { search, stop } = useEngine()
+  const [analysis, setAnalysis] = useState<GameAnalysis | null>(null)
+  const [progress, setProgress] = useState<number | null>(null) // positions searched, null when idle
+  const runRef = useRef(0) // bumped to abandon a running analysis
+
+  const analyze = useCallback(async (moves: Move[]) => {
+    const run = ++runRef.current
+    stop()
+    setAnalysis(null)
+    setProgress(0)
+
+    const uciMoves = moves.map(toUciMove)
+    const searches: SearchResult[] = []
+    try {
+      for (let ply = 0; ply <= moves.length; ply++) {
+        const result = await search(STARTING_FEN, { moves: uciMoves.slice(0, ply), timeLimitMs: ANALYSIS_TIME_MS })
+        if (run !== runRef.current) return
+        searches.push(result)
+        setProgress(ply + 1)
+      }
+      setAnalysis(analyzeGame(moves, searches))
+    } catch (error) {
+      if (run === runRef.current) console.error('Error analysing game:', error)
+    } finally {
+      if (run === runRef.current) setProgress(null)
+    }
+  }, [search, stop])
+
+  // Abandon any running analysis and forget the last one
+  const reset = useCallback(() => {
+    runRef.current++
+    stop()
+    setAnalysis(null)
+    setProgress(null)
+  }, [stop])
+
+  return { analysis, progress, analyze, reset }
+}
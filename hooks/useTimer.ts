@@ -8,82 +8,127 @@ export interface TimerState {
 
 export interface UseTimerOptions {
   initialTime: number // in seconds
+  startTime?: number // time left when the timer starts, if some has already been used
   onExpire?: () => void
   autoStart?: boolean
 }
 
-export const useTimer = ({ initialTime, onExpire, autoStart = false }: UseTimerOptions) => {
-  const [timeLeft, setTimeLeft] = useState(initialTime)
-  const [isRunning, setIsRunning] = useState(autoStart)
-  const [isExpired, setIsExpired] = useState(false)
-  const intervalRef = useRef<NodeJS.Timeout | null>(null)
+// Below this many seconds the display shows tenths
+const TENTHS_THRESHOLD = 10
+
+// Monotonic milliseconds, unaffected by changes to the system clock
+const now = (): number => (typeof performance !== 'undefined' ? performance.now() : Date.now())
+
+// Countdown driven by timestamps rather than by counting interval ticks, so it keeps
+// millisecond precision and stays correct when a background tab throttles its timers
+export const useTimer = ({ initialTime, startTime, onExpire, autoStart = false }: UseTimerOptions) => {
+  // Time left when the clock last started or changed, and when it started (null while paused)
+  const baseMsRef = useRef((startTime ?? initialTime) * 1000)
+  const startedAtRef = useRef<number | null>(null)
   const onExpireRef = useRef(onExpire)
 
+  const [timeLeftMs, setTimeLeftMs] = useState(baseMsRef.current)
+  const [isRunning, setIsRunning] = useState(false)
+  const [isExpired, setIsExpired] = useState(false)
+
   // Keep the onExpire callback up to date
   useEffect(() => {
     onExpireRef.current = onExpire
   }, [onExpire])
 
-  // Timer logic
-  useEffect(() => {
-    if (isRunning && timeLeft > 0) {
-      intervalRef.current = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            setIsRunning(false)
-            setIsExpired(true)
-            if (onExpireRef.current) {
-              onExpireRef.current()
-            }
-            return 0
-          }
-          return prev - 1
-        })
-      }, 1000)
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-        intervalRef.current = null
-      }
+  const readMs = useCallback((): number => {
+    if (startedAtRef.current === null) return baseMsRef.current
+    return Math.max(0, baseMsRef.current - (now() - startedAtRef.current))
+  }, [])
+
+  // Bring the display up to date and flag the timer once it reaches zero
+  const refresh = useCallback(() => {
+    const ms = readMs()
+    setTimeLeftMs(ms)
+    if (ms <= 0 && startedAtRef.current !== null) {
+      baseMsRef.current = 0
+      startedAtRef.current = null
+      setIsRunning(false)
+      setIsExpired(true)
+      onExpireRef.current?.()
     }
+  }, [readMs])
+
+  const showsTenths = timeLeftMs < TENTHS_THRESHOLD * 1000
+
+  // Redraw while running, often enough for tenths near the end. Intervals are throttled in
+  // background tabs, so catch up as soon as the tab is visible again.
+  useEffect(() => {
+    if (!isRunning) return
+
+    refresh()
+    const interval = setInterval(refresh, showsTenths ? 100 : 250)
+    document.addEventListener('visibilitychange', refresh)
 
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-      }
+      clearInterval(interval)
+      document.removeEventListener('visibilitychange', refresh)
     }
-  }, [isRunning, timeLeft])
+  }, [isRunning, showsTenths, refresh])
 
   const start = useCallback(() => {
-    if (timeLeft > 0 && !isExpired) {
-      setIsRunning(true)
-    }
-  }, [timeLeft, isExpired])
+    if (startedAtRef.current !== null || baseMsRef.current <= 0) return
+    startedAtRef.current = now()
+    setIsRunning(true)
+  }, [])
 
   const pause = useCallback(() => {
+    if (startedAtRef.current === null) return
+    baseMsRef.current = readMs()
+    startedAtRef.current = null
+    setTimeLeftMs(baseMsRef.current)
     setIsRunning(false)
-  }, [])
+  }, [readMs])
 
   const reset = useCallback((newTime?: number) => {
-    const resetTime = newTime ?? initialTime
-    setTimeLeft(resetTime)
+    baseMsRef.current = (newTime ?? initialTime) * 1000
+    startedAtRef.current = null
+    setTimeLeftMs(baseMsRef.current)
     setIsRunning(false)
     setIsExpired(false)
   }, [initialTime])
 
-  const stop = useCallback(() => {
-    setIsRunning(false)
-    setTimeLeft(initialTime)
-    setIsExpired(false)
-  }, [initialTime])
+  const stop = useCallback(() => reset(initialTime), [reset, initialTime])
 
-  // Format time as MM:SS
+  // Add (or with a negative value remove) time, e.g. an increment after a move
+  const addTime = useCallback((seconds: number) => {
+    if (baseMsRef.current <= 0 && startedAtRef.current === null) return // an expired clock stays expired
+    baseMsRef.current = Math.max(0, readMs() + seconds * 1000)
+    if (startedAtRef.current !== null) startedAtRef.current = now()
+    setTimeLeftMs(baseMsRef.current)
+  }, [readMs])
+
+  // Exact time left in seconds, for charging a move the moment it is made
+  const getTimeLeft = useCallback((): number => {
+    refresh()
+    return readMs() / 1000
+  }, [refresh, readMs])
+
+  // Start straight away if asked to
+  useEffect(() => {
+    if (autoStart) start()
+  }, [autoStart, start])
+
+  // Format time as MM:SS, H:MM:SS for long games, or MM:SS.t in the last ten seconds
   const formatTime = useCallback((seconds: number): string => {
-    const minutes = Math.floor(seconds / 60)
-    const remainingSeconds = seconds % 60
-    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`
+    const pad = (value: number) => value.toString().padStart(2, '0')
+    if (seconds < TENTHS_THRESHOLD) {
+      const tenths = Math.floor(seconds * 10)
+      return `00:${pad(Math.floor(tenths / 10))}.${tenths % 10}`
+    }
+    const wholeSeconds = Math.floor(seconds)
+    const hours = Math.floor(wholeSeconds / 3600)
+    const minutes = Math.floor(wholeSeconds / 60) % 60
+    const clock = `${pad(minutes)}:${pad(wholeSeconds % 60)}`
+    return hours > 0 ? `${hours}:${clock}` : clock
   }, [])
 
+  const timeLeft = timeLeftMs / 1000
   const formattedTime = formatTime(timeLeft)
 
   return {
@@ -94,6 +139,8 @@ export const useTimer = ({ initialTime, onExpire, autoStart = false }: UseTimerO
     start,
     pause,
     reset,
-    stop
+    stop,
+    addTime,
+    getTimeLeft
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,113 @@
+import { Chess } from 'chess.js'
+import { Move, PieceColor, applyMove, parseUciMove, replayGame, toUciMove, getFEN } from '@/lib/chess'
+import { PositionEval, toPositionEval } from '@/lib/evaluation'
+import type { SearchResult } from '@/lib/engine/search'
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder'
+
+// One move of an analysed game
+export interface AnalyzedMove {
+  ply: number // index into the game's moves
+  san: string
+  color: PieceColor
+  fenBefore: string
+  evalBefore: PositionEval // with best play from the position before the move
+  evalAfter: PositionEval // after the move that was played
+  winChanceLoss: number // mover's winning chances given away, in percentage points
+  classification: MoveClassification
+  bestLine: string[] // engine's line (SAN) from the position before the move
+}
+
+export interface GameAnalysis {
+  moves: AnalyzedMove[]
+  accuracy: Record<PieceColor, number> // 0-100
+}
+
+export const moveClassifications: Record<MoveClassification, { label: string; symbol: string; color: string }> = {
+  best: { label: 'Best', symbol: '★', color: 'text-green-700' },
+  good: { label: 'Good', symbol: '✓', color: 'text-green-600' },
+  inaccuracy: { label: 'Inaccuracy', symbol: '?!', color: 'text-yellow-600' },
+  mistake: { label: 'Mistake', symbol: '?', color: 'text-orange-600' },
+  blunder: { label: 'Blunder', symbol: '??', color: 'text-red-600' }
+}
+
+export const isMoveClassification = (value: unknown): value is MoveClassification =>
+  typeof value === 'string' && Object.keys(moveClassifications).includes(value)
+
+// Percentage points of winning chances a move may give away before it counts as an error
+const INACCURACY_LOSS = 10
+const MISTAKE_LOSS = 20
+const BLUNDER_LOSS = 30
+
+// Winning chances (0-100) for `color`; the same centipawn loss matters less once a game
+// is already won or lost, so moves are judged on this rather than raw centipawns
+export const winChance = (evaluation: PositionEval, color: PieceColor): number => {
+  const white = evaluation.mate !== null
+    ? (evaluation.score > 0 ? 100 : 0)
+    : 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * evaluation.score)) - 1)
+  return color === 'white' ? white : 100 - white
+}
+
+export const classifyMove = (winChanceLoss: number, playedBestMove: boolean): MoveClassification => {
+  if (playedBestMove) return 'best'
+  if (winChanceLoss >= BLUNDER_LOSS) return 'blunder'
+  if (winChanceLoss >= MISTAKE_LOSS) return 'mistake'
+  if (winChanceLoss >= INACCURACY_LOSS) return 'inaccuracy'
+  return 'good'
+}
+
+// Accuracy of a single move from the winning chances it gave away: 100 for no loss,
+// falling off quickly for larger ones
+const moveAccuracy = (winChanceLoss: number): number =>
+  Math.max(0, Math.min(100, 103.1668 * Math.exp(-0.04354 * winChanceLoss) - 3.1669))
+
+// A UCI line as SAN, stopping at the first move that does not fit the position
+const toSANLine = (game: Chess, uciMoves: string[]): string[] => {
+  const line: string[] = []
+  for (const uci of uciMoves) {
+    const move = parseUciMove(game, uci)
+    if (!move || !applyMove(game, move)) break
+    line.push(move.san)
+  }
+  return line
+}
+
+// Judge every move from engine searches of each position: searches[i] is the position
+// after i moves, so there is one more search than there are moves
+export const analyzeGame = (moves: Move[], searches: SearchResult[]): GameAnalysis => {
+  const analyzed: AnalyzedMove[] = moves.map((move, ply) => {
+    const color: PieceColor = ply % 2 === 0 ? 'white' : 'black'
+    const before = searches[ply]
+    const evalBefore = toPositionEval(before, color)
+    const evalAfter = toPositionEval(searches[ply + 1], color === 'white' ? 'black' : 'white')
+    const winChanceLoss = Math.max(0, winChance(evalBefore, color) - winChance(evalAfter, color))
+    const position = replayGame(moves.slice(0, ply).map(previous => previous.san))
+
+    return {
+      ply,
+      san: move.san,
+      color,
+      fenBefore: getFEN(position),
+      evalBefore,
+      evalAfter,
+      winChanceLoss,
+      classification: classifyMove(winChanceLoss, before.bestMove === toUciMove(move)),
+      bestLine: toSANLine(position, before.pv)
+    }
+  })
+
+  const accuracyFor = (color: PieceColor): number => {
+    const own = analyzed.filter(move => move.color === color)
+    if (own.length === 0) return 100
+    return own.reduce((total, move) => total + moveAccuracy(move.winChanceLoss), 0) / own.length
+  }
+
+  return { moves: analyzed, accuracy: { white: accuracyFor('white'), black: accuracyFor('black') } }
+}
+
+// Number of each kind of error a side made
+export const countClassifications = (analysis: GameAnalysis, color: PieceColor): Record<MoveClassification, number> => {
+  const counts: Record<MoveClassification, number> = { best: 0, good: 0, inaccuracy: 0, mistake: 0, blunder: 0 }
+  analysis.moves.filter(move => move.color === color).forEach(move => { counts[move.classification]++ })
+  return counts
+}
@@ -0,0 +1,549 @@
+import { Chess, DEFAULT_POSITION, Move as ChessJsMove, Color, PieceSymbol, Square, validateFen } from 'chess.js'
+import type { GameStatus } from '@/types'
+
+// Chess piece types and colors
+export type PieceType = 'king' | 'queen' | 'rook' | 'bishop' | 'knight' | 'pawn'
+export type PieceColor = 'white' | 'black'
+
+// Chess piece interface
+export interface ChessPiece {
+  type: PieceType
+  color: PieceColor
+}
+
+// Square position interface (row 0 is rank 8, col 0 is the a-file)
+export interface Position {
+  row: number
+  col: number
+}
+
+// Move interface
+export interface Move {
+  from: Position
+  to: Position
+  piece: ChessPiece
+  capturedPiece?: ChessPiece
+  promotion?: PieceType
+  castling?: 'kingside' | 'queenside'
+  isEnPassant?: boolean
+  san: string
+}
+
+export type Board = (ChessPiece | null)[][]
+
+// Why a game was (or can be) drawn
+export type DrawReason =
+  | 'threefold-repetition'
+  | 'fivefold-repetition'
+  | 'fifty-move-rule'
+  | 'seventy-five-move-rule'
+  | 'insufficient-material'
+  | 'timeout-vs-insufficient-material' // flag fell but the opponent cannot mate
+
+// How a finished game ended: the status that ended it, or the draw's reason
+export type GameEndReason = 'checkmate' | 'stalemate' | 'timeout' | DrawReason
+
+const gameEndReasons: GameEndReason[] = [
+  'checkmate', 'stalemate', 'timeout', 'threefold-repetition', 'fivefold-repetition',
+  'fifty-move-rule', 'seventy-five-move-rule', 'insufficient-material', 'timeout-vs-insufficient-material'
+]
+
+export const isGameEndReason = (value: unknown): value is GameEndReason =>
+  gameEndReasons.some(reason => reason === value)
+
+// Draws the side to move may claim but which do not end the game by themselves
+export type ClaimableDraw = 'threefold-repetition' | 'fifty-move-rule'
+
+// Result of checking the position for the side to move
+export interface GameStatusResult {
+  status: 'playing' | 'check' | 'checkmate' | 'stalemate' | 'draw'
+  winner: PieceColor | null
+  kingInCheck: PieceColor | null
+  drawReason: DrawReason | null
+  claimableDraw: ClaimableDraw | null
+}
+
+// All six fields of a FEN string
+export interface FENDetails {
+  placement: string
+  turn: PieceColor
+  castling: Record<PieceColor, { kingside: boolean; queenside: boolean }>
+  enPassant: Square | null
+  halfmoveClock: number
+  fullmoveNumber: number
+}
+
+export const STARTING_FEN = DEFAULT_POSITION
+
+// Chess piece values for evaluation
+export const pieceValues: Record<PieceType, number> = {
+  pawn: 1,
+  knight: 3,
+  bishop: 3,
+  rook: 5,
+  queen: 9,
+  king: 100
+}
+
+// Pieces a pawn may promote to, strongest first
+export const promotionPieces: PieceType[] = ['queen', 'rook', 'bishop', 'knight']
+
+const pieceTypes: Record<PieceSymbol, PieceType> = {
+  p: 'pawn',
+  n: 'knight',
+  b: 'bishop',
+  r: 'rook',
+  q: 'queen',
+  k: 'king'
+}
+
+const pieceSymbols: Record<PieceType, PieceSymbol> = {
+  pawn: 'p',
+  knight: 'n',
+  bishop: 'b',
+  rook: 'r',
+  queen: 'q',
+  king: 'k'
+}
+
+export const toPieceColor = (color: Color): PieceColor => (color === 'w' ? 'white' : 'black')
+
+export const toColorCode = (color: PieceColor): Color => (color === 'white' ? 'w' : 'b')
+
+export const oppositeColor = (color: PieceColor): PieceColor => (color === 'white' ? 'black' : 'white')
+
+// Letter used for a piece in algebraic notation ("N" for knight)
+export const pieceLetter = (type: PieceType): string => pieceSymbols[type].toUpperCase()
+
+// Check if position is within board bounds
+export const isValidPosition = (pos: Position): boolean => {
+  return pos.row >= 0 && pos.row < 8 && pos.col >= 0 && pos.col < 8
+}
+
+// Check if positions are equal
+export const positionsEqual = (pos1: Position, pos2: Position): boolean => {
+  return pos1.row === pos2.row && pos1.col === pos2.col
+}
+
+// Position to square name ("e4")
+export const positionToSquare = (pos: Position): Square => {
+  return (String.fromCharCode(97 + pos.col) + (8 - pos.row)) as Square
+}
+
+// Square name to position
+export const squareToPosition = (square: string): Position => {
+  return { row: 8 - parseInt(square[1], 10), col: square.charCodeAt(0) - 97 }
+}
+
+// Create a game from a FEN string (starting position by default)
+export const createGame = (fen: string = STARTING_FEN): Chess => {
+  return new Chess(fen)
+}
+
+// Rebuild a game by replaying its SAN move list, so castling rights,
+// en passant and both clocks come from the real history
+export const replayGame = (history: string[], startFen: string = STARTING_FEN): Chess => {
+  const game = createGame(startFen)
+  for (const san of history) {
+    game.move(san)
+  }
+  return game
+}
+
+// Full FEN for the current position. The en passant target is recorded after
+// every double pawn push, as the FEN standard requires, even when no capture is possible
+export const getFEN = (game: Chess): string => {
+  const fields = game.fen({ forceEnpassantSquare: true }).split(' ')
+  const [lastMove] = game.history({ verbose: true }).slice(-1)
+
+  if (lastMove?.isBigPawn()) {
+    fields[3] = lastMove.from[0] + (lastMove.color === 'w' ? '3' : '6')
+  }
+
+  return fields.join(' ')
+}
+
+// Identity of a position for lookups, whatever move order reached it: placement, side to
+// move, castling rights and an en passant square only when a capture there is legal
+export const positionKey = (game: Chess): string => game.fen().split(' ').slice(0, 4).join(' ')
+
+// Parse and validate all six FEN fields; throws with the reason if the FEN is invalid
+export const parseFEN = (fen: string): FENDetails => {
+  const trimmed = fen.trim()
+  const validation = validateFen(trimmed)
+  if (!validation.ok) {
+    throw new Error(validation.error)
+  }
+
+  const [placement, turn, castling, enPassant, halfmoveClock, fullmoveNumber] = trimmed.split(/\s+/)
+
+  return {
+    placement,
+    turn: turn === 'w' ? 'white' : 'black',
+    castling: {
+      white: { kingside: castling.includes('K'), queenside: castling.includes('Q') },
+      black: { kingside: castling.includes('k'), queenside: castling.includes('q') }
+    },
+    enPassant: enPassant === '-' ? null : (enPassant as Square),
+    halfmoveClock: parseInt(halfmoveClock, 10),
+    fullmoveNumber: parseInt(fullmoveNumber, 10)
+  }
+}
+
+// Describe the non-board FEN fields in plain words
+export const describeFEN = (details: FENDetails): string[] => {
+  const castlingFor = (color: PieceColor) => {
+    const { kingside, queenside } = details.castling[color]
+    const sides = [kingside && 'O-O', queenside && 'O-O-O'].filter(Boolean)
+    return sides.length > 0 ? sides.join(', ') : 'none'
+  }
+
+  return [
+    `Castling rights: White ${castlingFor('white')}; Black ${castlingFor('black')}`,
+    `En passant target: ${details.enPassant ?? 'none'}`,
+    `Halfmove clock: ${details.halfmoveClock} (moves since last capture or pawn move)`,
+    `Move number: ${details.fullmoveNumber}`
+  ]
+}
+
+// Get the board as a grid of pieces
+export const getBoard = (game: Chess): Board => {
+  return game.board().map(row =>
+    row.map(square => square ? { type: pieceTypes[square.type], color: toPieceColor(square.color) } : null)
+  )
+}
+
+// Safe board access helper
+export const getBoardPiece = (board: Board, pos: Position): ChessPiece | null => {
+  if (!isValidPosition(pos)) return null
+  return board[pos.row]?.[pos.col] ?? null
+}
+
+// Convert a chess.js move into our move shape
+const toMove = (move: ChessJsMove): Move => {
+  const color = toPieceColor(move.color)
+  const result: Move = {
+    from: squareToPosition(move.from),
+    to: squareToPosition(move.to),
+    piece: { type: pieceTypes[move.piece], color },
+    san: move.san
+  }
+
+  if (move.captured) {
+    result.capturedPiece = { type: pieceTypes[move.captured], color: oppositeColor(color) }
+  }
+  if (move.promotion) {
+    result.promotion = pieceTypes[move.promotion]
+  }
+  if (move.isKingsideCastle()) {
+    result.castling = 'kingside'
+  } else if (move.isQueensideCastle()) {
+    result.castling = 'queenside'
+  }
+  if (move.isEnPassant()) {
+    result.isEnPassant = true
+  }
+
+  return result
+}
+
+// Get all legal moves for the side to move, optionally from a single square
+export const getLegalMoves = (game: Chess, from?: Position): Move[] => {
+  const moves = from
+    ? game.moves({ verbose: true, square: positionToSquare(from) })
+    : game.moves({ verbose: true })
+  return moves.map(toMove)
+}
+
+// All moves played so far, in our move shape
+export const getMoveHistory = (game: Chess): Move[] => game.history({ verbose: true }).map(toMove)
+
+// Play a move on the game; returns null if it is illegal
+export const applyMove = (
+  game: Chess,
+  move: { from: Position; to: Position; promotion?: PieceType }
+): Move | null => {
+  try {
+    const played = game.move({
+      from: positionToSquare(move.from),
+      to: positionToSquare(move.to),
+      promotion: move.promotion ? pieceSymbols[move.promotion] : undefined
+    })
+    return toMove(played)
+  } catch {
+    return null
+  }
+}
+
+// Check if a pawn move lands on the last rank
+export const isPromotionMove = (piece: ChessPiece, to: Position): boolean => {
+  return piece.type === 'pawn' && (to.row === 0 || to.row === 7)
+}
+
+// Find king position for a given color
+export const findKing = (game: Chess, color: PieceColor): Position | null => {
+  const [square] = game.findPiece({ type: 'k', color: toColorCode(color) })
+  return square ? squareToPosition(square) : null
+}
+
+// Check if a square is under attack by the given color
+export const isSquareUnderAttack = (game: Chess, pos: Position, byColor: PieceColor): boolean => {
+  return game.isAttacked(positionToSquare(pos), toColorCode(byColor))
+}
+
+// Halfmove clock: plies since the last capture or pawn move
+export const getHalfmoveClock = (game: Chess): number => {
+  return parseInt(game.fen().split(' ')[4], 10)
+}
+
+// Count how many times the current position has occurred, comparing position
+// hashes (placement, side to move, castling rights and a capturable en passant
+// square). Only the plies since the last capture or pawn move can repeat it.
+export const getRepetitionCount = (game: Chess): number => {
+  const target = game.hash()
+  const reversiblePlies = getHalfmoveClock(game)
+  const undone: ChessJsMove[] = []
+  let count = 1
+
+  while (undone.length < reversiblePlies) {
+    const move = game.undo()
+    if (!move) break
+    undone.push(move)
+    if (game.hash() === target) count++
+  }
+
+  // Replay the moves to restore the game
+  for (let i = undone.length - 1; i >= 0; i--) {
+    game.move({ from: undone[i].from, to: undone[i].to, promotion: undone[i].promotion })
+  }
+
+  return count
+}
+
+// Neither side can possibly checkmate: K vs K, K + minor piece vs K,
+// or only bishops left and all of them on squares of the same colour
+export const hasInsufficientMaterial = (game: Chess): boolean => {
+  const pieces: { type: PieceSymbol; squareColor: 'light' | 'dark' | null }[] = []
+
+  for (const row of game.board()) {
+    for (const square of row) {
+      if (square && square.type !== 'k') {
+        pieces.push({ type: square.type, squareColor: game.squareColor(square.square) })
+      }
+    }
+  }
+
+  if (pieces.length === 0) return true
+  if (pieces.length === 1 && (pieces[0].type === 'n' || pieces[0].type === 'b')) return true
+
+  return pieces.every(piece => piece.type === 'b') &&
+    pieces.every(piece => piece.squareColor === pieces[0].squareColor)
+}
+
+// Whether a side could still checkmate. A lone king, or a king with one knight or
+// bishop, cannot, so running out of time against it is a draw rather than a loss
+export const hasMatingMaterial = (game: Chess, color: PieceColor): boolean => {
+  const pieces = game.board().flat().filter(square => square && square.color === toColorCode(color) && square.type !== 'k')
+  if (pieces.length === 0) return false
+  return !(pieces.length === 1 && (pieces[0].type === 'n' || pieces[0].type === 'b'))
+}
+
+// Check if the game is over and determine the result for the side to move
+export const getGameStatus = (game: Chess): GameStatusResult => {
+  const currentPlayer = toPieceColor(game.turn())
+  const noDraw = { drawReason: null, claimableDraw: null }
+
+  if (game.isCheckmate()) {
+    // Checkmate - opponent wins
+    return { status: 'checkmate', winner: oppositeColor(currentPlayer), kingInCheck: currentPlayer, ...noDraw }
+  }
+
+  if (game.isStalemate()) {
+    // Stalemate - draw
+    return { status: 'stalemate', winner: null, kingInCheck: null, ...noDraw }
+  }
+
+  // Automatic draws end the game without anyone claiming them
+  const halfmoveClock = getHalfmoveClock(game)
+  const repetitions = getRepetitionCount(game)
+  let drawReason: DrawReason | null = null
+
+  if (hasInsufficientMaterial(game)) {
+    drawReason = 'insufficient-material'
+  } else if (repetitions >= 5) {
+    drawReason = 'fivefold-repetition'
+  } else if (halfmoveClock >= 150) {
+    drawReason = 'seventy-five-move-rule'
+  }
+
+  if (drawReason) {
+    return { status: 'draw', winner: null, kingInCheck: null, drawReason, claimableDraw: null }
+  }
+
+  // Claimable draws leave the game running until the side to move claims them
+  let claimableDraw: ClaimableDraw | null = null
+  if (repetitions >= 3) {
+    claimableDraw = 'threefold-repetition'
+  } else if (halfmoveClock >= 100) {
+    claimableDraw = 'fifty-move-rule'
+  }
+
+  const kingInCheck = game.inCheck() ? currentPlayer : null
+  return {
+    status: kingInCheck ? 'check' : 'playing',
+    winner: null,
+    kingInCheck,
+    drawReason: null,
+    claimableDraw
+  }
+}
+
+// Check if a status ends the game
+export const isGameOverStatus = (status: GameStatus): boolean => {
+  return status === 'checkmate' || status === 'stalemate' || status === 'draw' || status === 'timeout'
+}
+
+// How a game with this status ended, or null while it is still going
+export const getGameEndReason = (status: GameStatus, drawReason: DrawReason | null): GameEndReason | null => {
+  if (status === 'draw') return drawReason
+  return status === 'checkmate' || status === 'stalemate' || status === 'timeout' ? status : null
+}
+
+// Material evaluation from the given color's point of view
+export const evaluatePosition = (game: Chess, color: PieceColor): number => {
+  let score = 0
+
+  for (const row of game.board()) {
+    for (const square of row) {
+      if (square) {
+        const value = pieceValues[pieceTypes[square.type]]
+        score += toPieceColor(square.color) === color ? value : -value
+      }
+    }
+  }
+
+  // Bonus for putting opponent in check, penalty for being in check
+  if (game.inCheck()) {
+    score += toPieceColor(game.turn()) === color ? -1 : 1
+  }
+
+  return score
+}
+
+// Standard algebraic notation for a move in this position, with disambiguation,
+// capture mark, promotion and check or mate suffix ("Nbd7", "exd8=Q+", "O-O#");
+// returns null if the move is illegal
+export const toSAN = (
+  game: Chess,
+  move: { from: Position; to: Position; promotion?: PieceType }
+): string | null => {
+  const match = getLegalMoves(game, move.from).find(legal =>
+    positionsEqual(legal.to, move.to) && legal.promotion === move.promotion
+  )
+  return match ? match.san : null
+}
+
+// SAN with the piece letter swapped for its figurine ("Nf3" becomes "♘f3")
+export const toFigurineSAN = (san: string, color: PieceColor): string => {
+  const figurines: Record<string, string> = color === 'white'
+    ? { K: '♔', Q: '♕', R: '♖', B: '♗', N: '♘' }
+    : { K: '♚', Q: '♛', R: '♜', B: '♝', N: '♞' }
+  return san.replace(/^[KQRBN]|=[QRBN]/, letter =>
+    letter.startsWith('=') ? '=' + figurines[letter[1]] : figurines[letter]
+  )
+}
+
+// Keep only the moves matching a parsed piece, squares and promotion.
+// Without an explicit promotion piece a promotion defaults to a queen.
+const filterMoves = (
+  moves: Move[],
+  criteria: { piece?: PieceType; from?: Square; file?: string; rank?: string; to: Square; promotion?: PieceType }
+): Move[] => moves.filter(move => {
+  const from = positionToSquare(move.from)
+  return positionToSquare(move.to) === criteria.to &&
+    (!criteria.piece || move.piece.type === criteria.piece) &&
+    (!criteria.from || from === criteria.from) &&
+    (!criteria.file || from[0] === criteria.file) &&
+    (!criteria.rank || from[1] === criteria.rank) &&
+    (criteria.promotion ? move.promotion === criteria.promotion : !move.promotion || move.promotion === 'queen')
+})
+
+// Find the legal move written in SAN or long algebraic notation. Tolerates check and
+// annotation suffixes, zeros for castling ("0-0"), missing or extra capture marks,
+// needless disambiguation ("Nbd7" when only one knight can go there), promotion with
+// or without "=", long algebraic ("e2e4", "Ng1-f3", "e7e8q"), a leading move number
+// and quotes or trailing words around the move ("12... Nf3", "\"e4\".").
+// Returns null when the text matches no legal move, or more than one.
+export const parseSAN = (game: Chess, text: string): Move | null => {
+  const moves = getLegalMoves(game)
+  const normalized = text
+    .trim()
+    .replace(/^\d+\.+\s*/, '')
+    .replace(/\s*e\.?p\.?$/i, '')
+    .split(/\s+/)[0]
+    .replace(/^["'`]+|["'`.,;]+$/g, '')
+    .replace(/[+#!?]+$/, '')
+  if (!normalized) return null
+
+  const unique = (candidates: Move[]): Move | null => (candidates.length === 1 ? candidates[0] : null)
+  const promotionType = (letter?: string): PieceType | undefined =>
+    letter ? pieceTypes[letter.toLowerCase() as PieceSymbol] : undefined
+
+  // Castling, written with the letter O or the digit zero
+  const castling = normalized.match(/^[O0o]-?[O0o](-?[O0o])?$/)
+  if (castling) {
+    const side = castling[1] ? 'queenside' : 'kingside'
+    return moves.find(move => move.castling === side) ?? null
+  }
+
+  // Long algebraic: both squares given ("e2e4", "Ng1-f3", "e7xe8=Q")
+  const lan = normalized.match(/^([KQRBNP])?([a-h][1-8])[-x:]?([a-h][1-8])=?\(?([QRBNqrbn])?\)?$/)
+  if (lan) {
+    return unique(filterMoves(moves, {
+      piece: lan[1] ? pieceTypes[lan[1].toLowerCase() as PieceSymbol] : undefined,
+      from: lan[2] as Square,
+      to: lan[3] as Square,
+      promotion: promotionType(lan[4])
+    }))
+  }
+
+  // Standard algebraic: optional piece, optional origin file and/or rank, target square
+  const san = normalized.match(/^([KQRBNP])?([a-h])?([1-8])?[x:]?([a-h][1-8])=?\(?([QRBNqrbn])?\)?$/)
+  if (san) {
+    const match = unique(filterMoves(moves, {
+      piece: san[1] ? pieceTypes[san[1].toLowerCase() as PieceSymbol] : 'pawn',
+      file: san[2],
+      rank: san[3],
+      to: san[4] as Square,
+      promotion: promotionType(san[5])
+    }))
+    if (match) return match
+  }
+
+  // A lowercase piece letter ("nf3", "qxd5") when no pawn move fits
+  if (/^[kqrbn]/.test(normalized)) {
+    return parseSAN(game, normalized[0].toUpperCase() + normalized.slice(1))
+  }
+
+  return null
+}
+
+// Move in UCI long algebraic notation ("e2e4", "e7e8q")
+export const toUciMove = (move: Pick<Move, 'from' | 'to' | 'promotion'>): string =>
+  positionToSquare(move.from) + positionToSquare(move.to) + (move.promotion ? pieceSymbols[move.promotion] : '')
+
+// Find the legal move matching a UCI string
+export const parseUciMove = (game: Chess, uci: string): Move | null =>
+  getLegalMoves(game).find(move => toUciMove(move) === uci.trim().toLowerCase()) ?? null
+
+// The game as the starting position plus UCI moves when the SAN history leads to the
+// position, so an engine knows about repetitions; otherwise just the position
+export const toUciPosition = (fen: string, history: string[]): { fen: string; moves: string[] } => {
+  try {
+    const game = replayGame(history)
+    if (getFEN(game) === fen) return { fen: STARTING_FEN, moves: getMoveHistory(game).map(toUciMove) }
+  } catch {
+    // The history is not a game from the standard start
+  }
+  return { fen, moves: [] }
+}
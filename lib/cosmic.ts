@@ -1,4 +1,8 @@
 import { createBucketClient } from '@cosmicjs/sdk'
+import { GameResult } from '@/types'
+import type { SavedGame } from '@/lib/savedGame'
+import { isDifficultyLevel } from '@/lib/difficulty'
+import { isGameEndReason } from '@/lib/chess'
 
 export const cosmic = createBucketClient({
   bucketSlug: process.env.COSMIC_BUCKET_SLUG as string,
@@ -7,47 +11,47 @@ export const cosmic = createBucketClient({
   apiEnvironment: "staging"
 })
 
-export async function generateAIMove(fenString: string, gameHistory: string[], currentPlayer: 'white' | 'black') {
+// Explain in plain words why a move from post-game analysis was an error and what the
+// engine's line does better
+export async function explainMove(
+  fenString: string,
+  playedMove: string,
+  bestLine: string[],
+  classification: string
+) {
   try {
-    const prompt = `You are a chess engine. Analyze this chess position in FEN notation: ${fenString}
-    
-Game history: ${gameHistory.join(', ')}
-Current player: ${currentPlayer}
+    const prompt = `You are a chess coach reviewing a game. In this position (FEN): ${fenString}
 
-Analyze the position and suggest the best move for ${currentPlayer}. Consider:
-- Material advantage
-- Piece development  
-- King safety
-- Tactical opportunities
-- Positional advantages
+The player chose ${playedMove}, which the engine rates as a ${classification}.
+The engine's line instead: ${bestLine.join(' ')}
 
-Respond with ONLY the move in standard algebraic notation (e.g., "e4", "Nf3", "O-O", "Qxd5+").
-Do not include explanations, just the move.`
+In at most three sentences, explain what was wrong with ${playedMove} and why the engine's move is better.
+Refer to concrete pieces, squares and threats. Do not repeat the FEN.`
 
     const response = await cosmic.ai.generateText({
       prompt,
-      max_tokens: 50,
+      max_tokens: 200,
     })
 
     return response.text.trim()
   } catch (error) {
-    console.error('Error generating AI move:', error)
+    console.error('Error explaining move:', error)
     return null
   }
 }
 
-export async function getPositionAnalysis(fenString: string, gameHistory: string[]) {
+// Explain the idea behind a suggested move for a hint, given the board analysis the
+// hint route builds
+export async function explainHint(boardAnalysis: string, move: string, expectedReply: string | null) {
   try {
-    const prompt = `Analyze this chess position: ${fenString}
-    
-Game moves so far: ${gameHistory.join(', ')}
+    const prompt = `You are a friendly chess coach giving a hint.
 
-Provide a brief strategic assessment (max 150 characters) including:
-- Who has the advantage and why
-- Key tactical or positional themes
-- Overall evaluation
+${boardAnalysis}
 
-Keep it concise and informative.`
+The suggested move is ${move}.${expectedReply ? ` The opponent's most likely reply is ${expectedReply}.` : ''}
+
+In at most two sentences, explain the idea behind ${move} so the player understands why it is good.
+Do not suggest other moves.`
 
     const response = await cosmic.ai.generateText({
       prompt,
@@ -56,7 +60,136 @@ Keep it concise and informative.`
 
     return response.text.trim()
   } catch (error) {
-    console.error('Error analyzing position:', error)
-    return 'Position analysis unavailable'
+    console.error('Error explaining hint:', error)
+    return null
+  }
+}
+
+// Cosmic object type holding finished games
+const GAME_OBJECT_TYPE = 'chess-games'
+
+// Store a finished game; throws if Cosmic rejects it
+export async function saveGameResult(game: GameResult): Promise<GameResult> {
+  const { object } = await cosmic.objects.insertOne({
+    title: `${game.playerColor === 'white' ? 'Player' : 'AI'} vs ${game.playerColor === 'black' ? 'Player' : 'AI'} - ${game.date}`,
+    type: GAME_OBJECT_TYPE,
+    metadata: {
+      pgn: game.pgn,
+      result: game.result,
+      moves: game.moves,
+      duration: game.duration ?? null,
+      date: game.date,
+      player_color: game.playerColor,
+      final_fen: game.finalFen,
+      difficulty: game.difficulty ?? null,
+      hints_used: game.hintsUsed ?? null,
+      eco: game.eco ?? null,
+      opening: game.opening ?? null,
+      end_reason: game.endReason ?? null
+    }
+  })
+  return { ...game, id: object.id }
+}
+
+// Metadata values read back from Cosmic, with anything of the wrong type left out
+const metadataString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined)
+const metadataNumber = (value: unknown): number | undefined => (typeof value === 'number' ? value : undefined)
+
+// Convert a Cosmic game object back into a GameResult
+const toGameResult = (object: { id: string; metadata: Record<string, unknown> }): GameResult => {
+  const { metadata } = object
+  return {
+    id: object.id,
+    pgn: metadataString(metadata.pgn) ?? '',
+    result: metadata.result === 'white' || metadata.result === 'black' ? metadata.result : 'draw',
+    moves: Array.isArray(metadata.moves) ? metadata.moves.filter((move): move is string => typeof move === 'string') : [],
+    duration: metadataNumber(metadata.duration),
+    date: metadataString(metadata.date) ?? '',
+    playerColor: metadata.player_color === 'black' ? 'black' : 'white',
+    finalFen: metadataString(metadata.final_fen) ?? '',
+    difficulty: isDifficultyLevel(metadata.difficulty) ? metadata.difficulty : undefined,
+    hintsUsed: metadataNumber(metadata.hints_used),
+    eco: metadataString(metadata.eco),
+    opening: metadataString(metadata.opening),
+    endReason: isGameEndReason(metadata.end_reason) ? metadata.end_reason : undefined
+  }
+}
+
+// Cosmic answers 404 when nothing matches
+const isNotFound = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { status?: number }).status === 404
+
+// Most recent games first
+export async function getGameResults(limit: number = 50): Promise<GameResult[]> {
+  try {
+    const { objects } = await cosmic.objects
+      .find({ type: GAME_OBJECT_TYPE })
+      .props(['id', 'metadata'])
+      .sort('-created_at')
+      .limit(limit)
+    return objects.map(toGameResult)
+  } catch (error) {
+    if (isNotFound(error)) return []
+    throw error
+  }
+}
+
+export async function getGameResult(id: string): Promise<GameResult | null> {
+  try {
+    const { object } = await cosmic.objects
+      .findOne({ type: GAME_OBJECT_TYPE, id })
+      .props(['id', 'metadata'])
+    return toGameResult(object)
+  } catch (error) {
+    if (isNotFound(error)) return null
+    throw error
+  }
+}
+
+// Cosmic object type holding unfinished games, one object per save slot
+const SAVED_GAME_OBJECT_TYPE = 'chess-saved-games'
+
+// Saved game in a slot, or null if the slot is empty
+export async function getSavedGame(slot: string): Promise<unknown> {
+  try {
+    const { object } = await cosmic.objects
+      .findOne({ type: SAVED_GAME_OBJECT_TYPE, slug: slot })
+      .props(['metadata'])
+    return object.metadata.game
+  } catch (error) {
+    if (isNotFound(error)) return null
+    throw error
   }
-}
\ No newline at end of file
+}
+
+// Create or overwrite the game in a slot
+export async function putSavedGame(slot: string, game: SavedGame): Promise<void> {
+  const existing = await getSavedGameId(slot)
+  if (existing) {
+    await cosmic.objects.updateOne(existing, { metadata: { game } })
+  } else {
+    await cosmic.objects.insertOne({
+      title: `Saved game ${slot}`,
+      slug: slot,
+      type: SAVED_GAME_OBJECT_TYPE,
+      metadata: { game }
+    })
+  }
+}
+
+export async function deleteSavedGame(slot: string): Promise<void> {
+  const existing = await getSavedGameId(slot)
+  if (existing) await cosmic.objects.deleteOne(existing)
+}
+
+const getSavedGameId = async (slot: string): Promise<string | null> => {
+  try {
+    const { object } = await cosmic.objects
+      .findOne({ type: SAVED_GAME_OBJECT_TYPE, slug: slot })
+      .props(['id'])
+    return object.id
+  } catch (error) {
+    if (isNotFound(error)) return null
+    throw error
+  }
+}
@@ -0,0 +1,122 @@
+// AI strength levels, weakest first
+export type DifficultyLevel = 'beginner' | 'casual' | 'intermediate' | 'advanced' | 'expert' | 'extreme'
+
+// A deliberately weak move the AI may choose instead of its best one
+export type MistakeType = 'blunder' | 'inaccuracy'
+
+export interface DifficultySettings {
+  label: string
+  description: string
+  maxDepth: number // local engine search depth in plies
+  blunderRate: number // chance of playing a random legal move
+  inaccuracyRate: number // chance of playing the engine's second choice
+  uciSkillLevel: number // UCI engine "Skill Level" option, 0-20
+  uciElo: number | null // UCI engine "UCI_Elo" strength limit, null for full strength
+  bookDepth: number // plies from the start the AI may play from the opening book
+  prompt: string // how the Cosmic AI provider asks the model to play
+}
+
+export const difficultyLevels: Record<DifficultyLevel, DifficultySettings> = {
+  beginner: {
+    label: 'Beginner',
+    description: 'Just learned the rules and often leaves pieces hanging',
+    maxDepth: 1,
+    blunderRate: 0.25,
+    inaccuracyRate: 0.25,
+    uciSkillLevel: 0,
+    uciElo: 800,
+    bookDepth: 4,
+    prompt: `Play like a beginner who has just learned how the pieces move.
+Choose simple, natural-looking moves without calculating tactics.
+It is fine to overlook threats and miss captures now and then.`
+  },
+  casual: {
+    label: 'Casual',
+    description: 'Knows the basics but misses tactics',
+    maxDepth: 2,
+    blunderRate: 0.1,
+    inaccuracyRate: 0.2,
+    uciSkillLevel: 3,
+    uciElo: 1100,
+    bookDepth: 6,
+    prompt: `Play like a casual club player.
+Develop your pieces and grab free material, but do not look more than one move ahead.`
+  },
+  intermediate: {
+    label: 'Intermediate',
+    description: 'Solid play with the occasional slip',
+    maxDepth: 3,
+    blunderRate: 0.05,
+    inaccuracyRate: 0.15,
+    uciSkillLevel: 8,
+    uciElo: 1500,
+    bookDepth: 10,
+    prompt: `Play like an intermediate club player.
+Consider material, piece development, king safety and simple two-move tactics.`
+  },
+  advanced: {
+    label: 'Advanced',
+    description: 'Sees most tactics and rarely errs',
+    maxDepth: 5,
+    blunderRate: 0.02,
+    inaccuracyRate: 0.08,
+    uciSkillLevel: 13,
+    uciElo: 1900,
+    bookDepth: 14,
+    prompt: `Play like a strong tournament player.
+Consider:
+- Material advantage
+- Piece development
+- King safety
+- Tactical opportunities
+- Positional advantages`
+  },
+  expert: {
+    label: 'Expert',
+    description: 'Deep calculation and almost no mistakes',
+    maxDepth: 8,
+    blunderRate: 0,
+    inaccuracyRate: 0.03,
+    uciSkillLevel: 17,
+    uciElo: 2300,
+    bookDepth: 20,
+    prompt: `Play like a master. Suggest the best move.
+Calculate forcing lines (checks, captures, threats) carefully and weigh long-term positional factors:
+- Material advantage
+- King safety
+- Pawn structure
+- Piece activity and coordination`
+  },
+  extreme: {
+    label: 'Extreme',
+    description: 'Full-strength engine with no deliberate mistakes',
+    maxDepth: 64,
+    blunderRate: 0,
+    inaccuracyRate: 0,
+    uciSkillLevel: 20,
+    uciElo: null,
+    bookDepth: 20,
+    prompt: `Play at full engine strength. Suggest the objectively best move.
+Calculate every forcing line to the end, prefer the move that wins fastest or loses slowest,
+and never play a move that allows a tactic against you.`
+  }
+}
+
+export const DEFAULT_DIFFICULTY: DifficultyLevel = 'intermediate'
+
+// Check if a value names a known difficulty level
+export const isDifficultyLevel = (value: unknown): value is DifficultyLevel =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(difficultyLevels, value)
+
+// Decide whether the AI plays a deliberate mistake this move
+export const rollMistake = (level: DifficultyLevel, random: () => number = Math.random): MistakeType | null => {
+  const { blunderRate, inaccuracyRate } = difficultyLevels[level]
+  const roll = random()
+  if (roll < blunderRate) return 'blunder'
+  if (roll < blunderRate + inaccuracyRate) return 'inaccuracy'
+  return null
+}
+
+// Pick a uniformly random item (a blunder is just a random legal move)
+export const pickRandom = <T>(items: T[], random: () => number = Math.random): T | null =>
+  items.length > 0 ? items[Math.floor(random() * items.length)] : null
@@ -0,0 +1,225 @@
+import { createGame, positionKey } from '@/lib/chess'
+
+// An opening from the Encyclopaedia of Chess Openings classification
+export interface EcoOpening {
+  eco: string // code from A00 to E99
+  name: string
+}
+
+// Openings by code, each with the main-line moves that reach its defining position.
+// More specific variations follow the openings they belong to.
+const ECO_LINES: [string, string, string][] = [
+  ['A00', 'Polish Opening', 'b4'],
+  ['A00', 'Grob Opening', 'g4'],
+  ['A00', "Van't Kruijs Opening", 'e3'],
+  ['A00', 'Mieses Opening', 'd3'],
+  ['A00', 'Hungarian Opening', 'g3'],
+  ['A00', "Anderssen's Opening", 'a3'],
+  ['A00', 'Van Geet Opening', 'Nc3'],
+  ['A01', 'Nimzo-Larsen Attack', 'b3'],
+  ['A02', "Bird's Opening", 'f4'],
+  ['A03', "Bird's Opening: Dutch Variation", 'f4 d5'],
+  ['A04', 'Réti Opening', 'Nf3'],
+  ['A05', 'Réti Opening', 'Nf3 Nf6'],
+  ['A06', 'Réti Opening', 'Nf3 d5'],
+  ['A07', "King's Indian Attack", 'Nf3 d5 g3'],
+  ['A09', 'Réti Opening: Réti Gambit', 'Nf3 d5 c4'],
+  ['A10', 'English Opening', 'c4'],
+  ['A13', 'English Opening: Agincourt Defence', 'c4 e6'],
+  ['A15', 'English Opening: Anglo-Indian Defence', 'c4 Nf6'],
+  ['A16', 'English Opening: Anglo-Indian Defence', 'c4 Nf6 Nc3'],
+  ['A20', "English Opening: King's English Variation", 'c4 e5'],
+  ['A21', "English Opening: King's English Variation", 'c4 e5 Nc3'],
+  ['A22', "English Opening: King's English Variation, Two Knights", 'c4 e5 Nc3 Nf6'],
+  ['A25', "English Opening: King's English Variation, Reversed Closed Sicilian", 'c4 e5 Nc3 Nc6'],
+  ['A27', 'English Opening: Three Knights System', 'c4 e5 Nc3 Nc6 Nf3'],
+  ['A28', 'English Opening: Four Knights System', 'c4 e5 Nc3 Nf6 Nf3 Nc6'],
+  ['A30', 'English Opening: Symmetrical Variation', 'c4 c5'],
+  ['A40', "Queen's Pawn Game", 'd4'],
+  ['A41', "Queen's Pawn Game: Modern Defence", 'd4 d6'],
+  ['A43', 'Benoni Defence: Old Benoni', 'd4 c5'],
+  ['A45', 'Indian Defence', 'd4 Nf6'],
+  ['A45', 'Trompowsky Attack', 'd4 Nf6 Bg5'],
+  ['A46', 'Indian Defence: Knights Variation', 'd4 Nf6 Nf3'],
+  ['A50', 'Indian Defence: Normal Variation', 'd4 Nf6 c4'],
+  ['A51', 'Budapest Gambit', 'd4 Nf6 c4 e5'],
+  ['A56', 'Benoni Defence', 'd4 Nf6 c4 c5'],
+  ['A57', 'Benko Gambit', 'd4 Nf6 c4 c5 d5 b5'],
+  ['A60', 'Modern Benoni', 'd4 Nf6 c4 c5 d5 e6'],
+  ['A80', 'Dutch Defence', 'd4 f5'],
+  ['A81', 'Dutch Defence: Fianchetto Variation', 'd4 f5 g3'],
+  ['B00', "King's Pawn Game", 'e4'],
+  ['B00', 'Nimzowitsch Defence', 'e4 Nc6'],
+  ['B00', "Owen's Defence", 'e4 b6'],
+  ['B01', 'Scandinavian Defence', 'e4 d5'],
+  ['B01', 'Scandinavian Defence: Main Line', 'e4 d5 exd5 Qxd5 Nc3 Qa5'],
+  ['B01', 'Scandinavian Defence: Modern Variation', 'e4 d5 exd5 Nf6'],
+  ['B02', "Alekhine's Defence", 'e4 Nf6'],
+  ['B06', 'Modern Defence', 'e4 g6'],
+  ['B07', 'Pirc Defence', 'e4 d6 d4 Nf6'],
+  ['B08', 'Pirc Defence: Classical Variation', 'e4 d6 d4 Nf6 Nc3 g6 Nf3'],
+  ['B10', 'Caro-Kann Defence', 'e4 c6'],
+  ['B12', 'Caro-Kann Defence: Advance Variation', 'e4 c6 d4 d5 e5'],
+  ['B13', 'Caro-Kann Defence: Exchange Variation', 'e4 c6 d4 d5 exd5'],
+  ['B15', 'Caro-Kann Defence', 'e4 c6 d4 d5 Nc3'],
+  ['B17', 'Caro-Kann Defence: Karpov Variation', 'e4 c6 d4 d5 Nc3 dxe4 Nxe4 Nd7'],
+  ['B18', 'Caro-Kann Defence: Classical Variation', 'e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5'],
+  ['B20', 'Sicilian Defence', 'e4 c5'],
+  ['B22', 'Sicilian Defence: Alapin Variation', 'e4 c5 c3'],
+  ['B23', 'Sicilian Defence: Closed', 'e4 c5 Nc3'],
+  ['B27', 'Sicilian Defence', 'e4 c5 Nf3'],
+  ['B30', 'Sicilian Defence: Old Sicilian', 'e4 c5 Nf3 Nc6'],
+  ['B32', 'Sicilian Defence: Open', 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4'],
+  ['B33', 'Sicilian Defence: Four Knights Variation', 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3'],
+  ['B33', 'Sicilian Defence: Sveshnikov Variation', 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5'],
+  ['B40', 'Sicilian Defence: French Variation', 'e4 c5 Nf3 e6'],
+  ['B44', 'Sicilian Defence: Taimanov Variation', 'e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6'],
+  ['B50', 'Sicilian Defence: Modern Variations', 'e4 c5 Nf3 d6'],
+  ['B54', 'Sicilian Defence: Open', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4'],
+  ['B56', 'Sicilian Defence: Classical Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3'],
+  ['B70', 'Sicilian Defence: Dragon Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6'],
+  ['B75', 'Sicilian Defence: Dragon Variation, Yugoslav Attack', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 Be3 Bg7 f3'],
+  ['B90', 'Sicilian Defence: Najdorf Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6'],
+  ['B90', 'Sicilian Defence: Najdorf Variation, English Attack', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Be3'],
+  ['C00', 'French Defence', 'e4 e6'],
+  ['C01', 'French Defence: Exchange Variation', 'e4 e6 d4 d5 exd5'],
+  ['C02', 'French Defence: Advance Variation', 'e4 e6 d4 d5 e5'],
+  ['C03', 'French Defence: Tarrasch Variation', 'e4 e6 d4 d5 Nd2'],
+  ['C10', 'French Defence: Paulsen Variation', 'e4 e6 d4 d5 Nc3'],
+  ['C11', 'French Defence: Classical Variation', 'e4 e6 d4 d5 Nc3 Nf6'],
+  ['C13', 'French Defence: Classical Variation', 'e4 e6 d4 d5 Nc3 Nf6 Bg5 Be7'],
+  ['C15', 'French Defence: Winawer Variation', 'e4 e6 d4 d5 Nc3 Bb4'],
+  ['C20', "King's Pawn Game", 'e4 e5'],
+  ['C23', "Bishop's Opening", 'e4 e5 Bc4'],
+  ['C25', 'Vienna Game', 'e4 e5 Nc3'],
+  ['C30', "King's Gambit", 'e4 e5 f4'],
+  ['C33', "King's Gambit Accepted", 'e4 e5 f4 exf4'],
+  ['C40', "King's Knight Opening", 'e4 e5 Nf3'],
+  ['C41', 'Philidor Defence', 'e4 e5 Nf3 d6'],
+  ['C42', "Petrov's Defence", 'e4 e5 Nf3 Nf6'],
+  ['C44', "King's Knight Opening: Normal Variation", 'e4 e5 Nf3 Nc6'],
+  ['C44', 'Scotch Game', 'e4 e5 Nf3 Nc6 d4'],
+  ['C45', 'Scotch Game', 'e4 e5 Nf3 Nc6 d4 exd4 Nxd4'],
+  ['C46', 'Three Knights Opening', 'e4 e5 Nf3 Nc6 Nc3'],
+  ['C47', 'Four Knights Game', 'e4 e5 Nf3 Nc6 Nc3 Nf6'],
+  ['C50', 'Italian Game', 'e4 e5 Nf3 Nc6 Bc4'],
+  ['C50', 'Italian Game: Giuoco Piano', 'e4 e5 Nf3 Nc6 Bc4 Bc5'],
+  ['C51', 'Italian Game: Evans Gambit', 'e4 e5 Nf3 Nc6 Bc4 Bc5 b4'],
+  ['C53', 'Italian Game: Classical Variation', 'e4 e5 Nf3 Nc6 Bc4 Bc5 c3'],
+  ['C55', 'Italian Game: Two Knights Defence', 'e4 e5 Nf3 Nc6 Bc4 Nf6'],
+  ['C57', 'Italian Game: Two Knights Defence, Knight Attack', 'e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5'],
+  ['C60', 'Ruy Lopez', 'e4 e5 Nf3 Nc6 Bb5'],
+  ['C65', 'Ruy Lopez: Berlin Defence', 'e4 e5 Nf3 Nc6 Bb5 Nf6'],
+  ['C68', 'Ruy Lopez: Exchange Variation', 'e4 e5 Nf3 Nc6 Bb5 a6 Bxc6'],
+  ['C70', 'Ruy Lopez: Morphy Defence', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4'],
+  ['C78', 'Ruy Lopez: Morphy Defence', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O'],
+  ['C80', 'Ruy Lopez: Open Variation', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4'],
+  ['C84', 'Ruy Lopez: Closed Variation', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7'],
+  ['C88', 'Ruy Lopez: Closed Variation', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3'],
+  ['D00', "Queen's Pawn Game", 'd4 d5'],
+  ['D00', "Queen's Pawn Game: Accelerated London System", 'd4 d5 Bf4'],
+  ['D02', "Queen's Pawn Game: Zukertort Variation", 'd4 d5 Nf3'],
+  ['D02', "Queen's Pawn Game: London System", 'd4 d5 Nf3 Nf6 Bf4'],
+  ['D06', "Queen's Gambit", 'd4 d5 c4'],
+  ['D07', "Queen's Gambit Declined: Chigorin Defence", 'd4 d5 c4 Nc6'],
+  ['D10', 'Slav Defence', 'd4 d5 c4 c6'],
+  ['D11', 'Slav Defence: Modern Line', 'd4 d5 c4 c6 Nf3'],
+  ['D15', 'Slav Defence: Three Knights Variation', 'd4 d5 c4 c6 Nf3 Nf6 Nc3'],
+  ['D16', 'Slav Defence: Alapin Variation', 'd4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4'],
+  ['D17', 'Slav Defence: Czech Variation', 'd4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4 Bf5'],
+  ['D20', "Queen's Gambit Accepted", 'd4 d5 c4 dxc4'],
+  ['D30', "Queen's Gambit Declined", 'd4 d5 c4 e6'],
+  ['D31', "Queen's Gambit Declined", 'd4 d5 c4 e6 Nc3'],
+  ['D35', "Queen's Gambit Declined: Normal Defence", 'd4 d5 c4 e6 Nc3 Nf6'],
+  ['D35', "Queen's Gambit Declined: Exchange Variation", 'd4 d5 c4 e6 Nc3 Nf6 cxd5'],
+  ['D43', 'Semi-Slav Defence', 'd4 d5 c4 c6 Nf3 Nf6 Nc3 e6'],
+  ['D53', "Queen's Gambit Declined: Modern Variation", 'd4 d5 c4 e6 Nc3 Nf6 Bg5 Be7'],
+  ['D58', "Queen's Gambit Declined: Tartakower Defence", 'd4 d5 c4 e6 Nc3 Nf6 Bg5 Be7 e3 O-O Nf3 h6 Bh4 b6'],
+  ['D80', 'Grünfeld Defence', 'd4 Nf6 c4 g6 Nc3 d5'],
+  ['D85', 'Grünfeld Defence: Exchange Variation', 'd4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5'],
+  ['E00', 'Indian Defence: East Indian Defence', 'd4 Nf6 c4 e6'],
+  ['E01', 'Catalan Opening', 'd4 Nf6 c4 e6 g3'],
+  ['E06', 'Catalan Opening: Closed Variation', 'd4 Nf6 c4 e6 g3 d5 Bg2 Be7 Nf3'],
+  ['E10', 'Indian Defence: Anti-Nimzo-Indian', 'd4 Nf6 c4 e6 Nf3'],
+  ['E11', 'Bogo-Indian Defence', 'd4 Nf6 c4 e6 Nf3 Bb4+'],
+  ['E12', "Queen's Indian Defence", 'd4 Nf6 c4 e6 Nf3 b6'],
+  ['E15', "Queen's Indian Defence: Fianchetto Variation", 'd4 Nf6 c4 e6 Nf3 b6 g3'],
+  ['E20', 'Nimzo-Indian Defence', 'd4 Nf6 c4 e6 Nc3 Bb4'],
+  ['E32', 'Nimzo-Indian Defence: Classical Variation', 'd4 Nf6 c4 e6 Nc3 Bb4 Qc2'],
+  ['E40', 'Nimzo-Indian Defence: Rubinstein Variation', 'd4 Nf6 c4 e6 Nc3 Bb4 e3'],
+  ['E60', "King's Indian Defence", 'd4 Nf6 c4 g6'],
+  ['E61', "King's Indian Defence", 'd4 Nf6 c4 g6 Nc3 Bg7'],
+  ['E70', "King's Indian Defence: Normal Variation", 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6'],
+  ['E90', "King's Indian Defence: Normal Variation", 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3'],
+  ['E92', "King's Indian Defence: Classical Variation", 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5'],
+  ['E97', "King's Indian Defence: Mar del Plata Variation", 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Nc6 d5 Ne7']
+]
+
+// What a position has that a game can only lose: each side's men and pawns, and castling rights
+interface Material {
+  whiteMen: number
+  blackMen: number
+  whitePawns: number
+  blackPawns: number
+  castling: string
+}
+
+const countMaterial = (key: string): Material => {
+  const [placement, , castling] = key.split(' ')
+  const count = (pattern: RegExp) => placement.match(pattern)?.length ?? 0
+  return { whiteMen: count(/[A-Z]/g), blackMen: count(/[a-z]/g), whitePawns: count(/P/g), blackPawns: count(/p/g), castling }
+}
+
+// Whether a position with the later material can still arise from one with the earlier
+const canFollow = (earlier: Material, later: Material): boolean =>
+  later.whiteMen <= earlier.whiteMen &&
+  later.blackMen <= earlier.blackMen &&
+  later.whitePawns <= earlier.whitePawns &&
+  later.blackPawns <= earlier.blackPawns &&
+  later.castling.replace('-', '').split('').every(right => earlier.castling.includes(right))
+
+// Positions of the table by positionKey, and their material, built on first use
+let ecoPositions: Map<string, EcoOpening> | null = null
+let ecoMaterial: Material[] = []
+
+const getEcoPositions = (): Map<string, EcoOpening> => {
+  if (!ecoPositions) {
+    ecoPositions = new Map()
+    for (const [eco, name, line] of ECO_LINES) {
+      const game = createGame()
+      line.split(' ').forEach(san => game.move(san))
+      ecoPositions.set(positionKey(game), { eco, name })
+    }
+    ecoMaterial = Array.from(ecoPositions.keys(), countMaterial)
+  }
+  return ecoPositions
+}
+
+// The most specific opening reached by a game from the standard start, looked up by
+// position so transposed move orders are still recognised, however late they happen;
+// the game is followed until it has lost material or castling rights that every table
+// position still has. Null before any known position
+export const classifyOpening = (moves: string[]): EcoOpening | null => {
+  const positions = getEcoPositions()
+  const game = createGame()
+  let opening: EcoOpening | null = null
+  for (const san of moves) {
+    try {
+      game.move(san)
+    } catch {
+      break
+    }
+    const key = positionKey(game)
+    opening = positions.get(key) ?? opening
+
+    const material = countMaterial(key)
+    if (!ecoMaterial.some(table => canFollow(material, table))) break
+  }
+  return opening
+}
+
+// "C65 Ruy Lopez: Berlin Defence"
+export const formatOpening = (opening: EcoOpening): string => `${opening.eco} ${opening.name}`
+
+// ECO codes run from A00 to E99
+export const isEcoCode = (value: unknown): value is string => typeof value === 'string' && /^[A-E]\d\d$/.test(value)
@@ -0,0 +1,537 @@
+// 0x88 board representation used by the search engine. Squares are numbered
+// row * 16 + file with row 0 being rank 8, matching the FEN piece order.
+
+export const WHITE = 0
+export const BLACK = 8
+
+export const EMPTY = 0
+export const PAWN = 1
+export const KNIGHT = 2
+export const BISHOP = 3
+export const ROOK = 4
+export const QUEEN = 5
+export const KING = 6
+
+// Move flags
+export const FLAG_CAPTURE = 1
+export const FLAG_EN_PASSANT = 2
+export const FLAG_CASTLE = 4
+export const FLAG_DOUBLE_PUSH = 8
+export const FLAG_PROMOTION = 16
+
+// Castling rights bits
+const WHITE_KINGSIDE = 1
+const WHITE_QUEENSIDE = 2
+const BLACK_KINGSIDE = 4
+const BLACK_QUEENSIDE = 8
+
+export const pieceColor = (piece: number): number => piece & 8
+export const pieceType = (piece: number): number => piece & 7
+
+// Moves are packed into a single integer: from | to | promotion type | flags
+export const encodeMove = (from: number, to: number, promotion: number, flags: number): number => {
+  return from | (to << 7) | (promotion << 14) | (flags << 17)
+}
+export const moveFrom = (move: number): number => move & 0x7f
+export const moveTo = (move: number): number => (move >> 7) & 0x7f
+export const movePromotion = (move: number): number => (move >> 14) & 7
+export const moveFlags = (move: number): number => (move >> 17) & 0x1f
+
+const KNIGHT_OFFSETS = [-33, -31, -18, -14, 14, 18, 31, 33]
+const BISHOP_OFFSETS = [-17, -15, 15, 17]
+const ROOK_OFFSETS = [-16, -1, 1, 16]
+const KING_OFFSETS = [-17, -16, -15, -1, 1, 15, 16, 17]
+
+const PIECE_LETTERS = ' pnbrqk'
+
+// Castling rights kept after a piece leaves or lands on each square
+const CASTLING_MASK = new Int8Array(128).fill(15)
+CASTLING_MASK[0x74] = 15 & ~(WHITE_KINGSIDE | WHITE_QUEENSIDE)
+CASTLING_MASK[0x77] = 15 & ~WHITE_KINGSIDE
+CASTLING_MASK[0x70] = 15 & ~WHITE_QUEENSIDE
+CASTLING_MASK[0x04] = 15 & ~(BLACK_KINGSIDE | BLACK_QUEENSIDE)
+CASTLING_MASK[0x07] = 15 & ~BLACK_KINGSIDE
+CASTLING_MASK[0x00] = 15 & ~BLACK_QUEENSIDE
+
+// Deterministic 32-bit random numbers for Zobrist hashing
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0
+  let t = seed
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return (t ^ (t >>> 14)) | 0
+}
+
+const random = createRandom(0x5eed)
+const createKeys = (size: number) => Int32Array.from({ length: size }, () => random())
+
+// Zobrist keys as two 32-bit halves; pieces are indexed piece * 128 + square
+const PIECE_KEYS_LO = createKeys(16 * 128)
+const PIECE_KEYS_HI = createKeys(16 * 128)
+const CASTLING_KEYS_LO = createKeys(16)
+const CASTLING_KEYS_HI = createKeys(16)
+const EP_KEYS_LO = createKeys(8)
+const EP_KEYS_HI = createKeys(8)
+const SIDE_KEY_LO = random()
+const SIDE_KEY_HI = random()
+
+export const isOnBoard = (square: number): boolean => (square & 0x88) === 0
+
+export const squareName = (square: number): string => {
+  return String.fromCharCode(97 + (square & 7)) + (8 - (square >> 4))
+}
+
+export const parseSquare = (name: string): number => {
+  return (8 - parseInt(name[1], 10)) * 16 + (name.charCodeAt(0) - 97)
+}
+
+// State needed to take a move back
+interface UndoState {
+  move: number
+  captured: number
+  castling: number
+  enPassant: number
+  halfmoveClock: number
+  hashLo: number
+  hashHi: number
+}
+
+export class Position {
+  board = new Int8Array(128)
+  turn = WHITE
+  castling = 0
+  enPassant = -1
+  halfmoveClock = 0
+  fullmoveNumber = 1
+  kings = [-1, -1]
+  pieceCount = 0 // kings included, kept up to date as moves are made and taken back
+  hashLo = 0
+  hashHi = 0
+  private undoStack: UndoState[] = []
+  // Hashes of earlier positions, for repetition detection
+  private hashHistoryLo: number[] = []
+  private hashHistoryHi: number[] = []
+
+  static fromFEN(fen: string): Position {
+    const position = new Position()
+    const [placement, turn, castling, enPassant, halfmoveClock, fullmoveNumber] = fen.trim().split(/\s+/)
+
+    let row = 0
+    let file = 0
+    for (const char of placement) {
+      if (char === '/') {
+        row++
+        file = 0
+      } else if (char >= '1' && char <= '8') {
+        file += parseInt(char, 10)
+      } else {
+        const type = PIECE_LETTERS.indexOf(char.toLowerCase())
+        const color = char === char.toUpperCase() ? WHITE : BLACK
+        const square = row * 16 + file
+        position.board[square] = type | color
+        if (type === KING) position.kings[color >> 3] = square
+        position.pieceCount++
+        file++
+      }
+    }
+
+    position.turn = turn === 'b' ? BLACK : WHITE
+    position.castling =
+      (castling.includes('K') ? WHITE_KINGSIDE : 0) |
+      (castling.includes('Q') ? WHITE_QUEENSIDE : 0) |
+      (castling.includes('k') ? BLACK_KINGSIDE : 0) |
+      (castling.includes('q') ? BLACK_QUEENSIDE : 0)
+    position.enPassant = enPassant && enPassant !== '-' ? parseSquare(enPassant) : -1
+    position.halfmoveClock = parseInt(halfmoveClock ?? '0', 10) || 0
+    position.fullmoveNumber = parseInt(fullmoveNumber ?? '1', 10) || 1
+    position.computeHash()
+
+    return position
+  }
+
+  private computeHash(): void {
+    let lo = 0
+    let hi = 0
+    for (let square = 0; square < 128; square++) {
+      const piece = this.board[square]
+      if (isOnBoard(square) && piece) {
+        lo ^= PIECE_KEYS_LO[piece * 128 + square]
+        hi ^= PIECE_KEYS_HI[piece * 128 + square]
+      }
+    }
+    lo ^= CASTLING_KEYS_LO[this.castling]
+    hi ^= CASTLING_KEYS_HI[this.castling]
+    if (this.enPassant !== -1) {
+      lo ^= EP_KEYS_LO[this.enPassant & 7]
+      hi ^= EP_KEYS_HI[this.enPassant & 7]
+    }
+    if (this.turn === BLACK) {
+      lo ^= SIDE_KEY_LO
+      hi ^= SIDE_KEY_HI
+    }
+    this.hashLo = lo
+    this.hashHi = hi
+  }
+
+  private togglePiece(piece: number, square: number): void {
+    this.hashLo ^= PIECE_KEYS_LO[piece * 128 + square]
+    this.hashHi ^= PIECE_KEYS_HI[piece * 128 + square]
+  }
+
+  // Check if a square is attacked by the given color
+  isSquareAttacked(square: number, byColor: number): boolean {
+    const board = this.board
+
+    // Pawns attack diagonally forward, so look diagonally backward from the square
+    const pawnRow = byColor === WHITE ? 16 : -16
+    for (const side of [-1, 1]) {
+      const from = square + pawnRow + side
+      if (isOnBoard(from) && board[from] === (PAWN | byColor)) return true
+    }
+
+    for (const offset of KNIGHT_OFFSETS) {
+      const from = square + offset
+      if (isOnBoard(from) && board[from] === (KNIGHT | byColor)) return true
+    }
+
+    for (const offset of KING_OFFSETS) {
+      const from = square + offset
+      if (isOnBoard(from) && board[from] === (KING | byColor)) return true
+    }
+
+    for (const offset of BISHOP_OFFSETS) {
+      for (let from = square + offset; isOnBoard(from); from += offset) {
+        const piece = board[from]
+        if (piece) {
+          if (piece === (BISHOP | byColor) || piece === (QUEEN | byColor)) return true
+          break
+        }
+      }
+    }
+
+    for (const offset of ROOK_OFFSETS) {
+      for (let from = square + offset; isOnBoard(from); from += offset) {
+        const piece = board[from]
+        if (piece) {
+          if (piece === (ROOK | byColor) || piece === (QUEEN | byColor)) return true
+          break
+        }
+      }
+    }
+
+    return false
+  }
+
+  inCheck(): boolean {
+    return this.isSquareAttacked(this.kings[this.turn >> 3], this.turn ^ BLACK)
+  }
+
+  // Generate pseudo-legal moves (legality is checked in makeMove)
+  generateMoves(capturesOnly: boolean = false): number[] {
+    const moves: number[] = []
+    const board = this.board
+    const us = this.turn
+    const them = us ^ BLACK
+
+    const addPawnMove = (from: number, to: number, flags: number) => {
+      const row = to >> 4
+      if (row === 0 || row === 7) {
+        for (const promotion of [QUEEN, KNIGHT, ROOK, BISHOP]) {
+          moves.push(encodeMove(from, to, promotion, flags | FLAG_PROMOTION))
+        }
+      } else {
+        moves.push(encodeMove(from, to, 0, flags))
+      }
+    }
+
+    for (let from = 0; from < 128; from++) {
+      if (!isOnBoard(from)) {
+        from += 7
+        continue
+      }
+      const piece = board[from]
+      if (!piece || pieceColor(piece) !== us) continue
+      const type = pieceType(piece)
+
+      if (type === PAWN) {
+        const forward = us === WHITE ? -16 : 16
+        const startRow = us === WHITE ? 6 : 1
+        const promotionRow = us === WHITE ? 1 : 6
+        const oneAhead = from + forward
+
+        // Quiet pushes; promotions are generated even in captures-only mode
+        if (isOnBoard(oneAhead) && !board[oneAhead] && (!capturesOnly || (from >> 4) === promotionRow)) {
+          addPawnMove(from, oneAhead, 0)
+          const twoAhead = oneAhead + forward
+          if (!capturesOnly && (from >> 4) === startRow && !board[twoAhead]) {
+            moves.push(encodeMove(from, twoAhead, 0, FLAG_DOUBLE_PUSH))
+          }
+        }
+
+        for (const side of [-1, 1]) {
+          const to = oneAhead + side
+          if (!isOnBoard(to)) continue
+          const target = board[to]
+          if (target && pieceColor(target) === them) {
+            addPawnMove(from, to, FLAG_CAPTURE)
+          } else if (to === this.enPassant) {
+            moves.push(encodeMove(from, to, 0, FLAG_CAPTURE | FLAG_EN_PASSANT))
+          }
+        }
+        continue
+      }
+
+      const offsets = type === KNIGHT ? KNIGHT_OFFSETS
+        : type === BISHOP ? BISHOP_OFFSETS
+        : type === ROOK ? ROOK_OFFSETS
+        : KING_OFFSETS
+      const slides = type === BISHOP || type === ROOK || type === QUEEN
+
+      for (const offset of offsets) {
+        for (let to = from + offset; isOnBoard(to); to += offset) {
+          const target = board[to]
+          if (target) {
+            if (pieceColor(target) === them) moves.push(encodeMove(from, to, 0, FLAG_CAPTURE))
+            break
+          }
+          if (!capturesOnly) moves.push(encodeMove(from, to, 0, 0))
+          if (!slides) break
+        }
+      }
+
+      if (type === KING && !capturesOnly) {
+        this.generateCastlingMoves(from, moves)
+      }
+    }
+
+    return moves
+  }
+
+  private generateCastlingMoves(from: number, moves: number[]): void {
+    const us = this.turn
+    const them = us ^ BLACK
+    const board = this.board
+    const kingside = us === WHITE ? WHITE_KINGSIDE : BLACK_KINGSIDE
+    const queenside = us === WHITE ? WHITE_QUEENSIDE : BLACK_QUEENSIDE
+
+    if (!(this.castling & (kingside | queenside)) || this.isSquareAttacked(from, them)) return
+
+    if (this.castling & kingside &&
+        !board[from + 1] && !board[from + 2] &&
+        !this.isSquareAttacked(from + 1, them) && !this.isSquareAttacked(from + 2, them)) {
+      moves.push(encodeMove(from, from + 2, 0, FLAG_CASTLE))
+    }
+
+    if (this.castling & queenside &&
+        !board[from - 1] && !board[from - 2] && !board[from - 3] &&
+        !this.isSquareAttacked(from - 1, them) && !this.isSquareAttacked(from - 2, them)) {
+      moves.push(encodeMove(from, from - 2, 0, FLAG_CASTLE))
+    }
+  }
+
+  // Play a pseudo-legal move; returns false (and takes it back) if it leaves the king in check
+  makeMove(move: number): boolean {
+    const from = moveFrom(move)
+    const to = moveTo(move)
+    const flags = moveFlags(move)
+    const board = this.board
+    const piece = board[from]
+    const us = this.turn
+    const captureSquare = flags & FLAG_EN_PASSANT ? to + (us === WHITE ? 16 : -16) : to
+    const captured = board[captureSquare]
+
+    this.undoStack.push({
+      move,
+      captured,
+      castling: this.castling,
+      enPassant: this.enPassant,
+      halfmoveClock: this.halfmoveClock,
+      hashLo: this.hashLo,
+      hashHi: this.hashHi
+    })
+    this.hashHistoryLo.push(this.hashLo)
+    this.hashHistoryHi.push(this.hashHi)
+
+    if (captured) {
+      this.togglePiece(captured, captureSquare)
+      board[captureSquare] = EMPTY
+      this.pieceCount--
+    }
+
+    const placed = flags & FLAG_PROMOTION ? movePromotion(move) | us : piece
+    this.togglePiece(piece, from)
+    this.togglePiece(placed, to)
+    board[from] = EMPTY
+    board[to] = placed
+
+    if (pieceType(piece) === KING) {
+      this.kings[us >> 3] = to
+      if (flags & FLAG_CASTLE) {
+        const rookFrom = to > from ? from + 3 : from - 4
+        const rookTo = to > from ? from + 1 : from - 1
+        const rook = board[rookFrom]
+        this.togglePiece(rook, rookFrom)
+        this.togglePiece(rook, rookTo)
+        board[rookTo] = rook
+        board[rookFrom] = EMPTY
+      }
+    }
+
+    this.hashLo ^= CASTLING_KEYS_LO[this.castling]
+    this.hashHi ^= CASTLING_KEYS_HI[this.castling]
+    this.castling &= CASTLING_MASK[from] & CASTLING_MASK[to]
+    this.hashLo ^= CASTLING_KEYS_LO[this.castling]
+    this.hashHi ^= CASTLING_KEYS_HI[this.castling]
+
+    if (this.enPassant !== -1) {
+      this.hashLo ^= EP_KEYS_LO[this.enPassant & 7]
+      this.hashHi ^= EP_KEYS_HI[this.enPassant & 7]
+    }
+    this.enPassant = flags & FLAG_DOUBLE_PUSH ? (from + to) >> 1 : -1
+    if (this.enPassant !== -1) {
+      this.hashLo ^= EP_KEYS_LO[this.enPassant & 7]
+      this.hashHi ^= EP_KEYS_HI[this.enPassant & 7]
+    }
+
+    this.halfmoveClock = pieceType(piece) === PAWN || captured ? 0 : this.halfmoveClock + 1
+    if (us === BLACK) this.fullmoveNumber++
+    this.turn = us ^ BLACK
+    this.hashLo ^= SIDE_KEY_LO
+    this.hashHi ^= SIDE_KEY_HI
+
+    if (this.isSquareAttacked(this.kings[us >> 3], this.turn)) {
+      this.unmakeMove()
+      return false
+    }
+    return true
+  }
+
+  unmakeMove(): void {
+    const undo = this.undoStack.pop()
+    if (!undo) return
+    this.hashHistoryLo.pop()
+    this.hashHistoryHi.pop()
+
+    const { move, captured } = undo
+    const from = moveFrom(move)
+    const to = moveTo(move)
+    const flags = moveFlags(move)
+    const board = this.board
+    const us = this.turn ^ BLACK
+
+    const placed = board[to]
+    const piece = flags & FLAG_PROMOTION ? PAWN | us : placed
+    board[from] = piece
+    board[to] = EMPTY
+
+    if (captured) {
+      const captureSquare = flags & FLAG_EN_PASSANT ? to + (us === WHITE ? 16 : -16) : to
+      board[captureSquare] = captured
+      this.pieceCount++
+    }
+
+    if (pieceType(piece) === KING) {
+      this.kings[us >> 3] = from
+      if (flags & FLAG_CASTLE) {
+        const rookFrom = to > from ? from + 3 : from - 4
+        const rookTo = to > from ? from + 1 : from - 1
+        board[rookFrom] = board[rookTo]
+        board[rookTo] = EMPTY
+      }
+    }
+
+    this.turn = us
+    this.castling = undo.castling
+    this.enPassant = undo.enPassant
+    this.halfmoveClock = undo.halfmoveClock
+    if (us === BLACK) this.fullmoveNumber--
+    this.hashLo = undo.hashLo
+    this.hashHi = undo.hashHi
+  }
+
+  // Pass the turn without moving (for null-move pruning)
+  makeNullMove(): void {
+    this.undoStack.push({
+      move: 0,
+      captured: EMPTY,
+      castling: this.castling,
+      enPassant: this.enPassant,
+      halfmoveClock: this.halfmoveClock,
+      hashLo: this.hashLo,
+      hashHi: this.hashHi
+    })
+    this.hashHistoryLo.push(this.hashLo)
+    this.hashHistoryHi.push(this.hashHi)
+
+    if (this.enPassant !== -1) {
+      this.hashLo ^= EP_KEYS_LO[this.enPassant & 7]
+      this.hashHi ^= EP_KEYS_HI[this.enPassant & 7]
+      this.enPassant = -1
+    }
+    this.halfmoveClock++
+    this.turn ^= BLACK
+    this.hashLo ^= SIDE_KEY_LO
+    this.hashHi ^= SIDE_KEY_HI
+  }
+
+  unmakeNullMove(): void {
+    const undo = this.undoStack.pop()
+    if (!undo) return
+    this.hashHistoryLo.pop()
+    this.hashHistoryHi.pop()
+    this.turn ^= BLACK
+    this.enPassant = undo.enPassant
+    this.halfmoveClock = undo.halfmoveClock
+    this.hashLo = undo.hashLo
+    this.hashHi = undo.hashHi
+  }
+
+  // Check if the current position already occurred since the last irreversible move
+  isRepetition(): boolean {
+    const length = this.hashHistoryLo.length
+    const earliest = Math.max(0, length - this.halfmoveClock)
+    for (let i = length - 2; i >= earliest; i -= 2) {
+      if (this.hashHistoryLo[i] === this.hashLo && this.hashHistoryHi[i] === this.hashHi) {
+        return true
+      }
+    }
+    return false
+  }
+
+  // Check if the side to move has anything besides pawns and king
+  hasNonPawnMaterial(color: number): boolean {
+    for (let square = 0; square < 128; square++) {
+      const piece = this.board[square]
+      if (isOnBoard(square) && piece && pieceColor(piece) === color) {
+        const type = pieceType(piece)
+        if (type !== PAWN && type !== KING) return true
+      }
+    }
+    return false
+  }
+
+  // All legal moves for the side to move
+  legalMoves(): number[] {
+    return this.generateMoves().filter(move => {
+      if (!this.makeMove(move)) return false
+      this.unmakeMove()
+      return true
+    })
+  }
+
+  // Find the legal move for a UCI string ("e2e4", "e7e8q")
+  parseUciMove(uci: string): number | null {
+    const from = parseSquare(uci.slice(0, 2))
+    const to = parseSquare(uci.slice(2, 4))
+    const promotion = uci.length > 4 ? PIECE_LETTERS.indexOf(uci[4].toLowerCase()) : 0
+    return this.legalMoves().find(move =>
+      moveFrom(move) === from && moveTo(move) === to && movePromotion(move) === promotion
+    ) ?? null
+  }
+}
+
+// Long algebraic (UCI) form of a move
+export const moveToUci = (move: number): string => {
+  const promotion = movePromotion(move)
+  return squareName(moveFrom(move)) + squareName(moveTo(move)) + (promotion ? PIECE_LETTERS[promotion] : '')
+}
@@ -0,0 +1,151 @@
+import { Position, WHITE, PAWN, KNIGHT, BISHOP, ROOK, QUEEN, KING, isOnBoard, pieceColor, pieceType } from './board'
+
+// Piece values in centipawns, indexed by piece type
+export const PIECE_VALUES = [0, 100, 320, 330, 500, 900, 20000]
+
+// Piece-square tables from White's point of view, rank 8 first
+// (Tomasz Michniewski's "Simplified Evaluation Function")
+const PAWN_TABLE = [
+  0, 0, 0, 0, 0, 0, 0, 0,
+  50, 50, 50, 50, 50, 50, 50, 50,
+  10, 10, 20, 30, 30, 20, 10, 10,
+  5, 5, 10, 25, 25, 10, 5, 5,
+  0, 0, 0, 20, 20, 0, 0, 0,
+  5, -5, -10, 0, 0, -10, -5, 5,
+  5, 10, 10, -20, -20, 10, 10, 5,
+  0, 0, 0, 0, 0, 0, 0, 0
+]
+
+const KNIGHT_TABLE = [
+  -50, -40, -30, -30, -30, -30, -40, -50,
+  -40, -20, 0, 0, 0, 0, -20, -40,
+  -30, 0, 10, 15, 15, 10, 0, -30,
+  -30, 5, 15, 20, 20, 15, 5, -30,
+  -30, 0, 15, 20, 20, 15, 0, -30,
+  -30, 5, 10, 15, 15, 10, 5, -30,
+  -40, -20, 0, 5, 5, 0, -20, -40,
+  -50, -40, -30, -30, -30, -30, -40, -50
+]
+
+const BISHOP_TABLE = [
+  -20, -10, -10, -10, -10, -10, -10, -20,
+  -10, 0, 0, 0, 0, 0, 0, -10,
+  -10, 0, 5, 10, 10, 5, 0, -10,
+  -10, 5, 5, 10, 10, 5, 5, -10,
+  -10, 0, 10, 10, 10, 10, 0, -10,
+  -10, 10, 10, 10, 10, 10, 10, -10,
+  -10, 5, 0, 0, 0, 0, 5, -10,
+  -20, -10, -10, -10, -10, -10, -10, -20
+]
+
+const ROOK_TABLE = [
+  0, 0, 0, 0, 0, 0, 0, 0,
+  5, 10, 10, 10, 10, 10, 10, 5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  0, 0, 0, 5, 5, 0, 0, 0
+]
+
+const QUEEN_TABLE = [
+  -20, -10, -10, -5, -5, -10, -10, -20,
+  -10, 0, 0, 0, 0, 0, 0, -10,
+  -10, 0, 5, 5, 5, 5, 0, -10,
+  -5, 0, 5, 5, 5, 5, 0, -5,
+  0, 0, 5, 5, 5, 5, 0, -5,
+  -10, 5, 5, 5, 5, 5, 0, -10,
+  -10, 0, 5, 0, 0, 0, 0, -10,
+  -20, -10, -10, -5, -5, -10, -10, -20
+]
+
+const KING_MIDDLEGAME_TABLE = [
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -20, -30, -30, -40, -40, -30, -30, -20,
+  -10, -20, -20, -20, -20, -20, -20, -10,
+  20, 20, 0, 0, 0, 0, 20, 20,
+  20, 30, 10, 0, 0, 10, 30, 20
+]
+
+const KING_ENDGAME_TABLE = [
+  -50, -40, -30, -20, -20, -30, -40, -50,
+  -30, -20, -10, 0, 0, -10, -20, -30,
+  -30, -10, 20, 30, 30, 20, -10, -30,
+  -30, -10, 30, 40, 40, 30, -10, -30,
+  -30, -10, 30, 40, 40, 30, -10, -30,
+  -30, -10, 20, 30, 30, 20, -10, -30,
+  -30, -30, 0, 0, 0, 0, -30, -30,
+  -50, -30, -30, -30, -30, -30, -30, -50
+]
+
+const PIECE_TABLES = [[], PAWN_TABLE, KNIGHT_TABLE, BISHOP_TABLE, ROOK_TABLE, QUEEN_TABLE, KING_MIDDLEGAME_TABLE]
+
+// Game phase weight of each piece type; 24 means all pieces are on the board
+const PHASE_WEIGHTS = [0, 0, 1, 1, 2, 4, 0]
+const MAX_PHASE = 24
+
+const BISHOP_PAIR_BONUS = 30
+
+// Static evaluation in centipawns from the side to move's point of view
+export const evaluate = (position: Position): number => {
+  const board = position.board
+  const bishops = [0, 0]
+  let score = 0
+  let phase = 0
+  let kingMiddlegame = 0
+  let kingEndgame = 0
+
+  for (let square = 0; square < 128; square++) {
+    if (!isOnBoard(square)) {
+      square += 7
+      continue
+    }
+    const piece = board[square]
+    if (!piece) continue
+
+    const type = pieceType(piece)
+    const color = pieceColor(piece)
+    const sign = color === WHITE ? 1 : -1
+    // Mirror the table vertically for Black
+    const row = square >> 4
+    const index = (color === WHITE ? row : 7 - row) * 8 + (square & 7)
+
+    phase += PHASE_WEIGHTS[type]
+    if (type === BISHOP) bishops[color >> 3]++
+
+    if (type === KING) {
+      kingMiddlegame += sign * KING_MIDDLEGAME_TABLE[index]
+      kingEndgame += sign * KING_ENDGAME_TABLE[index]
+    } else {
+      score += sign * (PIECE_VALUES[type] + PIECE_TABLES[type][index])
+    }
+  }
+
+  // Blend king placement between middlegame and endgame by material left
+  const clampedPhase = Math.min(phase, MAX_PHASE)
+  score += Math.round((kingMiddlegame * clampedPhase + kingEndgame * (MAX_PHASE - clampedPhase)) / MAX_PHASE)
+
+  if (bishops[0] >= 2) score += BISHOP_PAIR_BONUS
+  if (bishops[1] >= 2) score -= BISHOP_PAIR_BONUS
+
+  return position.turn === WHITE ? score : -score
+}
+
+// Neither side has enough material to mate (K vs K, K + minor vs K)
+export const isInsufficientMaterial = (position: Position): boolean => {
+  let minors = 0
+  for (let square = 0; square < 128; square++) {
+    if (!isOnBoard(square)) {
+      square += 7
+      continue
+    }
+    const type = pieceType(position.board[square])
+    if (type === PAWN || type === ROOK || type === QUEEN) return false
+    if (type === KNIGHT || type === BISHOP) minors++
+  }
+  return minors <= 1
+}
@@ -0,0 +1,48 @@
+import { moveToUci } from './board'
+import { loadPosition, searchPosition, SearchOptions, SearchResult } from './search'
+import { bestTablebaseMove } from './tablebase'
+import { DifficultyLevel, MistakeType, difficultyLevels, rollMistake, pickRandom } from '@/lib/difficulty'
+
+// A move chosen at a difficulty level; bestMove is the move to play, which may be a deliberate mistake
+export interface EngineMoveResult extends SearchResult {
+  mistake: MistakeType | null
+  engineBestMove: string | null // what a full-strength choice at this depth would have been
+}
+
+// Choose a move for the AI at the given difficulty: search to the level's depth,
+// then play the second-best move for an inaccuracy or a random one for a blunder.
+// The mistake is rolled from the level's rates unless the caller already decided it.
+// Endgames the tablebase in the options covers are played perfectly at every level.
+export const playEngineMove = (
+  fen: string,
+  moves: string[] = [],
+  level: DifficultyLevel,
+  options: Omit<SearchOptions, 'maxDepth' | 'excludeMoves'> = {},
+  mistake: MistakeType | null = rollMistake(level)
+): EngineMoveResult => {
+  const { timeLimitMs = 1000, tablebase } = options
+  const maxDepth = difficultyLevels[level].maxDepth
+  if (mistake && tablebase && bestTablebaseMove(tablebase, loadPosition(fen, moves))) mistake = null
+
+  if (mistake === 'blunder') {
+    const position = loadPosition(fen, moves)
+    const legalMoves = position.legalMoves().map(moveToUci)
+    const move = pickRandom(legalMoves)
+    if (move) {
+      return { bestMove: move, engineBestMove: null, mistake, score: 0, mate: null, depth: 0, nodes: 0, timeMs: 0, pv: [move] }
+    }
+  }
+
+  // Leave time for a second search when playing an inaccuracy
+  const budget = mistake === 'inaccuracy' ? timeLimitMs / 2 : timeLimitMs
+  const best = searchPosition(fen, moves, { ...options, timeLimitMs: budget, maxDepth })
+
+  if (mistake === 'inaccuracy' && best.bestMove) {
+    const second = searchPosition(fen, moves, { timeLimitMs: budget, maxDepth, excludeMoves: [best.bestMove], tablebase })
+    if (second.bestMove && second.bestMove !== best.bestMove) {
+      return { ...second, engineBestMove: best.bestMove, mistake }
+    }
+  }
+
+  return { ...best, engineBestMove: best.bestMove, mistake: null }
+}
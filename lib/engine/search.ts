@@ -0,0 +1,426 @@
+import {
+  Position,
+  FLAG_CAPTURE,
+  FLAG_PROMOTION,
+  moveFrom,
+  moveTo,
+  moveFlags,
+  movePromotion,
+  moveToUci,
+  pieceType
+} from './board'
+import { PIECE_VALUES, evaluate, isInsufficientMaterial } from './evaluate'
+import { Tablebase, TablebaseResult, bestTablebaseMove, canProbeTablebase } from './tablebase'
+
+export interface SearchOptions {
+  timeLimitMs?: number // stop after this long (default 1000ms)
+  maxDepth?: number // stop after completing this depth (default 64)
+  excludeMoves?: string[] // root moves (UCI) not to consider, e.g. to find the second-best move
+  onInfo?: (info: SearchInfo) => void // called after every completed depth
+  tablebase?: Tablebase | null // endgame tables to probe, where the search runs beside them
+}
+
+// Progress report after each completed iteration
+export interface SearchInfo {
+  depth: number
+  score: number // centipawns from the side to move's point of view
+  mate: number | null // moves until mate; negative when the side to move is getting mated
+  nodes: number
+  timeMs: number
+  pv: string[] // principal variation in UCI notation
+  tablebase?: boolean // the score is a win, loss or draw proven by the endgame tablebase
+}
+
+export interface SearchResult extends SearchInfo {
+  bestMove: string | null // UCI notation ("e2e4", "e7e8q")
+}
+
+const INFINITY = 1000000
+const MATE_SCORE = 100000
+const MATE_THRESHOLD = MATE_SCORE - 1000
+const MAX_PLY = 128
+
+// Tablebase wins score below any mate and above anything the evaluation gives
+const TABLEBASE_WIN = MATE_THRESHOLD - 1000
+const TABLEBASE_THRESHOLD = TABLEBASE_WIN - 1000
+
+// Transposition table entry bounds
+const BOUND_EXACT = 0
+const BOUND_LOWER = 1
+const BOUND_UPPER = 2
+
+const TT_BITS = 18
+const TT_SIZE = 1 << TT_BITS
+const TT_MASK = TT_SIZE - 1
+
+// Fixed-size transposition table stored in typed arrays
+class TranspositionTable {
+  private keys = new Int32Array(TT_SIZE)
+  private moves = new Int32Array(TT_SIZE)
+  private scores = new Int32Array(TT_SIZE)
+  private depths = new Int8Array(TT_SIZE).fill(-1)
+  private bounds = new Uint8Array(TT_SIZE)
+
+  probe(position: Position): { move: number; score: number; depth: number; bound: number } | null {
+    const index = position.hashLo & TT_MASK
+    if (this.depths[index] < 0 || this.keys[index] !== position.hashHi) return null
+    return {
+      move: this.moves[index],
+      score: this.scores[index],
+      depth: this.depths[index],
+      bound: this.bounds[index]
+    }
+  }
+
+  store(position: Position, move: number, score: number, depth: number, bound: number): void {
+    const index = position.hashLo & TT_MASK
+    // Replace shallower entries, or anything from a different position
+    if (this.depths[index] > depth && this.keys[index] === position.hashHi) return
+    this.keys[index] = position.hashHi
+    this.moves[index] = move
+    this.scores[index] = score
+    this.depths[index] = depth
+    this.bounds[index] = bound
+  }
+}
+
+// Mate scores are stored relative to the node, not the root
+const scoreToTable = (score: number, ply: number): number => {
+  if (score > MATE_THRESHOLD) return score + ply
+  if (score < -MATE_THRESHOLD) return score - ply
+  return score
+}
+
+const scoreFromTable = (score: number, ply: number): number => {
+  if (score > MATE_THRESHOLD) return score - ply
+  if (score < -MATE_THRESHOLD) return score + ply
+  return score
+}
+
+// Score of a tablebase win (2), draw or loss (-2) for the side to move, `ply` plies from the
+// root; cursed wins and blessed losses are draws under the fifty-move rule
+const tablebaseScore = (wdl: number, ply: number): number => {
+  if (wdl === 2) return TABLEBASE_WIN - ply
+  if (wdl === -2) return -TABLEBASE_WIN + ply
+  return 0
+}
+
+// Score of the best move the tablebase found at the root, the sooner the capture or pawn
+// move that makes progress the better
+const rootTablebaseScore = ({ wdl, dtz }: TablebaseResult): number => {
+  if (wdl === 'win') return TABLEBASE_WIN - (dtz ?? 0)
+  if (wdl === 'loss') return -TABLEBASE_WIN + (dtz ?? 0)
+  return 0
+}
+
+// Whether a score is a tablebase win or loss rather than a mate or an evaluation
+const isTablebaseScore = (score: number): boolean =>
+  Math.abs(score) > TABLEBASE_THRESHOLD && Math.abs(score) <= MATE_THRESHOLD
+
+// Convert a mate score into full moves until mate
+export const mateDistance = (score: number): number | null => {
+  if (score > MATE_THRESHOLD) return Math.ceil((MATE_SCORE - score) / 2)
+  if (score < -MATE_THRESHOLD) return -Math.ceil((MATE_SCORE + score) / 2)
+  return null
+}
+
+class Searcher {
+  private nodes = 0
+  private deadline = 0
+  private startTime = 0
+  private stopped = false
+  private excludedMoves: number[] = []
+  private table = new TranspositionTable()
+  private killers: number[][] = Array.from({ length: MAX_PLY }, () => [0, 0])
+  private history = new Int32Array(16 * 128)
+  private tablebase: Tablebase | null = null
+
+  constructor(private position: Position) {}
+
+  search(options: SearchOptions): SearchResult {
+    const { timeLimitMs = 1000, maxDepth = 64, excludeMoves = [], onInfo, tablebase = null } = options
+    this.tablebase = tablebase
+    this.startTime = Date.now()
+    this.deadline = this.startTime + timeLimitMs
+
+    const legalMoves = this.position.legalMoves()
+    const allowedMoves = legalMoves.filter(move => excludeMoves.indexOf(moveToUci(move)) === -1)
+    // Excluding every legal move would leave nothing to play, so ignore the exclusions then
+    const rootMoves = allowedMoves.length > 0 ? allowedMoves : legalMoves
+    this.excludedMoves = legalMoves.filter(move => rootMoves.indexOf(move) === -1)
+    let result: SearchResult = {
+      bestMove: rootMoves.length > 0 ? moveToUci(rootMoves[0]) : null,
+      score: 0,
+      mate: null,
+      depth: 0,
+      nodes: 0,
+      timeMs: 0,
+      pv: []
+    }
+    if (legalMoves.length === 0) {
+      result.score = this.position.inCheck() ? -MATE_SCORE : 0
+      result.mate = this.position.inCheck() ? 0 : null
+      return result
+    }
+
+    // Endgames in the tablebase need no search
+    const tablebaseMove = tablebase && bestTablebaseMove(tablebase, this.position, rootMoves)
+    if (tablebaseMove) {
+      const score = rootTablebaseScore(tablebaseMove.result)
+      const bestMove = moveToUci(tablebaseMove.move)
+      result = { ...result, bestMove, score, timeMs: Date.now() - this.startTime, pv: [bestMove], tablebase: true }
+      onInfo?.({ ...result })
+      return result
+    }
+
+    // Iterative deepening: each completed depth seeds move ordering for the next
+    for (let depth = 1; depth <= Math.min(maxDepth, MAX_PLY - 1); depth++) {
+      let score: number
+      try {
+        score = this.negamax(depth, -INFINITY, INFINITY, 0, true)
+      } catch (error) {
+        // The search unwinds by throwing once the time budget runs out
+        if (this.stopped) break
+        throw error
+      }
+
+      const pv = this.principalVariation(depth)
+      result = {
+        bestMove: pv[0] ?? result.bestMove,
+        score,
+        mate: mateDistance(score),
+        depth,
+        nodes: this.nodes,
+        timeMs: Date.now() - this.startTime,
+        pv,
+        tablebase: isTablebaseScore(score) || undefined
+      }
+      onInfo?.({ ...result })
+
+      // A forced mate will not get any shorter, and time is nearly up anyway
+      if (result.mate !== null && Math.abs(result.mate) * 2 <= depth) break
+      if (Date.now() - this.startTime > timeLimitMs / 2) break
+    }
+
+    return { ...result, nodes: this.nodes, timeMs: Date.now() - this.startTime }
+  }
+
+  private checkTime(): void {
+    if ((++this.nodes & 2047) === 0 && Date.now() > this.deadline) {
+      this.stopped = true
+      throw new Error('Search time limit reached')
+    }
+  }
+
+  private negamax(depth: number, alpha: number, beta: number, ply: number, allowNull: boolean): number {
+    const position = this.position
+    this.checkTime()
+
+    if (ply > 0) {
+      if (position.halfmoveClock >= 100 || position.isRepetition() || isInsufficientMaterial(position)) {
+        return 0
+      }
+      // After a capture or pawn move the tablebase result stands whatever came before
+      const tablebase = this.tablebase
+      if (tablebase && position.halfmoveClock === 0 && canProbeTablebase(tablebase, position)) {
+        const wdl = tablebase.probeWdl(position)
+        if (wdl !== null) return tablebaseScore(wdl, ply)
+      }
+    }
+
+    const inCheck = position.inCheck()
+    // Check extension: never drop into quiescence while in check
+    if (inCheck) depth++
+    if (depth <= 0 || ply >= MAX_PLY - 1) return this.quiesce(alpha, beta, ply)
+
+    const isPvNode = beta - alpha > 1
+    const entry = this.table.probe(position)
+    let tableMove = 0
+    if (entry) {
+      tableMove = entry.move
+      if (ply > 0 && !isPvNode && entry.depth >= depth) {
+        const score = scoreFromTable(entry.score, ply)
+        if (entry.bound === BOUND_EXACT ||
+            (entry.bound === BOUND_LOWER && score >= beta) ||
+            (entry.bound === BOUND_UPPER && score <= alpha)) {
+          return score
+        }
+      }
+    }
+
+    // Null-move pruning: if passing still fails high, this node is not worth searching fully
+    if (allowNull && !inCheck && !isPvNode && depth >= 3 && ply > 0 &&
+        position.hasNonPawnMaterial(position.turn) && evaluate(position) >= beta) {
+      position.makeNullMove()
+      const score = -this.negamax(depth - 3, -beta, -beta + 1, ply + 1, false)
+      position.unmakeNullMove()
+      if (score >= beta) return beta
+    }
+
+    const moves = position.generateMoves()
+    const scores = this.scoreMoves(moves, tableMove, ply)
+    const originalAlpha = alpha
+    let bestScore = -INFINITY
+    let bestMove = 0
+    let legalMoves = 0
+
+    for (let i = 0; i < moves.length; i++) {
+      const move = this.pickMove(moves, scores, i)
+      if (ply === 0 && this.excludedMoves.indexOf(move) !== -1) continue
+      if (!position.makeMove(move)) continue
+      legalMoves++
+
+      // Principal variation search: full window for the first move, null window for the rest
+      let score: number
+      if (legalMoves === 1) {
+        score = -this.negamax(depth - 1, -beta, -alpha, ply + 1, true)
+      } else {
+        score = -this.negamax(depth - 1, -alpha - 1, -alpha, ply + 1, true)
+        if (score > alpha && score < beta) {
+          score = -this.negamax(depth - 1, -beta, -alpha, ply + 1, true)
+        }
+      }
+      position.unmakeMove()
+
+      if (score > bestScore) {
+        bestScore = score
+        bestMove = move
+      }
+      if (score > alpha) {
+        alpha = score
+      }
+      if (alpha >= beta) {
+        // Remember quiet moves that cause cutoffs for ordering sibling nodes
+        if (!(moveFlags(move) & FLAG_CAPTURE)) {
+          const killers = this.killers[ply]
+          if (killers[0] !== move) {
+            killers[1] = killers[0]
+            killers[0] = move
+          }
+          this.history[position.board[moveFrom(move)] * 128 + moveTo(move)] += depth * depth
+        }
+        break
+      }
+    }
+
+    if (legalMoves === 0) {
+      // Checkmate or stalemate
+      return inCheck ? -MATE_SCORE + ply : 0
+    }
+
+    const bound = bestScore >= beta ? BOUND_LOWER : bestScore > originalAlpha ? BOUND_EXACT : BOUND_UPPER
+    this.table.store(position, bestMove, scoreToTable(bestScore, ply), depth, bound)
+
+    return bestScore
+  }
+
+  // Quiescence search: resolve captures so the static evaluation is not taken mid-exchange
+  private quiesce(alpha: number, beta: number, ply: number): number {
+    const position = this.position
+    this.checkTime()
+
+    const standPat = evaluate(position)
+    if (standPat >= beta) return standPat
+    if (standPat > alpha) alpha = standPat
+    if (ply >= MAX_PLY - 1) return standPat
+
+    const moves = position.generateMoves(true)
+    const scores = this.scoreMoves(moves, 0, ply)
+
+    for (let i = 0; i < moves.length; i++) {
+      const move = this.pickMove(moves, scores, i)
+      if (!position.makeMove(move)) continue
+      const score = -this.quiesce(-beta, -alpha, ply + 1)
+      position.unmakeMove()
+
+      if (score >= beta) return score
+      if (score > alpha) alpha = score
+    }
+
+    return alpha
+  }
+
+  // Order moves: table move, captures by MVV-LVA, promotions, killers, then history
+  private scoreMoves(moves: number[], tableMove: number, ply: number): Int32Array {
+    const board = this.position.board
+    const killers = this.killers[ply]
+    const scores = new Int32Array(moves.length)
+
+    for (let i = 0; i < moves.length; i++) {
+      const move = moves[i]
+      const flags = moveFlags(move)
+      const attacker = board[moveFrom(move)]
+
+      if (move === tableMove) {
+        scores[i] = 10000000
+      } else if (flags & FLAG_CAPTURE) {
+        // Most valuable victim, least valuable attacker (en passant victims are pawns)
+        const victim = pieceType(board[moveTo(move)]) || 1
+        scores[i] = 1000000 + PIECE_VALUES[victim] * 10 - pieceType(attacker)
+      } else if (flags & FLAG_PROMOTION) {
+        scores[i] = 900000 + PIECE_VALUES[movePromotion(move)]
+      } else if (move === killers[0]) {
+        scores[i] = 800000
+      } else if (move === killers[1]) {
+        scores[i] = 700000
+      } else {
+        scores[i] = Math.min(this.history[attacker * 128 + moveTo(move)], 600000)
+      }
+    }
+
+    return scores
+  }
+
+  // Selection sort step: move the best remaining move to index i
+  private pickMove(moves: number[], scores: Int32Array, i: number): number {
+    let best = i
+    for (let j = i + 1; j < moves.length; j++) {
+      if (scores[j] > scores[best]) best = j
+    }
+    if (best !== i) {
+      const move = moves[i]
+      moves[i] = moves[best]
+      moves[best] = move
+      const score = scores[i]
+      scores[i] = scores[best]
+      scores[best] = score
+    }
+    return moves[i]
+  }
+
+  // Follow table moves from the root to recover the principal variation
+  private principalVariation(depth: number): string[] {
+    const position = this.position
+    const pv: string[] = []
+    let played = 0
+
+    while (played < depth) {
+      const entry = this.table.probe(position)
+      if (!entry || !entry.move) break
+      const move = position.legalMoves().find(legal => legal === entry.move)
+      if (!move || !position.makeMove(move)) break
+      pv.push(moveToUci(move))
+      played++
+      if (position.isRepetition()) break
+    }
+
+    for (; played > 0; played--) position.unmakeMove()
+    return pv
+  }
+}
+
+// Set up a position from FEN plus the UCI moves played from it, keeping them in the repetition history
+export const loadPosition = (fen: string, moves: string[] = []): Position => {
+  const position = Position.fromFEN(fen)
+  for (const uci of moves) {
+    const move = position.parseUciMove(uci)
+    if (move === null || !position.makeMove(move)) {
+      throw new Error(`Illegal move in search history: ${uci}`)
+    }
+  }
+  return position
+}
+
+// Search a position given as FEN plus the UCI moves played from it (used to spot repetitions)
+export const searchPosition = (fen: string, moves: string[] = [], options: SearchOptions = {}): SearchResult =>
+  new Searcher(loadPosition(fen, moves)).search(options)
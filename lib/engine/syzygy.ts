@@ -0,0 +1,743 @@
+import { openSync, readSync, readdirSync } from 'fs'
+import path from 'path'
+import { BLACK, FLAG_CAPTURE, PAWN, Position, moveFlags, moveFrom, pieceType } from './board'
+import { TABLEBASE_MAX_PIECES, Tablebase } from './tablebase'
+
+// Reader for Syzygy endgame tablebases (.rtbw win/draw/loss and .rtbz distance-to-zero
+// files), following the format as Stockfish's tbprobe reads it. A position is turned into
+// an index within its table: the pieces are mirrored so the leading piece or pawn sits in a
+// small corner of the board, and each group of like pieces is numbered by the squares it
+// takes. The value at that index is found in blocks compressed by recursive pairing and
+// canonical Huffman codes. Files are read a page at a time as probes need them.
+
+// Squares here are numbered 0-63 from a1 to h8; pieces use the engine's codes, white 1-6 and black 9-14
+const fileOf = (square: number): number => square & 7
+const rankOf = (square: number): number => square >> 3
+// Which side of the a1-h8 diagonal a square is on: negative below, 0 on it, positive above
+const offDiagonal = (square: number): number => rankOf(square) - fileOf(square)
+const flipDiagonal = (square: number): number => ((square >> 3) | (square << 3)) & 63
+
+// BINOMIAL[k][n]: ways to choose k of n squares
+const BINOMIAL = Array.from({ length: 6 }, () => new Array<number>(64).fill(0))
+BINOMIAL[0][0] = 1
+for (let n = 1; n < 64; n++) {
+  for (let k = 0; k < 6 && k <= n; k++) {
+    BINOMIAL[k][n] = (k > 0 ? BINOMIAL[k - 1][n - 1] : 0) + (k < n ? BINOMIAL[k][n - 1] : 0)
+  }
+}
+
+// Squares below the a1-h8 diagonal numbered 0-27
+const MAP_B1H1H7 = new Array<number>(64).fill(0)
+// Squares of the a1-d1-d4 triangle numbered 0-9, those on the diagonal last
+const MAP_A1D1D4 = new Array<number>(64).fill(0)
+{
+  let code = 0
+  for (let square = 0; square < 64; square++) {
+    if (offDiagonal(square) < 0) MAP_B1H1H7[square] = code++
+  }
+  code = 0
+  const diagonal: number[] = []
+  for (let square = 0; square <= 27; square++) {
+    if (offDiagonal(square) < 0 && fileOf(square) <= 3) MAP_A1D1D4[square] = code++
+    else if (offDiagonal(square) === 0 && fileOf(square) <= 3) diagonal.push(square)
+  }
+  for (const square of diagonal) MAP_A1D1D4[square] = code++
+}
+
+// The 462 placements of two kings with the first in the a1-d1-d4 triangle, and the second
+// not above the diagonal when the first is on it; both on the diagonal come last
+const MAP_KK = Array.from({ length: 10 }, () => new Array<number>(64).fill(0))
+{
+  const adjacent = (a: number, b: number) => Math.abs(fileOf(a) - fileOf(b)) <= 1 && Math.abs(rankOf(a) - rankOf(b)) <= 1
+  const bothOnDiagonal: [number, number][] = []
+  let code = 0
+  for (let index = 0; index < 10; index++) {
+    for (let first = 0; first <= 27; first++) {
+      if (MAP_A1D1D4[first] !== index || (index === 0 && first !== 1)) continue
+      for (let second = 0; second < 64; second++) {
+        if (adjacent(first, second)) continue
+        if (!offDiagonal(first) && offDiagonal(second) > 0) continue
+        if (!offDiagonal(first) && !offDiagonal(second)) bothOnDiagonal.push([index, second])
+        else MAP_KK[index][second] = code++
+      }
+    }
+  }
+  for (const [index, second] of bothOnDiagonal) MAP_KK[index][second] = code++
+}
+
+// Pawn squares a2-h7 numbered from 47 down, edge files and low ranks highest: the pawn with
+// the highest number leads. LEAD_PAWN_INDEX and LEAD_PAWNS_SIZE number the placements of the
+// leading pawns on each of the files a-d.
+const MAP_PAWNS = new Array<number>(64).fill(0)
+const LEAD_PAWN_INDEX = Array.from({ length: 6 }, () => new Array<number>(64).fill(0))
+const LEAD_PAWNS_SIZE = Array.from({ length: 6 }, () => new Array<number>(4).fill(0))
+{
+  let available = 47
+  for (let count = 1; count <= 5; count++) {
+    for (let file = 0; file < 4; file++) {
+      let index = 0
+      for (let rank = 1; rank <= 6; rank++) {
+        const square = rank * 8 + file
+        if (count === 1) {
+          MAP_PAWNS[square] = available--
+          MAP_PAWNS[square ^ 7] = available--
+        }
+        LEAD_PAWN_INDEX[count][square] = index
+        index += BINOMIAL[count - 1][MAP_PAWNS[square]]
+      }
+      LEAD_PAWNS_SIZE[count][file] = index
+    }
+  }
+}
+
+const WDL_MAGIC = [0x71, 0xe8, 0x23, 0x5d]
+const DTZ_MAGIC = [0xd7, 0x66, 0x0c, 0xa5]
+
+// Flags of a compressed table
+const FLAG_STM = 1 // a DTZ table's side to move
+const FLAG_MAPPED = 2
+const FLAG_WIN_PLIES = 4
+const FLAG_LOSS_PLIES = 8
+const FLAG_WIDE = 16
+const FLAG_SINGLE_VALUE = 128
+
+const MASK_64 = (BigInt(1) << BigInt(64)) - BigInt(1)
+
+// File pages read so far, least recently used first, shared by every open table
+const PAGE_SIZE = 1 << 16
+const MAX_CACHED_PAGES = 1024
+const pageCache = new Map<number, Buffer>()
+let fileCount = 0
+
+interface TableFile {
+  u8(offset: number): number
+  u16(offset: number): number // little-endian
+  u32(offset: number): number
+  u32be(offset: number): number
+}
+
+const openTableFile = (filePath: string): TableFile => {
+  const descriptor = openSync(filePath, 'r')
+  const pageKey = fileCount++ * 2 ** 24
+  let lastIndex = -1
+  let lastPage: Buffer | null = null
+
+  const u8 = (offset: number): number => {
+    const index = Math.floor(offset / PAGE_SIZE)
+    if (index !== lastIndex) {
+      const key = pageKey + index
+      let page = pageCache.get(key)
+      if (page) {
+        pageCache.delete(key)
+      } else {
+        page = Buffer.alloc(PAGE_SIZE)
+        readSync(descriptor, page, 0, PAGE_SIZE, index * PAGE_SIZE)
+        if (pageCache.size >= MAX_CACHED_PAGES) pageCache.delete(pageCache.keys().next().value!)
+      }
+      pageCache.set(key, page)
+      lastIndex = index
+      lastPage = page
+    }
+    return lastPage![offset - index * PAGE_SIZE]
+  }
+
+  return {
+    u8,
+    u16: offset => u8(offset) | (u8(offset + 1) << 8),
+    u32: offset => (u8(offset) | (u8(offset + 1) << 8) | (u8(offset + 2) << 16)) + u8(offset + 3) * 2 ** 24,
+    u32be: offset => u8(offset) * 2 ** 24 + ((u8(offset + 1) << 16) | (u8(offset + 2) << 8) | u8(offset + 3))
+  }
+}
+
+// One compressed table: a side to move for a file of the leading pawn
+interface PairsData {
+  pieces: number[] // piece codes in the order they are encoded
+  groupLength: number[] // pieces in each group, 0 terminated
+  groupIndex: number[] // multiplier of each group's index; the last is the table size
+  flags: number
+  blockSize: number
+  span: number // values between sparse index entries
+  sparseIndexSize: number
+  blockLengthSize: number
+  numBlocks: number
+  minSymbolLength: number // or the value of every position in a single-value table
+  lowestSymbol: number // file offsets from here on
+  base64: bigint[]
+  symbolLength: number[] // values each symbol expands to, less one
+  btree: number
+  sparseIndex: number
+  blockLength: number
+  data: number
+  mapIndex: number[] // DTZ value maps for winning, losing, cursed and blessed positions
+}
+
+// Material of a table, read from its name: the first side as White
+interface Material {
+  name: string
+  pieceCount: number
+  hasPawns: boolean
+  hasUniquePieces: boolean
+  pawnCount: [number, number] // leading colour's pawns first
+  symmetric: boolean
+}
+
+interface Table {
+  file: TableFile
+  material: Material
+  pairs: PairsData[][] // by leading pawn file, then side to move
+  map: number // DTZ value maps
+}
+
+const PIECE_LETTERS = ' PNBRQK'
+
+const readMaterial = (name: string): Material => {
+  const [white, black] = name.split('v')
+  const count = (side: string, letter: string) => side.split('').filter(char => char === letter).length
+  const whitePawns = count(white, 'P')
+  const blackPawns = count(black, 'P')
+  const leadWhite = !blackPawns || (whitePawns > 0 && blackPawns >= whitePawns)
+  return {
+    name,
+    pieceCount: white.length + black.length,
+    hasPawns: whitePawns + blackPawns > 0,
+    hasUniquePieces: 'PNBRQ'.split('').some(letter => count(white, letter) === 1 || count(black, letter) === 1),
+    pawnCount: leadWhite ? [whitePawns, blackPawns] : [blackPawns, whitePawns],
+    symmetric: white === black
+  }
+}
+
+// Split a table's pieces into groups and size each group's share of the index
+const setGroups = (material: Material, d: PairsData, order: [number, number], file: number): void => {
+  let n = 0
+  let firstLength = material.hasPawns ? 0 : material.hasUniquePieces ? 3 : 2
+  d.groupLength = [1]
+  for (let i = 1; i < material.pieceCount; i++) {
+    if (--firstLength > 0 || d.pieces[i] === d.pieces[i - 1]) d.groupLength[n]++
+    else d.groupLength[++n] = 1
+  }
+  d.groupLength[++n] = 0
+
+  // Groups are multiplied in the order the table gives, not the order they are listed in
+  const bothPawns = material.hasPawns && material.pawnCount[1] > 0
+  let next = bothPawns ? 2 : 1
+  let freeSquares = 64 - d.groupLength[0] - (bothPawns ? d.groupLength[1] : 0)
+  let index = 1
+  d.groupIndex = []
+  for (let k = 0; next < n || k === order[0] || k === order[1]; k++) {
+    if (k === order[0]) {
+      d.groupIndex[0] = index
+      index *= material.hasPawns ? LEAD_PAWNS_SIZE[d.groupLength[0]][file] : material.hasUniquePieces ? 31332 : 462
+    } else if (k === order[1]) {
+      d.groupIndex[1] = index
+      index *= BINOMIAL[d.groupLength[1]][48 - d.groupLength[0]]
+    } else {
+      d.groupIndex[next] = index
+      index *= BINOMIAL[d.groupLength[next]][freeSquares]
+      freeSquares -= d.groupLength[next++]
+    }
+  }
+  d.groupIndex[n] = index
+}
+
+// Values a symbol expands to, less one, following its pair of symbols down the tree
+const setSymbolLength = (file: TableFile, d: PairsData, symbol: number, visited: boolean[]): number => {
+  visited[symbol] = true
+  const entry = d.btree + 3 * symbol
+  const right = (file.u8(entry + 2) << 4) | (file.u8(entry + 1) >> 4)
+  if (right === 0xfff) return 0
+  const left = ((file.u8(entry + 1) & 0xf) << 8) | file.u8(entry)
+  if (!visited[left]) d.symbolLength[left] = setSymbolLength(file, d, left, visited)
+  if (!visited[right]) d.symbolLength[right] = setSymbolLength(file, d, right, visited)
+  return d.symbolLength[left] + d.symbolLength[right] + 1
+}
+
+// Read a table's compression parameters; returns the offset after them
+const setSizes = (file: TableFile, d: PairsData, offset: number): number => {
+  d.flags = file.u8(offset++)
+  if (d.flags & FLAG_SINGLE_VALUE) {
+    d.numBlocks = d.blockLengthSize = d.span = d.sparseIndexSize = 0
+    d.minSymbolLength = file.u8(offset++)
+    return offset
+  }
+
+  const tableSize = d.groupIndex[d.groupLength.indexOf(0)]
+  d.blockSize = 2 ** file.u8(offset++)
+  d.span = 2 ** file.u8(offset++)
+  d.sparseIndexSize = Math.ceil(tableSize / d.span)
+  const padding = file.u8(offset++)
+  d.numBlocks = file.u32(offset)
+  offset += 4
+  d.blockLengthSize = d.numBlocks + padding
+  const maxSymbolLength = file.u8(offset++)
+  d.minSymbolLength = file.u8(offset++)
+  d.lowestSymbol = offset
+
+  // Canonical Huffman codes: longer codes have lower values, so each length's lowest code,
+  // padded to 64 bits, bounds the codes of that length from below
+  const lengths = maxSymbolLength - d.minSymbolLength + 1
+  d.base64 = new Array<bigint>(lengths).fill(BigInt(0))
+  for (let i = lengths - 2; i >= 0; i--) {
+    const sum = d.base64[i + 1] + BigInt(file.u16(d.lowestSymbol + 2 * i)) - BigInt(file.u16(d.lowestSymbol + 2 * i + 2))
+    d.base64[i] = sum / BigInt(2)
+  }
+  for (let i = 0; i < lengths; i++) {
+    d.base64[i] = (d.base64[i] << BigInt(64 - i - d.minSymbolLength)) & MASK_64
+  }
+  offset += lengths * 2
+
+  const symbols = file.u16(offset)
+  offset += 2
+  d.btree = offset
+  d.symbolLength = new Array<number>(symbols).fill(0)
+  const visited = new Array<boolean>(symbols).fill(false)
+  for (let symbol = 0; symbol < symbols; symbol++) {
+    if (!visited[symbol]) d.symbolLength[symbol] = setSymbolLength(file, d, symbol, visited)
+  }
+  return offset + symbols * 3 + (symbols & 1)
+}
+
+// Read the maps from stored DTZ values to plies or moves; returns the offset after them
+const setDtzMap = (file: TableFile, table: Table, offset: number): number => {
+  table.map = offset
+  for (const [d] of table.pairs) {
+    if (!(d.flags & FLAG_MAPPED)) continue
+    if (d.flags & FLAG_WIDE) {
+      offset += offset & 1
+      for (let i = 0; i < 4; i++) {
+        d.mapIndex[i] = (offset - table.map) / 2 + 1
+        offset += 2 + 2 * file.u16(offset)
+      }
+    } else {
+      for (let i = 0; i < 4; i++) {
+        d.mapIndex[i] = offset - table.map + 1
+        offset += 1 + file.u8(offset)
+      }
+    }
+  }
+  return offset + (offset & 1)
+}
+
+const readTable = (filePath: string, material: Material, dtz: boolean): Table => {
+  const file = openTableFile(filePath)
+  const magic = dtz ? DTZ_MAGIC : WDL_MAGIC
+  if (magic.some((byte, i) => file.u8(i) !== byte)) {
+    throw new Error(`${filePath} is not a Syzygy ${dtz ? 'DTZ' : 'WDL'} table`)
+  }
+
+  const split = (file.u8(4) & 1) !== 0
+  const sides = !dtz && split ? 2 : 1
+  const files = material.hasPawns ? 4 : 1
+  const bothPawns = material.hasPawns && material.pawnCount[1] > 0
+  const table: Table = { file, material, pairs: [], map: 0 }
+  let offset = 5
+
+  for (let f = 0; f < files; f++) {
+    const orderByte = file.u8(offset)
+    const pawnOrderByte = bothPawns ? file.u8(offset + 1) : 0xff
+    const orders: [number, number][] = [[orderByte & 0xf, pawnOrderByte & 0xf], [orderByte >> 4, pawnOrderByte >> 4]]
+    offset += bothPawns ? 2 : 1
+    const pairs = Array.from({ length: sides }, () => ({ pieces: [] as number[], mapIndex: [0, 0, 0, 0] }) as PairsData)
+    for (let k = 0; k < material.pieceCount; k++, offset++) {
+      const byte = file.u8(offset)
+      pairs.forEach((d, side) => d.pieces.push(side ? byte >> 4 : byte & 0xf))
+    }
+    pairs.forEach((d, side) => setGroups(material, d, orders[side], f))
+    table.pairs.push(pairs)
+  }
+  offset += offset & 1
+
+  for (const pairs of table.pairs) for (const d of pairs) offset = setSizes(file, d, offset)
+  if (dtz) offset = setDtzMap(file, table, offset)
+  for (const pairs of table.pairs) {
+    for (const d of pairs) {
+      d.sparseIndex = offset
+      offset += d.sparseIndexSize * 6
+    }
+  }
+  for (const pairs of table.pairs) {
+    for (const d of pairs) {
+      d.blockLength = offset
+      offset += d.blockLengthSize * 2
+    }
+  }
+  for (const pairs of table.pairs) {
+    for (const d of pairs) {
+      offset = Math.ceil(offset / 64) * 64
+      d.data = offset
+      offset += d.numBlocks * d.blockSize
+    }
+  }
+  return table
+}
+
+// The stored value at an index of a compressed table
+const decompressPairs = (file: TableFile, d: PairsData, index: number): number => {
+  if (d.flags & FLAG_SINGLE_VALUE) return d.minSymbolLength
+
+  // The sparse index gives the block and offset of every span-th value; step from there
+  const k = Math.floor(index / d.span)
+  let block = file.u32(d.sparseIndex + 6 * k)
+  let offset = file.u16(d.sparseIndex + 6 * k + 4) + (index % d.span) - d.span / 2
+  while (offset < 0) offset += file.u16(d.blockLength + 2 * --block) + 1
+  while (offset > file.u16(d.blockLength + 2 * block)) offset -= file.u16(d.blockLength + 2 * block++) + 1
+
+  // Decode symbols from the start of the block until one covers the offset
+  let pointer = d.data + block * d.blockSize
+  let buffer = (BigInt(file.u32be(pointer)) << BigInt(32)) | BigInt(file.u32be(pointer + 4))
+  pointer += 8
+  let bufferSize = 64
+  let symbol: number
+  for (;;) {
+    let length = 0
+    while (buffer < d.base64[length]) length++
+    symbol = Number((buffer - d.base64[length]) >> BigInt(64 - length - d.minSymbolLength))
+    symbol += file.u16(d.lowestSymbol + 2 * length)
+    if (offset < d.symbolLength[symbol] + 1) break
+    offset -= d.symbolLength[symbol] + 1
+    length += d.minSymbolLength
+    buffer = (buffer << BigInt(length)) & MASK_64
+    bufferSize -= length
+    if (bufferSize <= 32) {
+      bufferSize += 32
+      buffer |= BigInt(file.u32be(pointer)) << BigInt(64 - bufferSize)
+      pointer += 4
+    }
+  }
+
+  // Expand the symbol's pairs down to the single value at the offset
+  while (d.symbolLength[symbol]) {
+    const entry = d.btree + 3 * symbol
+    const left = ((file.u8(entry + 1) & 0xf) << 8) | file.u8(entry)
+    if (offset < d.symbolLength[left] + 1) {
+      symbol = left
+    } else {
+      offset -= d.symbolLength[left] + 1
+      symbol = (file.u8(entry + 2) << 4) | (file.u8(entry + 1) >> 4)
+    }
+  }
+  const entry = d.btree + 3 * symbol
+  return ((file.u8(entry + 1) & 0xf) << 8) | file.u8(entry)
+}
+
+// Outcome of a probe besides its value, as in Stockfish
+const PROBE_FAIL = 0
+const PROBE_OK = 1
+const PROBE_CHANGE_STM = -1 // the DTZ table stores the other side to move
+const PROBE_ZEROING_BEST_MOVE = 2 // the best move is a capture or pawn move, so the table was not read
+
+interface ProbeState {
+  result: number
+}
+
+// WDL values from -2 to 2 map to the DTZ table's value maps
+const WDL_MAP_INDEX = [1, 3, 0, 2, 0]
+
+// Tables from the Syzygy files in `directories` (separated like PATH), opened as probes need them
+export const createSyzygyTablebase = (directories: string): Tablebase => {
+  // Table names ("KRvKP") with both WDL and DTZ files where they are
+  const wdlFiles = new Map<string, string>()
+  const dtzFiles = new Map<string, string>()
+  for (const directory of directories.split(path.delimiter).filter(Boolean)) {
+    for (const entry of readdirSync(directory)) {
+      const match = /^(K[PNBRQ]*vK[PNBRQ]*)\.rtb([wz])$/.exec(entry)
+      if (!match || match[1].length - 1 > TABLEBASE_MAX_PIECES) continue
+      const files = match[2] === 'w' ? wdlFiles : dtzFiles
+      if (!files.has(match[1])) files.set(match[1], path.join(directory, entry))
+    }
+  }
+  const maxPieces = Math.max(0, ...Array.from(wdlFiles.keys(), name => name.length - 1))
+
+  // Opened tables by name and type; null once a file failed to open
+  const tables = new Map<string, Table | null>()
+  const getTable = (name: string, dtz: boolean): Table | null => {
+    const key = dtz ? `${name}.rtbz` : `${name}.rtbw`
+    let table = tables.get(key)
+    if (table === undefined) {
+      const filePath = (dtz ? dtzFiles : wdlFiles).get(name)
+      try {
+        table = filePath ? readTable(filePath, readMaterial(name), dtz) : null
+      } catch (error) {
+        console.error(`Error reading Syzygy table ${filePath}:`, error)
+        table = null
+      }
+      tables.set(key, table)
+    }
+    return table
+  }
+
+  // Look the position up in its table, without searching captures first
+  const probeTable = (position: Position, state: ProbeState, dtz: boolean, wdl = 0): number => {
+    if (position.pieceCount === 2) return 0
+
+    // Pieces on the board by square, and each side's material as it appears in table names
+    const boardPieces: number[] = []
+    const boardSquares: number[] = []
+    const counts = new Array<number>(16).fill(0)
+    for (let square64 = 0; square64 < 64; square64++) {
+      const piece = position.board[(7 - rankOf(square64)) * 16 + fileOf(square64)]
+      if (!piece) continue
+      boardPieces.push(piece)
+      boardSquares.push(square64)
+      counts[piece]++
+    }
+    const sideName = (color: number) =>
+      'KQRBNP'.split('').map(letter => letter.repeat(counts[PIECE_LETTERS.indexOf(letter) | color])).join('')
+    const whiteName = sideName(0)
+    const blackName = sideName(BLACK)
+
+    // Tables are stored with the stronger side as White; otherwise swap the colours, and
+    // with the same material on both sides, only White to move is stored
+    let name = `${whiteName}v${blackName}`
+    let blackStronger = false
+    if (!(dtz ? dtzFiles : wdlFiles).has(name)) {
+      name = `${blackName}v${whiteName}`
+      blackStronger = true
+    }
+    const table = getTable(name, dtz)
+    if (!table) {
+      state.result = PROBE_FAIL
+      return 0
+    }
+    const { file, material } = table
+    const flip = blackStronger || (material.symmetric && position.turn === BLACK)
+    const flipColor = flip ? 8 : 0
+    const flipSquares = flip ? 56 : 0
+    const stm = (flip ? 1 : 0) ^ (position.turn === BLACK ? 1 : 0)
+
+    // Leading pawns first, the one with the highest MAP_PAWNS leading
+    const squares: number[] = []
+    const pieces: number[] = []
+    let leadPawns = 0
+    let leadPiece = 0
+    let tableFile = 0
+    if (material.hasPawns) {
+      leadPiece = table.pairs[0][0].pieces[0] ^ flipColor
+      boardPieces.forEach((piece, i) => {
+        if (piece === leadPiece) {
+          squares.push(boardSquares[i] ^ flipSquares)
+          pieces.push(piece ^ flipColor)
+        }
+      })
+      leadPawns = squares.length
+      let lead = 0
+      for (let i = 1; i < leadPawns; i++) {
+        if (MAP_PAWNS[squares[i]] > MAP_PAWNS[squares[lead]]) lead = i
+      }
+      ;[squares[0], squares[lead]] = [squares[lead], squares[0]]
+      tableFile = Math.min(fileOf(squares[0]), 7 - fileOf(squares[0]))
+    }
+
+    const pairs = table.pairs[tableFile]
+    if (dtz && (pairs[0].flags & FLAG_STM) !== stm && !(material.symmetric && !material.hasPawns)) {
+      state.result = PROBE_CHANGE_STM
+      return 0
+    }
+
+    boardPieces.forEach((piece, i) => {
+      if (leadPawns > 0 && piece === leadPiece) return
+      squares.push(boardSquares[i] ^ flipSquares)
+      pieces.push(piece ^ flipColor)
+    })
+    const d = pairs[stm % pairs.length]
+
+    // Order the pieces as the table encodes them
+    for (let i = leadPawns; i < squares.length - 1; i++) {
+      for (let j = i + 1; j < squares.length; j++) {
+        if (d.pieces[i] === pieces[j]) {
+          ;[pieces[i], pieces[j]] = [pieces[j], pieces[i]]
+          ;[squares[i], squares[j]] = [squares[j], squares[i]]
+          break
+        }
+      }
+    }
+
+    // Mirror the leading piece into files a-d
+    if (fileOf(squares[0]) > 3) {
+      for (let i = 0; i < squares.length; i++) squares[i] ^= 7
+    }
+
+    let index: number
+    if (material.hasPawns) {
+      index = LEAD_PAWN_INDEX[leadPawns][squares[0]]
+      const others = squares.slice(1, leadPawns).sort((a, b) => MAP_PAWNS[a] - MAP_PAWNS[b])
+      others.forEach((square, i) => {
+        squares[i + 1] = square
+        index += BINOMIAL[i + 1][MAP_PAWNS[square]]
+      })
+    } else {
+      // Without pawns, also mirror the leading piece into ranks 1-4 and below the diagonal
+      if (rankOf(squares[0]) > 3) {
+        for (let i = 0; i < squares.length; i++) squares[i] ^= 56
+      }
+      for (let i = 0; i < d.groupLength[0]; i++) {
+        if (!offDiagonal(squares[i])) continue
+        if (offDiagonal(squares[i]) > 0) {
+          for (let j = i; j < squares.length; j++) squares[j] = flipDiagonal(squares[j])
+        }
+        break
+      }
+
+      if (material.hasUniquePieces) {
+        // The first three pieces together
+        const adjust1 = squares[1] > squares[0] ? 1 : 0
+        const adjust2 = (squares[2] > squares[0] ? 1 : 0) + (squares[2] > squares[1] ? 1 : 0)
+        if (offDiagonal(squares[0])) {
+          index = (MAP_A1D1D4[squares[0]] * 63 + (squares[1] - adjust1)) * 62 + squares[2] - adjust2
+        } else if (offDiagonal(squares[1])) {
+          index = (6 * 63 + rankOf(squares[0]) * 28 + MAP_B1H1H7[squares[1]]) * 62 + squares[2] - adjust2
+        } else if (offDiagonal(squares[2])) {
+          index = 6 * 63 * 62 + 4 * 28 * 62 + rankOf(squares[0]) * 7 * 28 +
+            (rankOf(squares[1]) - adjust1) * 28 + MAP_B1H1H7[squares[2]]
+        } else {
+          index = 6 * 63 * 62 + 4 * 28 * 62 + 4 * 7 * 28 + rankOf(squares[0]) * 7 * 6 +
+            (rankOf(squares[1]) - adjust1) * 6 + (rankOf(squares[2]) - adjust2)
+        }
+      } else {
+        // Just the kings together
+        index = MAP_KK[MAP_A1D1D4[squares[0]]][squares[1]]
+      }
+    }
+
+    // The remaining groups, each numbered by its squares in ascending order, skipping
+    // squares taken by earlier groups (and the first and last ranks for pawns)
+    index *= d.groupIndex[0]
+    let start = d.groupLength[0]
+    let remainingPawns = material.hasPawns && material.pawnCount[1] > 0
+    for (let next = 1; d.groupLength[next]; next++) {
+      const length = d.groupLength[next]
+      const group = squares.slice(start, start + length).sort((a, b) => a - b)
+      let n = 0
+      group.forEach((square, i) => {
+        let adjust = 0
+        for (let j = 0; j < start; j++) if (square > squares[j]) adjust++
+        n += BINOMIAL[i + 1][square - adjust - (remainingPawns ? 8 : 0)]
+      })
+      remainingPawns = false
+      index += n * d.groupIndex[next]
+      start += length
+    }
+
+    const value = decompressPairs(file, d, index)
+    if (!dtz) return value - 2
+
+    // DTZ values may be mapped, and may count moves rather than plies
+    let plies = value
+    if (d.flags & FLAG_MAPPED) {
+      const mapIndex = d.mapIndex[WDL_MAP_INDEX[wdl + 2]] + value
+      plies = d.flags & FLAG_WIDE ? file.u16(table.map + 2 * mapIndex) : file.u8(table.map + mapIndex)
+    }
+    if ((wdl === 2 && !(d.flags & FLAG_WIN_PLIES)) || (wdl === -2 && !(d.flags & FLAG_LOSS_PLIES)) || wdl === 1 || wdl === -1) {
+      plies *= 2
+    }
+    return plies + 1
+  }
+
+  const isCapture = (move: number): boolean => (moveFlags(move) & FLAG_CAPTURE) !== 0
+  const isPawnMove = (position: Position, move: number): boolean => pieceType(position.board[moveFrom(move)]) === PAWN
+
+  // Win/draw/loss, searching captures (and pawn moves, for DTZ) first: the tables do not
+  // cover en passant, and leave out positions whose best move is a capture
+  const searchWdl = (position: Position, state: ProbeState, checkZeroingMoves: boolean): number => {
+    const moves = position.legalMoves()
+    let bestValue = -2
+    let moveCount = 0
+    for (const move of moves) {
+      if (!isCapture(move) && (!checkZeroingMoves || !isPawnMove(position, move))) continue
+      moveCount++
+      position.makeMove(move)
+      const value = -searchWdl(position, state, false)
+      position.unmakeMove()
+      if (state.result === PROBE_FAIL) return 0
+      if (value > bestValue) {
+        bestValue = value
+        if (value >= 2) {
+          state.result = PROBE_ZEROING_BEST_MOVE
+          return value
+        }
+      }
+    }
+
+    // With every legal move searched, the table is not needed, and may be wrong
+    const noMoreMoves = moveCount > 0 && moveCount === moves.length
+    let value = bestValue
+    if (!noMoreMoves) {
+      value = probeTable(position, state, false)
+      if (state.result === PROBE_FAIL) return 0
+    }
+    if (bestValue >= value) {
+      state.result = bestValue > 0 || noMoreMoves ? PROBE_ZEROING_BEST_MOVE : PROBE_OK
+      return bestValue
+    }
+    state.result = PROBE_OK
+    return value
+  }
+
+  const dtzBeforeZeroing = (wdl: number): number =>
+    wdl === 2 ? 1 : wdl === 1 ? 101 : wdl === -1 ? -101 : wdl === -2 ? -1 : 0
+
+  const searchDtz = (position: Position, state: ProbeState): number => {
+    state.result = PROBE_OK
+    const wdl = searchWdl(position, state, true)
+    if (state.result === PROBE_FAIL || wdl === 0) return 0
+    if (state.result === PROBE_ZEROING_BEST_MOVE) return dtzBeforeZeroing(wdl)
+
+    const dtz = probeTable(position, state, true, wdl)
+    if (state.result === PROBE_FAIL) return 0
+    if (state.result !== PROBE_CHANGE_STM) {
+      return (dtz + (wdl === 1 || wdl === -1 ? 100 : 0)) * Math.sign(wdl)
+    }
+
+    // The table stores the other side to move: take the best reply's DTZ, one ply on
+    state.result = PROBE_OK
+    let minDtz = 0xffff
+    for (const move of position.legalMoves()) {
+      const zeroing = isCapture(move) || isPawnMove(position, move)
+      position.makeMove(move)
+      let value = zeroing ? -dtzBeforeZeroing(searchWdl(position, state, false)) : -searchDtz(position, state)
+      if (value === 1 && position.inCheck() && position.legalMoves().length === 0) minDtz = 1
+      if (!zeroing) value += Math.sign(value)
+      if (value < minDtz && Math.sign(value) === Math.sign(wdl)) minDtz = value
+      position.unmakeMove()
+      if (state.result === PROBE_FAIL) return 0
+    }
+    return minDtz === 0xffff ? -1 : minDtz
+  }
+
+  const canProbe = (position: Position): boolean => position.pieceCount <= maxPieces && position.castling === 0
+
+  return {
+    maxPieces,
+
+    probeWdl: position => {
+      if (!canProbe(position)) return null
+      const state: ProbeState = { result: PROBE_OK }
+      const wdl = searchWdl(position, state, false)
+      return state.result === PROBE_FAIL ? null : wdl
+    },
+
+    probeDtz: position => {
+      if (!canProbe(position)) return null
+      const state: ProbeState = { result: PROBE_OK }
+      const dtz = searchDtz(position, state)
+      return state.result === PROBE_FAIL ? null : dtz
+    }
+  }
+}
+
+let syzygyTablebase: Tablebase | null | undefined
+
+// The tables in SYZYGY_PATH, or null when it is unset or names no tables. The directory is
+// listed once; files are opened and read as positions are probed.
+export const getSyzygyTablebase = (): Tablebase | null => {
+  if (syzygyTablebase === undefined) {
+    const directories = process.env.SYZYGY_PATH
+    try {
+      syzygyTablebase = directories ? createSyzygyTablebase(directories) : null
+    } catch (error) {
+      console.error(`Error reading Syzygy tables in ${directories}:`, error)
+      syzygyTablebase = null
+    }
+    if (syzygyTablebase && syzygyTablebase.maxPieces === 0) syzygyTablebase = null
+  }
+  return syzygyTablebase
+}
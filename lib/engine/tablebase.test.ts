@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { Position, WHITE } from './board'
+import { loadPosition } from './search'
+import { Tablebase, bestTablebaseMove, probeTablebase } from './tablebase'
+
+// Stands in for a KQvK table: White wins, 9 plies from a capture or pawn move with White to
+// move and 8 with Black to move, and bare kings draw
+const fakeTablebase: Tablebase = {
+  maxPieces: 3,
+  probeWdl: position => position.pieceCount === 2 ? 0 : position.turn === WHITE ? 2 : -2,
+  probeDtz: position => position.pieceCount === 2 ? 0 : position.turn === WHITE ? 9 : -8
+}
+
+const KQK = '8/8/8/3k4/8/8/8/KQ6 w - - 0 1'
+
+const uciMove = (position: Position, uci: string): number => position.parseUciMove(uci)!
+
+describe('bestTablebaseMove', () => {
+  it('plays a mate ahead of any other win', () => {
+    const position = Position.fromFEN('k7/8/1K6/8/8/8/8/Q7 w - - 0 1')
+    const best = bestTablebaseMove(fakeTablebase, position)!
+
+    expect(best.result).toEqual({ wdl: 'win', dtz: 1 })
+    position.makeMove(best.move)
+    expect(position.inCheck() && position.legalMoves().length === 0).toBe(true)
+  })
+
+  it('counts a move that repeats a position of the game as a draw', () => {
+    const position = loadPosition(KQK, ['b1b2', 'd5d6', 'b2b1', 'd6d5'])
+
+    expect(bestTablebaseMove(fakeTablebase, position, [uciMove(position, 'b1b2')])!.result).toEqual({ wdl: 'draw', dtz: null })
+    expect(bestTablebaseMove(fakeTablebase, position, [uciMove(position, 'b1c2')])!.result).toEqual({ wdl: 'win', dtz: 9 })
+  })
+
+  it('calls a win the fifty-move rule would stop cursed', () => {
+    const position = Position.fromFEN('8/8/8/3k4/8/8/8/KQ6 w - - 95 80')
+
+    expect(bestTablebaseMove(fakeTablebase, position)!.result).toEqual({ wdl: 'cursed-win', dtz: 9 })
+    expect(probeTablebase(fakeTablebase, position)).toEqual({ wdl: 'cursed-win', dtz: 9 })
+  })
+
+  it('gives no move where the tablebase has no answer', () => {
+    expect(bestTablebaseMove(fakeTablebase, Position.fromFEN('8/8/8/3k4/8/8/7P/KQ6 w - - 0 1'))).toBeNull()
+    const noDtz: Tablebase = { ...fakeTablebase, probeDtz: () => null }
+    expect(bestTablebaseMove(noDtz, Position.fromFEN(KQK))).toBeNull()
+  })
+})
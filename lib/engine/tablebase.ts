@@ -0,0 +1,101 @@
+import { Position } from './board'
+
+// Endgame tablebase the search can probe. Syzygy files are read by lib/engine/syzygy.ts on
+// the server; the search only sees this interface, so it also runs where there are no files.
+export interface Tablebase {
+  maxPieces: number // most pieces, kings included, in any table
+  // Win (2), cursed win (1), draw (0), blessed loss (-1) or loss (-2) for the side to move,
+  // as if the fifty-move counter were zero; null when no table covers the position
+  probeWdl(position: Position): number | null
+  // Plies to the next capture or pawn move with best play: positive when the side to move
+  // wins, negative when it loses, 0 for a draw, and 100 further from 0 for a cursed win or
+  // blessed loss; null when no table covers the position
+  probeDtz(position: Position): number | null
+}
+
+// Cursed wins and blessed losses are wins and losses that the fifty-move rule turns into draws
+export type TablebaseWdl = 'win' | 'cursed-win' | 'draw' | 'blessed-loss' | 'loss'
+
+// Exact result of a position from the tablebase, from the side to move's point of view
+export interface TablebaseResult {
+  wdl: TablebaseWdl
+  dtz: number | null // plies to the next capture or pawn move with best play; null for a draw or without DTZ tables
+}
+
+// Most pieces, kings included, that the tablebase is read for
+export const TABLEBASE_MAX_PIECES = 5
+
+const WDL_NAMES: TablebaseWdl[] = ['loss', 'blessed-loss', 'draw', 'cursed-win', 'win']
+
+// Ranks for root moves: wins above draws above losses
+const MAX_DTZ = 1 << 18
+
+// Whether the tablebase can know the position: few enough pieces and no castling rights
+export const canProbeTablebase = (tablebase: Tablebase, position: Position): boolean =>
+  position.pieceCount <= tablebase.maxPieces && position.castling === 0
+
+// DTZ of the position just before a winning, drawing or losing capture or pawn move
+const dtzBeforeZeroing = (wdl: number): number =>
+  wdl === 2 ? 1 : wdl === 1 ? 101 : wdl === -1 ? -101 : wdl === -2 ? -1 : 0
+
+// Result for a DTZ counted from a position `halfmoveClock` plies after the last capture or
+// pawn move; a win that the fifty-move rule would stop is cursed, and likewise for losses
+const resultFromDtz = (dtz: number, halfmoveClock: number): TablebaseResult => {
+  const plies = Math.abs(dtz) > 100 ? Math.abs(dtz) - 100 : Math.abs(dtz)
+  if (dtz > 0) return { wdl: dtz + halfmoveClock <= 99 ? 'win' : 'cursed-win', dtz: plies }
+  if (dtz < 0) return { wdl: -dtz + halfmoveClock <= 99 ? 'loss' : 'blessed-loss', dtz: plies }
+  return { wdl: 'draw', dtz: null }
+}
+
+// Look up the position, or null if the tablebase does not cover it. Without DTZ tables only
+// the win, draw or loss is known.
+export const probeTablebase = (tablebase: Tablebase, position: Position): TablebaseResult | null => {
+  if (!canProbeTablebase(tablebase, position)) return null
+  const wdl = tablebase.probeWdl(position)
+  if (wdl === null) return null
+  const dtz = wdl === 0 ? 0 : tablebase.probeDtz(position)
+  return dtz === null ? { wdl: WDL_NAMES[wdl + 2], dtz: null } : resultFromDtz(dtz, position.halfmoveClock)
+}
+
+// Best of the given legal moves by the tablebase: the move that reaches the next capture or
+// pawn move soonest when winning, and holds out longest when losing. The fifty-move counter
+// and the game's history count: a move that repeats a position is a draw. Null if the
+// tablebase does not cover the position or has no DTZ table for it.
+export const bestTablebaseMove = (
+  tablebase: Tablebase,
+  position: Position,
+  moves: number[] = position.legalMoves()
+): { move: number; result: TablebaseResult } | null => {
+  if (!canProbeTablebase(tablebase, position) || moves.length === 0) return null
+  const halfmoveClock = position.halfmoveClock
+  const repeated = position.isRepetition()
+  let best: { move: number; rank: number; dtz: number } | null = null
+
+  for (const move of moves) {
+    position.makeMove(move)
+    // DTZ counted from the position before the move
+    let dtz: number | null
+    if (position.halfmoveClock === 0) {
+      const wdl = tablebase.probeWdl(position)
+      dtz = wdl === null ? null : dtzBeforeZeroing(-wdl)
+    } else if (position.halfmoveClock >= 100 || position.isRepetition()) {
+      dtz = 0
+    } else {
+      const reply = tablebase.probeDtz(position)
+      dtz = reply === null ? null : reply < 0 ? 1 - reply : reply > 0 ? -reply - 1 : 0
+    }
+    const mates = dtz !== null && dtz > 0 && position.inCheck() && position.legalMoves().length === 0
+    position.unmakeMove()
+    if (dtz === null) return null
+
+    // Wins that beat the fifty-move rule rank first, the quickest first; then wins it may
+    // spoil, draws, losses it may save, and plain losses, the longest first
+    const rank = mates ? MAX_DTZ
+      : dtz > 0 ? (dtz + halfmoveClock <= 99 && !repeated ? MAX_DTZ - dtz : MAX_DTZ / 2 - (dtz + halfmoveClock))
+      : dtz < 0 ? (-dtz + halfmoveClock <= 99 ? -MAX_DTZ - dtz : -MAX_DTZ / 2 + (-dtz + halfmoveClock))
+      : 0
+    if (!best || rank > best.rank) best = { move, rank, dtz: mates ? 1 : dtz }
+  }
+
+  return best && { move: best.move, result: resultFromDtz(best.dtz, halfmoveClock) }
+}
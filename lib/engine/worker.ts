@@ -0,0 +1,37 @@
+import { searchPosition, SearchInfo, SearchResult } from './search'
+import { playEngineMove } from './play'
+import { DifficultyLevel } from '@/lib/difficulty'
+
+export interface EngineRequest {
+  id: number
+  fen: string
+  moves?: string[] // UCI moves played from fen
+  timeLimitMs?: number
+  maxDepth?: number
+  difficulty?: DifficultyLevel // choose a move to play at this level instead of a plain search
+}
+
+export type EngineResponse =
+  | { id: number; type: 'info'; info: SearchInfo }
+  | { id: number; type: 'result'; result: SearchResult }
+  | { id: number; type: 'error'; error: string }
+
+// The dom lib types `self` as Window, so describe the worker scope we actually use
+const ctx = self as unknown as {
+  addEventListener: (type: 'message', listener: (event: MessageEvent<EngineRequest>) => void) => void
+  postMessage: (message: EngineResponse) => void
+}
+
+ctx.addEventListener('message', (event) => {
+  const { id, fen, moves, timeLimitMs, maxDepth, difficulty } = event.data
+  const onInfo = (info: SearchInfo) => ctx.postMessage({ id, type: 'info', info })
+
+  try {
+    const result = difficulty
+      ? playEngineMove(fen, moves, difficulty, { timeLimitMs, onInfo })
+      : searchPosition(fen, moves, { timeLimitMs, maxDepth, onInfo })
+    ctx.postMessage({ id, type: 'result', result })
+  } catch (error) {
+    ctx.postMessage({ id, type: 'error', error: error instanceof Error ? error.message : String(error) })
+  }
+})
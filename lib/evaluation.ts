@@ -0,0 +1,72 @@
+import { PieceColor } from '@/lib/chess'
+import type { SearchInfo } from '@/lib/engine/search'
+import type { TablebaseResult } from '@/lib/engine/tablebase'
+
+// An engine evaluation of a position, always from White's point of view
+export interface PositionEval {
+  score: number // centipawns; a forced mate counts as ±MATE_EVAL and a tablebase win as ±TABLEBASE_EVAL
+  mate: number | null // moves until mate, positive when White mates; 0 once checkmated
+  depth: number
+  tablebase?: boolean // exact result from the endgame tablebase
+  dtz?: number // plies to the next capture or pawn move, for a tablebase win
+}
+
+export const MATE_EVAL = 10000
+export const TABLEBASE_EVAL = 9000
+
+// Evaluations beyond this many centipawns are drawn at the edge of the bar and graph
+export const EVAL_DISPLAY_LIMIT = 1000
+
+// Convert a search report (side to move's point of view) into White's point of view
+export const toPositionEval = (info: Pick<SearchInfo, 'score' | 'mate' | 'depth' | 'tablebase'>, sideToMove: PieceColor): PositionEval => {
+  const sign = sideToMove === 'white' ? 1 : -1
+  const tablebase = info.tablebase || undefined
+  if (tablebase && info.mate === null) return { score: sign * Math.sign(info.score) * TABLEBASE_EVAL, mate: null, depth: info.depth, tablebase }
+  if (info.mate === null) return { score: sign * info.score, mate: null, depth: info.depth, tablebase }
+
+  // Mate in 0 means the side to move is already checkmated
+  const whiteMates = info.mate === 0 ? sign < 0 : sign * info.mate > 0
+  return { score: whiteMates ? MATE_EVAL : -MATE_EVAL, mate: sign * info.mate, depth: info.depth, tablebase }
+}
+
+// Evaluation of a tablebase result for the side to move; cursed wins and blessed losses are draws
+export const fromTablebaseResult = ({ wdl, dtz }: TablebaseResult, sideToMove: PieceColor): PositionEval => {
+  const sign = (sideToMove === 'white' ? 1 : -1) * (wdl === 'win' ? 1 : wdl === 'loss' ? -1 : 0)
+  return { score: sign * TABLEBASE_EVAL, mate: null, depth: 0, tablebase: true, dtz: sign && dtz !== null ? dtz : undefined }
+}
+
+// Short text for an evaluation ("+1.25", "-0.40", "#3", "#-2", "1-0", "½" for a tablebase draw)
+export const formatEval = (evaluation: PositionEval): string => {
+  if (evaluation.mate === 0 || (evaluation.tablebase && evaluation.mate === null)) {
+    return evaluation.score > 0 ? '1-0' : evaluation.score < 0 ? '0-1' : '½'
+  }
+  if (evaluation.mate !== null) return `#${evaluation.mate}`
+  const pawns = evaluation.score / 100
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`
+}
+
+// Longer text for an evaluation ("Mate in 3 for White", "Tablebase win for Black", "+1.25 at depth 12")
+export const describeEval = (evaluation: PositionEval): string => {
+  if (evaluation.mate === 0) return `Checkmate, ${evaluation.score > 0 ? 'White' : 'Black'} wins`
+  const source = evaluation.tablebase ? ' (tablebase)' : ` at depth ${evaluation.depth}`
+  if (evaluation.mate !== null) {
+    return `Mate in ${Math.abs(evaluation.mate)} for ${evaluation.mate > 0 ? 'White' : 'Black'}${source}`
+  }
+  if (evaluation.tablebase) {
+    if (evaluation.score === 0) return 'Tablebase draw'
+    const progress = evaluation.dtz ? `, ${evaluation.dtz} plies to a capture or pawn move` : ''
+    return `Tablebase win for ${evaluation.score > 0 ? 'White' : 'Black'}${progress}`
+  }
+  return `${formatEval(evaluation)}${source}`
+}
+
+// Centipawns clamped for display, with mates at the limit
+export const displayScore = (evaluation: PositionEval): number =>
+  Math.max(-EVAL_DISPLAY_LIMIT, Math.min(EVAL_DISPLAY_LIMIT, evaluation.score))
+
+// White's share of the evaluation bar, from 0 to 1; even positions sit in the middle
+// and each extra pawn counts for less as the advantage grows
+export const whiteBarShare = (evaluation: PositionEval): number => {
+  if (evaluation.mate !== null) return evaluation.score > 0 ? 1 : 0
+  return 1 / (1 + Math.pow(10, -displayScore(evaluation) / 400))
+}
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { GameResult } from '@/types'
+import { SavedGame } from '@/lib/savedGame'
+import {
+  GameStorage,
+  SaveSlotStorage,
+  createFileGameStorage,
+  createFileSaveSlotStorage,
+  createMemoryGameStorage,
+  createMemorySaveSlotStorage
+} from '@/lib/gameStorage'
+
+const game = (date: string): GameResult => ({
+  pgn: '1. e4 *',
+  result: 'draw',
+  moves: ['e4'],
+  date,
+  playerColor: 'white',
+  finalFen: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1'
+})
+
+const savedGame: SavedGame = {
+  version: 3,
+  savedAt: '2024-03-09T12:00:00.000Z',
+  moves: ['e4'],
+  moveAnnotations: {},
+  humanColor: 'white',
+  colorChoice: 'white',
+  difficulty: 'casual',
+  engineTimeMs: 1000,
+  timeControlPreset: null,
+  timeControl: null,
+  clocks: { white: 0, black: 0 },
+  allowTakebacks: true,
+  allowHints: true,
+  hintsUsed: 0,
+  startedAt: 0
+}
+
+let directory: string
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'game-storage-'))
+})
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true })
+})
+
+// The same behaviour is expected of every game store
+const gameStores: [string, () => GameStorage][] = [
+  ['memory', () => createMemoryGameStorage()],
+  ['file', () => createFileGameStorage(path.join(directory, 'games.json'))]
+]
+
+describe.each(gameStores)('%s game storage', (_name, createStorage) => {
+  it('gives each saved game an id it can be fetched by', async () => {
+    const storage = createStorage()
+    const first = await storage.save(game('2024-01-01T00:00:00.000Z'))
+    const second = await storage.save(game('2024-01-01T00:00:00.000Z'))
+
+    expect(first.id).toBeTruthy()
+    expect(second.id).not.toBe(first.id)
+    expect(await storage.get(first.id!)).toEqual(first)
+    expect(await storage.get('missing')).toBeNull()
+  })
+
+  it('lists the newest games first, up to the limit', async () => {
+    const storage = createStorage()
+    const older = await storage.save(game('2024-01-01T00:00:00.000Z'))
+    const newer = await storage.save(game('2024-02-01T00:00:00.000Z'))
+    const sameDay = await storage.save(game('2024-01-01T00:00:00.000Z'))
+
+    expect(await storage.list()).toEqual([newer, sameDay, older])
+    expect(await storage.list(1)).toEqual([newer])
+  })
+})
+
+describe('file game storage', () => {
+  it('keeps games across instances and concurrent saves', async () => {
+    const filePath = path.join(directory, 'nested', 'games.json')
+    const storage = createFileGameStorage(filePath)
+    await Promise.all([1, 2, 3].map(day => storage.save(game(`2024-01-0${day}T00:00:00.000Z`))))
+
+    expect(await createFileGameStorage(filePath).list()).toHaveLength(3)
+  })
+})
+
+const saveSlotStores: [string, () => SaveSlotStorage][] = [
+  ['memory', () => createMemorySaveSlotStorage()],
+  ['file', () => createFileSaveSlotStorage(path.join(directory, 'saved-games.json'))]
+]
+
+describe.each(saveSlotStores)('%s save slot storage', (_name, createStorage) => {
+  it('writes, reads and removes a slot', async () => {
+    const storage = createStorage()
+    expect(await storage.read('slot')).toBeNull()
+
+    await storage.write('slot', savedGame)
+    expect(await storage.read('slot')).toEqual(savedGame)
+    expect(await storage.read('other')).toBeNull()
+
+    await storage.remove('slot')
+    expect(await storage.read('slot')).toBeNull()
+  })
+})
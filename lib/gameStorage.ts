@@ -0,0 +1,189 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { GameResult } from '@/types'
+import { SavedGame, parseSavedGame } from '@/lib/savedGame'
+import {
+  saveGameResult,
+  getGameResults,
+  getGameResult,
+  getSavedGame,
+  putSavedGame,
+  deleteSavedGame
+} from '@/lib/cosmic'
+
+// Where finished games are kept. Cosmic is used in production; the in-memory and
+// file-backed stores stand in for it in tests, local development and offline use.
+export interface GameStorage {
+  save: (game: GameResult) => Promise<GameResult> // resolves with the stored game, id included
+  list: (limit?: number) => Promise<GameResult[]> // most recent first
+  get: (id: string) => Promise<GameResult | null>
+}
+
+export const DEFAULT_GAME_LIST_LIMIT = 50
+
+export const cosmicGameStorage: GameStorage = {
+  save: saveGameResult,
+  list: getGameResults,
+  get: getGameResult
+}
+
+// Ids for games that are not stored in Cosmic
+const createGameId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+// Newest games first, by date and then by insertion order
+const newestFirst = (games: GameResult[], limit: number): GameResult[] =>
+  games
+    .map((game, index) => ({ game, index }))
+    .sort((a, b) => b.game.date.localeCompare(a.game.date) || b.index - a.index)
+    .slice(0, limit)
+    .map(({ game }) => game)
+
+export const createMemoryGameStorage = (initialGames: GameResult[] = []): GameStorage => {
+  const games = initialGames.map(game => ({ ...game, id: game.id ?? createGameId() }))
+
+  return {
+    save: async (game) => {
+      const stored = { ...game, id: createGameId() }
+      games.push(stored)
+      return stored
+    },
+    list: async (limit = DEFAULT_GAME_LIST_LIMIT) => newestFirst(games, limit),
+    get: async (id) => games.find(game => game.id === id) ?? null
+  }
+}
+
+// A JSON file read whole and rewritten on every change
+const createJsonFile = <T>(filePath: string, empty: T) => {
+  const read = async (): Promise<T> => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return empty
+      throw error
+    }
+  }
+
+  // Updates are chained so concurrent requests do not overwrite each other
+  let pendingWrite: Promise<unknown> = Promise.resolve()
+
+  const update = <R>(change: (contents: T) => { contents: T, result: R }): Promise<R> => {
+    const write = pendingWrite.then(async () => {
+      const { contents, result } = change(await read())
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(contents, null, 2))
+      return result
+    })
+    pendingWrite = write.catch(() => undefined)
+    return write
+  }
+
+  return { read, update }
+}
+
+// Keeps every game in one JSON file
+export const createFileGameStorage = (filePath: string): GameStorage => {
+  const file = createJsonFile<GameResult[]>(filePath, [])
+
+  return {
+    save: (game) => file.update(games => {
+      const stored = { ...game, id: createGameId() }
+      return { contents: [...games, stored], result: stored }
+    }),
+    list: async (limit = DEFAULT_GAME_LIST_LIMIT) => newestFirst(await file.read(), limit),
+    get: async (id) => (await file.read()).find(game => game.id === id) ?? null
+  }
+}
+
+// Server-side save slots holding one unfinished game each, for continuing on another device
+export interface SaveSlotStorage {
+  read: (slot: string) => Promise<SavedGame | null>
+  write: (slot: string, game: SavedGame) => Promise<void>
+  remove: (slot: string) => Promise<void>
+}
+
+export const cosmicSaveSlotStorage: SaveSlotStorage = {
+  read: async (slot) => parseSavedGame(await getSavedGame(slot)),
+  write: putSavedGame,
+  remove: deleteSavedGame
+}
+
+export const createMemorySaveSlotStorage = (): SaveSlotStorage => {
+  const slots = new Map<string, SavedGame>()
+
+  return {
+    read: async (slot) => slots.get(slot) ?? null,
+    write: async (slot, game) => {
+      slots.set(slot, game)
+    },
+    remove: async (slot) => {
+      slots.delete(slot)
+    }
+  }
+}
+
+// Keeps every slot in one JSON file
+export const createFileSaveSlotStorage = (filePath: string): SaveSlotStorage => {
+  const file = createJsonFile<Record<string, SavedGame>>(filePath, {})
+
+  return {
+    read: async (slot) => parseSavedGame((await file.read())[slot]),
+    write: (slot, game) => file.update(slots => ({ contents: { ...slots, [slot]: game }, result: undefined })),
+    remove: (slot) => file.update(slots => {
+      const { [slot]: _removed, ...rest } = slots
+      return { contents: rest, result: undefined }
+    })
+  }
+}
+
+// Directory for the file-backed stores
+const storageDirectory = (): string =>
+  process.env.GAME_STORAGE_FILE ? path.dirname(process.env.GAME_STORAGE_FILE) : path.join(process.cwd(), '.data')
+
+let gameStorage: GameStorage | null = null
+let saveSlotStorage: SaveSlotStorage | null = null
+
+// Storage chosen by GAME_STORAGE: 'cosmic' (default), 'memory' or 'file' (GAME_STORAGE_FILE)
+export const getGameStorage = (): GameStorage => {
+  if (!gameStorage) {
+    switch (process.env.GAME_STORAGE) {
+      case 'memory':
+        gameStorage = createMemoryGameStorage()
+        break
+      case 'file':
+        gameStorage = createFileGameStorage(process.env.GAME_STORAGE_FILE || path.join(storageDirectory(), 'games.json'))
+        break
+      default:
+        gameStorage = cosmicGameStorage
+    }
+  }
+  return gameStorage
+}
+
+// Use the given store from now on instead of the one GAME_STORAGE names, e.g. an
+// in-memory store in tests; null goes back to GAME_STORAGE
+export const setGameStorage = (storage: GameStorage | null): void => {
+  gameStorage = storage
+}
+
+// Save slots follow GAME_STORAGE too; the file store sits next to the games file
+export const getSaveSlotStorage = (): SaveSlotStorage => {
+  if (!saveSlotStorage) {
+    switch (process.env.GAME_STORAGE) {
+      case 'memory':
+        saveSlotStorage = createMemorySaveSlotStorage()
+        break
+      case 'file':
+        saveSlotStorage = createFileSaveSlotStorage(path.join(storageDirectory(), 'saved-games.json'))
+        break
+      default:
+        saveSlotStorage = cosmicSaveSlotStorage
+    }
+  }
+  return saveSlotStorage
+}
+
+// Use the given save slot store from now on instead of the one GAME_STORAGE names
+export const setSaveSlotStorage = (storage: SaveSlotStorage | null): void => {
+  saveSlotStorage = storage
+}
@@ -0,0 +1,27 @@
+import { GameResult } from '@/types'
+
+// Game length as "45s", "12m 05s" or "1h 02m"
+export const formatDuration = (seconds?: number): string => {
+  if (seconds === undefined) return '—'
+  const total = Math.max(0, Math.round(seconds))
+  const pad = (value: number) => String(value).padStart(2, '0')
+  if (total < 60) return `${total}s`
+  if (total < 3600) return `${Math.floor(total / 60)}m ${pad(total % 60)}s`
+  return `${Math.floor(total / 3600)}h ${pad(Math.floor(total / 60) % 60)}m`
+}
+
+// Outcome from the human player's point of view
+export const describeOutcome = (game: GameResult): 'Won' | 'Lost' | 'Draw' => {
+  if (game.result === 'draw') return 'Draw'
+  return game.result === game.playerColor ? 'Won' : 'Lost'
+}
+
+// Opening moves in move-number notation ("1. e4 e5 2. Nf3 Nc6")
+export const describeOpening = (moves: string[], plies: number = 6): string =>
+  moves
+    .slice(0, plies)
+    .map((san, index) => (index % 2 === 0 ? `${index / 2 + 1}. ${san}` : san))
+    .join(' ')
+
+// Full moves played, counting an unanswered white move
+export const countFullMoves = (moves: string[]): number => Math.ceil(moves.length / 2)
@@ -0,0 +1,38 @@
+import { Move, positionToSquare } from '@/lib/chess'
+
+// How much of the suggested move a hint shows: 1 the piece to move, 2 its target
+// square as well, 3 the full move with the idea behind it and the expected reply
+export type HintLevel = 1 | 2 | 3
+
+export const MAX_HINT_LEVEL: HintLevel = 3
+
+// A hint for the position on the board
+export interface Hint {
+  level: HintLevel
+  move: Move
+  explanation: string // the idea behind the move
+  expectedReply: string | null // opponent's likely answer in SAN, null if the move ends the game
+}
+
+// What each hint level tells the player
+export const describeHint = (hint: Hint): string => {
+  const piece = hint.move.piece.type
+  const from = positionToSquare(hint.move.from)
+  const to = positionToSquare(hint.move.to)
+  if (hint.level === 1) return `Move your ${piece} (purple square).`
+  if (hint.level === 2) return `Move your ${piece} from ${from} to ${to}.`
+  return `${hint.move.san}: ${hint.explanation}${hint.expectedReply ? ` Expected reply: ${hint.expectedReply}.` : ''}`
+}
+
+// Plain description of a move's idea, for when Cosmic AI cannot explain it
+export const describeMoveIdea = (move: Move): string => {
+  const to = positionToSquare(move.to)
+  if (move.san.endsWith('#')) return 'It delivers checkmate.'
+  const ideas: string[] = []
+  if (move.castling) ideas.push(`castles ${move.castling} to bring the king to safety and connect the rooks`)
+  if (move.promotion) ideas.push(`promotes the pawn to a ${move.promotion}`)
+  if (move.capturedPiece) ideas.push(`wins the ${move.capturedPiece.type} on ${to}`)
+  if (move.san.endsWith('+')) ideas.push('gives check and keeps the initiative')
+  if (ideas.length === 0) ideas.push(`improves your ${move.piece.type} by bringing it to ${to}`)
+  return `It ${ideas.join(' and ')}.`
+}
@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs'
+import { Chess } from 'chess.js'
+import { Move, createGame, getLegalMoves, positionKey, replayGame, toUciMove } from '@/lib/chess'
+
+// Book moves for each position, by positionKey; moves are UCI with relative weights
+export type OpeningBook = Map<string, Map<string, number>>
+
+export interface BookMove {
+  move: Move
+  weight: number
+}
+
+// Main lines of the common openings with how often each is chosen. Moves shared by
+// several lines add up, so popular first moves are played more often.
+const BUILT_IN_LINES: [string, number][] = [
+  ['e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6', 10], // Ruy Lopez
+  ['e4 e5 Nf3 Nc6 Bb5 Nf6 O-O Nxe4 d4 Nd6 Bxc6 dxc6 dxe5 Nf5', 5], // Berlin Defence
+  ['e4 e5 Nf3 Nc6 Bc4 Bc5 c3 Nf6 d3 d6 O-O O-O', 8], // Italian Game
+  ['e4 e5 Nf3 Nc6 Bc4 Nf6 d3 Be7 O-O O-O', 4], // Two Knights Defence
+  ['e4 e5 Nf3 Nc6 d4 exd4 Nxd4 Nf6 Nxc6 bxc6 e5 Qe7', 4], // Scotch Game
+  ['e4 e5 Nf3 Nf6 Nxe5 d6 Nf3 Nxe4 d4 d5 Bd3', 4], // Petrov Defence
+  ['e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Be3 e5 Nb3 Be6', 10], // Sicilian Najdorf
+  ['e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 Be3 Bg7 f3 O-O', 5], // Sicilian Dragon
+  ['e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5 Ndb5 d6', 5], // Sicilian Sveshnikov
+  ['e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6 Nc3 Qc7 Be2 a6', 5], // Sicilian Taimanov
+  ['e4 c5 c3 Nf6 e5 Nd5 d4 cxd4 Nf3 Nc6', 3], // Sicilian Alapin
+  ['e4 e6 d4 d5 Nc3 Nf6 Bg5 Be7 e5 Nfd7 Bxe7 Qxe7', 5], // French Classical
+  ['e4 e6 d4 d5 Nc3 Bb4 e5 c5 a3 Bxc3+ bxc3 Ne7', 3], // French Winawer
+  ['e4 e6 d4 d5 e5 c5 c3 Nc6 Nf3 Qb6', 3], // French Advance
+  ['e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5 Ng3 Bg6 h4 h6 Nf3 Nd7', 5], // Caro-Kann Classical
+  ['e4 c6 d4 d5 e5 Bf5 Nf3 e6 Be2 c5', 3], // Caro-Kann Advance
+  ['e4 d5 exd5 Qxd5 Nc3 Qa5 d4 Nf6 Nf3 c6', 2], // Scandinavian Defence
+  ['e4 d6 d4 Nf6 Nc3 g6 Nf3 Bg7 Be2 O-O O-O', 2], // Pirc Defence
+  ['d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7 e3 O-O Nf3 h6 Bh4 b6', 8], // Queen's Gambit Declined
+  ['d4 d5 c4 dxc4 Nf3 Nf6 e3 e6 Bxc4 c5 O-O a6', 4], // Queen's Gambit Accepted
+  ['d4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4 Bf5 e3 e6 Bxc4 Bb4', 6], // Slav Defence
+  ['d4 d5 Nf3 Nf6 Bf4 c5 e3 Nc6 c3 Qb6', 3], // London System
+  ['d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Nc6 d5 Ne7', 7], // King's Indian Defence
+  ['d4 Nf6 c4 e6 Nc3 Bb4 e3 O-O Bd3 d5 Nf3 c5 O-O', 6], // Nimzo-Indian Defence
+  ['d4 Nf6 c4 e6 Nf3 b6 g3 Ba6 b3 Bb4+ Bd2 Be7', 4], // Queen's Indian Defence
+  ['d4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5 e4 Nxc3 bxc3 Bg7 Nf3 c5', 4], // Grünfeld Defence
+  ['d4 Nf6 c4 e6 g3 d5 Bg2 Be7 Nf3 O-O O-O dxc4 Qc2 a6', 4], // Catalan Opening
+  ['d4 Nf6 c4 c5 d5 e6 Nc3 exd5 cxd5 d6 e4 g6 Nf3 Bg7', 2], // Modern Benoni
+  ['d4 f5 g3 Nf6 Bg2 e6 Nf3 Be7 O-O O-O c4 d6', 2], // Dutch Defence
+  ['c4 e5 Nc3 Nf6 Nf3 Nc6 g3 d5 cxd5 Nxd5 Bg2 Nb6', 4], // English Opening
+  ['c4 c5 Nf3 Nc6 Nc3 g6 g3 Bg7 Bg2 e6', 2], // Symmetrical English
+  ['Nf3 d5 g3 Nf6 Bg2 e6 O-O Be7 d3 O-O', 3] // Réti Opening
+]
+
+// Build a book from SAN lines played from the standard starting position
+export const buildOpeningBook = (lines: [string, number][]): OpeningBook => {
+  const book: OpeningBook = new Map()
+  for (const [line, weight] of lines) {
+    const game = createGame()
+    for (const san of line.split(' ')) {
+      const key = positionKey(game)
+      const move = game.move(san)
+      const uci = move.from + move.to + (move.promotion ?? '')
+      const moves = book.get(key) ?? new Map<string, number>()
+      moves.set(uci, (moves.get(uci) ?? 0) + weight)
+      book.set(key, moves)
+    }
+  }
+  return book
+}
+
+// Read a book in compact JSON, { "<position key>": { "<uci move>": weight } }, the position
+// key being the first four FEN fields; throws with the reason if it is malformed
+export const parseOpeningBook = (json: unknown): OpeningBook => {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new Error('An opening book must be an object of positions')
+  }
+  const book: OpeningBook = new Map()
+  for (const [key, entries] of Object.entries(json)) {
+    if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+      throw new Error(`Book position "${key}" must map moves to weights`)
+    }
+    const moves = new Map<string, number>()
+    for (const [uci, weight] of Object.entries(entries)) {
+      if (!/^[a-h][1-8][a-h][1-8][qrbn]?$/.test(uci) || typeof weight !== 'number' || !(weight > 0)) {
+        throw new Error(`Book move "${uci}" in "${key}" needs a UCI move and a positive weight`)
+      }
+      moves.set(uci, weight)
+    }
+    book.set(key.split(' ').slice(0, 4).join(' '), moves)
+  }
+  return book
+}
+
+// The book's moves that are legal in the position, most popular first
+export const getBookMoves = (book: OpeningBook, game: Chess): BookMove[] => {
+  const entries = book.get(positionKey(game))
+  if (!entries) return []
+  return getLegalMoves(game)
+    .filter(move => entries.has(toUciMove(move)))
+    .map(move => ({ move, weight: entries.get(toUciMove(move))! }))
+    .sort((a, b) => b.weight - a.weight)
+}
+
+// Choose among book moves in proportion to their weights
+export const pickBookMove = (moves: BookMove[], random: () => number = Math.random): BookMove | null => {
+  const total = moves.reduce((sum, { weight }) => sum + weight, 0)
+  let roll = random() * total
+  for (const bookMove of moves) {
+    roll -= bookMove.weight
+    if (roll < 0) return bookMove
+  }
+  return moves[moves.length - 1] ?? null
+}
+
+// Plies played since the standard start: history length if it leads to the position,
+// otherwise counted from the FEN's move number
+export const plyFromStart = (fen: string, gameHistory: string[]): number => {
+  try {
+    if (positionKey(replayGame(gameHistory)) === positionKey(createGame(fen))) return gameHistory.length
+  } catch {
+    // The history is not a game from the standard start
+  }
+  const [, turn, , , , fullmove] = fen.trim().split(/\s+/)
+  return (Number(fullmove) - 1) * 2 + (turn === 'b' ? 1 : 0)
+}
+
+let openingBook: Promise<OpeningBook> | null = null
+
+// The book at OPENING_BOOK_FILE, or the built-in one if it is unset or cannot be read
+export const getOpeningBook = (): Promise<OpeningBook> => {
+  if (!openingBook) {
+    const filePath = process.env.OPENING_BOOK_FILE
+    openingBook = filePath
+      ? fs.readFile(filePath, 'utf8')
+        .then(text => parseOpeningBook(JSON.parse(text)))
+        .catch(error => {
+          console.error(`Error reading opening book ${filePath}, using the built-in book:`, error)
+          return buildOpeningBook(BUILT_IN_LINES)
+        })
+      : Promise.resolve(buildOpeningBook(BUILT_IN_LINES))
+  }
+  return openingBook
+}
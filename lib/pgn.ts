@@ -0,0 +1,182 @@
+import { Chess } from 'chess.js'
+import { GameEndReason, Move, PieceColor, STARTING_FEN, getMoveHistory } from '@/lib/chess'
+import { TimeControl } from '@/lib/timeControl'
+
+// PGN game termination markers
+export type PGNResult = '1-0' | '0-1' | '1/2-1/2' | '*'
+
+// Seven Tag Roster plus any extra tags
+export interface PGNHeaders {
+  Event: string
+  Site: string
+  Date: string // YYYY.MM.DD, with ?? for unknown parts
+  Round: string
+  White: string
+  Black: string
+  Result: PGNResult
+  [tag: string]: string
+}
+
+// Optional per-move comment data, written as [%clk] and [%eval] commands
+export interface MoveAnnotation {
+  clockSeconds?: number // mover's remaining time after the move
+  eval?: number // centipawns from White's point of view
+  mate?: number // moves to mate, positive when White mates
+}
+
+export interface PGNGame {
+  headers: PGNHeaders
+  moves: Move[]
+  annotations: (MoveAnnotation | null)[] // one entry per move
+}
+
+export const PGN_EVENT = 'Chess AI Challenge'
+
+// PGN date for a timestamp ("2024.03.09")
+export const formatPGNDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`
+}
+
+// PGN result from the winner, or '*' while the game is still going
+export const toPGNResult = (winner: PieceColor | 'draw' | null): PGNResult => {
+  if (winner === 'white') return '1-0'
+  if (winner === 'black') return '0-1'
+  if (winner === 'draw') return '1/2-1/2'
+  return '*'
+}
+
+// PGN Termination tag for how a game ended
+export const toPGNTermination = (reason: GameEndReason): string =>
+  reason === 'timeout' || reason === 'timeout-vs-insufficient-material' ? 'time forfeit' : 'normal'
+
+// Winner named by a PGN result
+export const fromPGNResult = (result: string): PieceColor | 'draw' | null => {
+  if (result === '1-0') return 'white'
+  if (result === '0-1') return 'black'
+  if (result === '1/2-1/2') return 'draw'
+  return null
+}
+
+// Headers for a game between the human and the AI at a difficulty label.
+// The TimeControl tag has no notation for delay, so only base+increment is written.
+export const createPGNHeaders = (
+  humanColor: PieceColor,
+  aiName: string,
+  result: PGNResult,
+  date: Date = new Date(),
+  timeControl: TimeControl | null = null
+): PGNHeaders => ({
+  Event: PGN_EVENT,
+  Site: typeof window !== 'undefined' ? window.location.host : '?',
+  Date: formatPGNDate(date),
+  Round: '-',
+  White: humanColor === 'white' ? 'Player' : aiName,
+  Black: humanColor === 'black' ? 'Player' : aiName,
+  Result: result,
+  TimeControl: timeControl ? `${timeControl.baseSeconds}+${timeControl.incrementSeconds}` : '-'
+})
+
+// Clock time as h:mm:ss for a [%clk] command
+const formatClock = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds))
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${Math.floor(total / 3600)}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`
+}
+
+// Comment text for a move annotation ("[%eval 0.35] [%clk 0:04:58]")
+const formatAnnotation = (annotation: MoveAnnotation): string => {
+  const commands: string[] = []
+  if (annotation.mate !== undefined) {
+    commands.push(`[%eval #${annotation.mate}]`)
+  } else if (annotation.eval !== undefined) {
+    commands.push(`[%eval ${(annotation.eval / 100).toFixed(2)}]`)
+  }
+  if (annotation.clockSeconds !== undefined) {
+    commands.push(`[%clk ${formatClock(annotation.clockSeconds)}]`)
+  }
+  return commands.join(' ')
+}
+
+// Parse [%clk] and [%eval] commands back out of a comment
+const parseAnnotation = (comment: string): MoveAnnotation | null => {
+  const annotation: MoveAnnotation = {}
+  const clock = comment.match(/\[%clk\s+(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)\]/)
+  if (clock) {
+    annotation.clockSeconds = Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3])
+  }
+  const evaluation = comment.match(/\[%eval\s+(#)?(-?\d+(?:\.\d+)?)\]/)
+  if (evaluation) {
+    if (evaluation[1]) {
+      annotation.mate = Number(evaluation[2])
+    } else {
+      annotation.eval = Math.round(Number(evaluation[2]) * 100)
+    }
+  }
+  return Object.keys(annotation).length > 0 ? annotation : null
+}
+
+// Write a game as PGN; annotations are included as move comments when given
+export const createPGN = (
+  moves: Move[],
+  headers: PGNHeaders,
+  annotations: (MoveAnnotation | null)[] = []
+): string => {
+  const game = new Chess()
+  Object.entries(headers).forEach(([tag, value]) => game.setHeader(tag, value))
+
+  moves.forEach((move, index) => {
+    game.move(move.san)
+    const annotation = annotations[index]
+    const comment = annotation ? formatAnnotation(annotation) : ''
+    if (comment) game.setComment(comment)
+  })
+
+  return game.pgn()
+}
+
+// Read a PGN game; throws with the reason if it cannot be replayed.
+// Only games from the standard starting position are supported.
+export const parsePGN = (pgn: string): PGNGame => {
+  const game = new Chess()
+  game.loadPgn(pgn.trim())
+
+  const headers = game.getHeaders()
+  if (headers.SetUp === '1' && headers.FEN && headers.FEN !== STARTING_FEN) {
+    throw new Error('Only games starting from the standard position can be loaded')
+  }
+
+  // Comments are keyed by the position after the move they follow
+  const comments = new Map(game.getComments().map(({ fen, comment }) => [fen, comment] as [string, string]))
+  const moves = getMoveHistory(game)
+  const replay = new Chess()
+  const annotations = moves.map(move => {
+    replay.move(move.san)
+    const comment = comments.get(replay.fen())
+    return comment ? parseAnnotation(comment) : null
+  })
+
+  const result = ['1-0', '0-1', '1/2-1/2'].includes(headers.Result) ? headers.Result as PGNResult : '*'
+  return {
+    headers: {
+      Event: '?',
+      Site: '?',
+      Date: '????.??.??',
+      Round: '?',
+      White: '?',
+      Black: '?',
+      ...headers,
+      Result: result
+    },
+    moves,
+    annotations
+  }
+}
+
+// Which colour the human played, judging by the player names (null if neither side is "Player")
+export const findHumanColor = (headers: PGNHeaders): PieceColor | null => {
+  if (headers.White === 'Player') return 'white'
+  if (headers.Black === 'Player') return 'black'
+  return null
+}
+
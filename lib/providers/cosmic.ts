@@ -0,0 +1,68 @@
+import { cosmic } from '@/lib/cosmic'
+import { difficultyLevels } from '@/lib/difficulty'
+import { AIMoveProvider } from './provider'
+
+// Moves and assessments from the Cosmic AI language model
+export const createCosmicProvider = (): AIMoveProvider => ({
+  name: 'cosmic',
+  label: 'Cosmic AI',
+
+  generateMove: async ({ boardAnalysis, gameHistory, currentPlayer, difficulty, rejection }) => {
+    try {
+      const retryInstructions = rejection
+        ? `
+Your previous answer "${rejection.move}" was rejected: ${rejection.reason}.
+You must choose one of these legal moves: ${rejection.legalMoves.join(', ')}
+`
+        : ''
+
+      // The full strategic analysis is sent rather than just the FEN
+      const prompt = `You are a chess engine. Analyze this chess position: ${boardAnalysis}
+
+Game history: ${gameHistory.join(', ')}
+Current player: ${currentPlayer}
+Playing strength: ${difficultyLevels[difficulty].label}
+
+Analyze the position and choose a move for ${currentPlayer}.
+${difficultyLevels[difficulty].prompt}
+${retryInstructions}
+Respond with ONLY the move in standard algebraic notation (e.g., "e4", "Nf3", "O-O", "Qxd5+").
+Do not include explanations, just the move.`
+
+      const response = await cosmic.ai.generateText({
+        prompt,
+        max_tokens: 50,
+      })
+
+      return response.text.trim()
+    } catch (error) {
+      console.error('Error generating AI move:', error)
+      return null
+    }
+  },
+
+  analyzePosition: async ({ fen, gameHistory }) => {
+    try {
+      const prompt = `Analyze this chess position: ${fen}
+
+Game moves so far: ${gameHistory.join(', ')}
+
+Provide a brief strategic assessment (max 150 characters) including:
+- Who has the advantage and why
+- Key tactical or positional themes
+- Overall evaluation
+
+Keep it concise and informative.`
+
+      const response = await cosmic.ai.generateText({
+        prompt,
+        max_tokens: 150,
+      })
+
+      return response.text.trim()
+    } catch (error) {
+      console.error('Error analyzing position:', error)
+      return null
+    }
+  }
+})
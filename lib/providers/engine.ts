@@ -0,0 +1,30 @@
+import { createGame, parseFEN, parseUciMove, toUciPosition } from '@/lib/chess'
+import { playEngineMove } from '@/lib/engine/play'
+import { searchPosition } from '@/lib/engine/search'
+import { getSyzygyTablebase } from '@/lib/engine/syzygy'
+import { formatEval, toPositionEval } from '@/lib/evaluation'
+import { AIMoveProvider } from './provider'
+
+// Search time for a position assessment
+const ANALYSIS_SEARCH_MS = 500
+
+// Moves from the built-in search, played at full strength for the difficulty level's
+// depth; deliberate mistakes are left to the route
+export const createEngineProvider = (): AIMoveProvider => ({
+  name: 'engine',
+  label: 'the local engine',
+
+  generateMove: async ({ fen, gameHistory, difficulty, timeLimitMs }) => {
+    const position = toUciPosition(fen, gameHistory)
+    const { bestMove } = playEngineMove(position.fen, position.moves, difficulty, { timeLimitMs, tablebase: getSyzygyTablebase() }, null)
+    return bestMove ? parseUciMove(createGame(fen), bestMove)?.san ?? null : null
+  },
+
+  analyzePosition: async ({ fen, gameHistory }) => {
+    const position = toUciPosition(fen, gameHistory)
+    const result = searchPosition(position.fen, position.moves, { timeLimitMs: ANALYSIS_SEARCH_MS, tablebase: getSyzygyTablebase() })
+    const evaluation = toPositionEval(result, parseFEN(fen).turn)
+    const best = result.bestMove ? parseUciMove(createGame(fen), result.bestMove) : null
+    return `Engine evaluation ${formatEval(evaluation)} at depth ${result.depth}${best ? `, best move ${best.san}` : ''}`
+  }
+})
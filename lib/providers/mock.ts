@@ -0,0 +1,25 @@
+import { createGame, getLegalMoves } from '@/lib/chess'
+import { AIMoveProvider } from './provider'
+
+// Moves from MOCK_AI_MOVES, comma separated
+const scriptFromEnv = (): string[] =>
+  (process.env.MOCK_AI_MOVES ?? '').split(',').map(move => move.trim()).filter(Boolean)
+
+// Deterministic provider for offline runs and tests: answers with the scripted moves in
+// order (illegal ones included, to exercise the route's retries), then with the first
+// legal move of whatever position it is asked about. Each instance has its own script.
+export const createMockProvider = (script: string[] = scriptFromEnv()): AIMoveProvider => {
+  let next = 0
+
+  return {
+    name: 'mock',
+    label: 'the scripted mock',
+
+    generateMove: async ({ fen }) => {
+      if (next < script.length) return script[next++]
+      return getLegalMoves(createGame(fen))[0]?.san ?? null
+    },
+
+    analyzePosition: async ({ fen }) => `Mock analysis of ${fen}`
+  }
+}
@@ -0,0 +1,53 @@
+import { PieceColor } from '@/lib/chess'
+import { DifficultyLevel } from '@/lib/difficulty'
+
+// Where the AI move and hint routes get their moves from
+export type AIMoveProviderName = 'cosmic' | 'engine' | 'uci' | 'mock'
+
+export const aiMoveProviders: Record<AIMoveProviderName, { label: string; description: string }> = {
+  cosmic: { label: 'Cosmic AI', description: 'Language model prompted with an analysis of the position' },
+  engine: { label: 'the local engine', description: 'Built-in alpha-beta search, searched to the difficulty level depth' },
+  uci: { label: 'the UCI engine', description: 'External engine binary (e.g. Stockfish) set by UCI_ENGINE_PATH' },
+  mock: { label: 'the scripted mock', description: 'Plays the moves in MOCK_AI_MOVES, then the first legal move' }
+}
+
+// Used when neither the request nor AI_MOVE_PROVIDER names one
+export const DEFAULT_AI_MOVE_PROVIDER: AIMoveProviderName = 'cosmic'
+
+export const isAIMoveProviderName = (value: unknown): value is AIMoveProviderName =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(aiMoveProviders, value)
+
+// A previous answer that was rejected, fed back so the provider can correct itself
+export interface AIMoveRejection {
+  move: string
+  reason: string
+  legalMoves: string[]
+}
+
+// Everything a provider may use to choose a move; the route has already validated the position
+export interface AIMoveRequest {
+  fen: string
+  boardAnalysis: string // the route's written analysis of the position, for prompt-based providers
+  gameHistory: string[] // SAN moves so far
+  currentPlayer: PieceColor
+  difficulty: DifficultyLevel
+  timeLimitMs: number // thinking time for engine-based providers
+  rejection?: AIMoveRejection
+  signal?: AbortSignal // aborted when the client cancels the request
+}
+
+export interface PositionAnalysisRequest {
+  fen: string
+  gameHistory: string[]
+}
+
+// A source of AI moves. Answers are free text checked by the route, which is what lets
+// a language model be retried with feedback; engines answer in SAN or UCI.
+export interface AIMoveProvider {
+  name: AIMoveProviderName
+  label: string // how logs refer to the provider
+  // The move to play, or null when the provider has no answer
+  generateMove: (request: AIMoveRequest) => Promise<string | null>
+  // A short assessment of the position, or null when unavailable
+  analyzePosition: (request: PositionAnalysisRequest) => Promise<string | null>
+}
@@ -0,0 +1,25 @@
+import { AIMoveProvider, AIMoveProviderName, DEFAULT_AI_MOVE_PROVIDER, isAIMoveProviderName } from './provider'
+import { createCosmicProvider } from './cosmic'
+import { createEngineProvider } from './engine'
+import { createUciProvider } from './uci'
+import { createMockProvider } from './mock'
+
+const providerFactories: Record<AIMoveProviderName, () => AIMoveProvider> = {
+  cosmic: createCosmicProvider,
+  engine: createEngineProvider,
+  uci: () => createUciProvider(),
+  mock: () => createMockProvider()
+}
+
+// The provider configured by AI_MOVE_PROVIDER, falling back to the default if it is unset or unknown
+export const configuredProviderName = (): AIMoveProviderName => {
+  const configured = process.env.AI_MOVE_PROVIDER
+  if (configured && !isAIMoveProviderName(configured)) {
+    console.error(`Unknown AI_MOVE_PROVIDER "${configured}", using ${DEFAULT_AI_MOVE_PROVIDER}`)
+  }
+  return isAIMoveProviderName(configured) ? configured : DEFAULT_AI_MOVE_PROVIDER
+}
+
+// A fresh provider for one request: the one it asked for, otherwise the configured one
+export const getAIMoveProvider = (name: AIMoveProviderName = configuredProviderName()): AIMoveProvider =>
+  providerFactories[name]()
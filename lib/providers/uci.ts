@@ -0,0 +1,66 @@
+import { createGame, parseUciMove, toUciPosition } from '@/lib/chess'
+import { DifficultyLevel, difficultyLevels } from '@/lib/difficulty'
+import { UciOptionValue, UciEnginePool, getUciEnginePool } from '@/lib/uci'
+import { AIMoveProvider } from './provider'
+
+// Search time for a position assessment
+const ANALYSIS_SEARCH_MS = 500
+
+// Strength options for a difficulty level; engines without UCI_Elo fall back to Skill Level
+const strengthOptions = (difficulty: DifficultyLevel): Record<string, UciOptionValue> => {
+  const { uciSkillLevel, uciElo } = difficultyLevels[difficulty]
+  return uciElo === null
+    ? { 'Skill Level': uciSkillLevel, UCI_LimitStrength: false }
+    : { 'Skill Level': uciSkillLevel, UCI_LimitStrength: true, UCI_Elo: uciElo }
+}
+
+// Syzygy tablebase files for the engine to probe, when SYZYGY_PATH names their directory
+const tablebaseOptions = (): Record<string, UciOptionValue> =>
+  process.env.SYZYGY_PATH ? { SyzygyPath: process.env.SYZYGY_PATH } : {}
+
+// Moves from an external UCI engine binary such as Stockfish, from the shared pool of
+// engine processes (UCI_ENGINE_PATH)
+export const createUciProvider = (pool: UciEnginePool | null = getUciEnginePool()): AIMoveProvider => ({
+  name: 'uci',
+  label: 'the UCI engine',
+
+  generateMove: async ({ fen, gameHistory, difficulty, timeLimitMs, signal }) => {
+    if (!pool) {
+      console.error('Error generating UCI move: UCI_ENGINE_PATH is not set')
+      return null
+    }
+    try {
+      const { bestMove } = await pool.withEngine(engine => engine.search({
+        ...toUciPosition(fen, gameHistory),
+        movetimeMs: timeLimitMs,
+        options: { ...strengthOptions(difficulty), ...tablebaseOptions() },
+        signal
+      }))
+      return bestMove ? parseUciMove(createGame(fen), bestMove)?.san ?? bestMove : null
+    } catch (error) {
+      if (!signal?.aborted) console.error('Error generating UCI move:', error)
+      return null
+    }
+  },
+
+  analyzePosition: async ({ fen, gameHistory }) => {
+    if (!pool) return null
+    try {
+      return await pool.withEngine(async engine => {
+        const result = await engine.search({
+          ...toUciPosition(fen, gameHistory),
+          movetimeMs: ANALYSIS_SEARCH_MS,
+          options: { UCI_LimitStrength: false, 'Skill Level': 20, ...tablebaseOptions() }
+        })
+        const best = result.bestMove ? parseUciMove(createGame(fen), result.bestMove) : null
+        const score = result.mate === null
+          ? ((result.score ?? 0) / 100).toFixed(2)
+          : result.mate > 0 ? `mate in ${result.mate}` : `mated in ${-result.mate}`
+        return `${engine.name} evaluation ${score} for the side to move at depth ${result.depth}${best ? `, best move ${best.san}` : ''}`
+      })
+    } catch (error) {
+      console.error('Error analyzing position with the UCI engine:', error)
+      return null
+    }
+  }
+})
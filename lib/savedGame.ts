@@ -0,0 +1,129 @@
+import { PieceColor, replayGame, isGameOverStatus, getGameStatus } from '@/lib/chess'
+import { DifficultyLevel, isDifficultyLevel } from '@/lib/difficulty'
+import { MoveAnnotation } from '@/lib/pgn'
+import { TimeControl, TimeControlPreset, isTimeControl } from '@/lib/timeControl'
+
+// An unfinished game, saved after every move so it can be resumed after a reload
+// or continued on another device
+export interface SavedGame {
+  version: 3 // 1 had a single speed chess timer, 2 had no hint settings
+  savedAt: string // ISO timestamp
+  moves: string[] // SAN from the starting position
+  moveAnnotations: Record<number, MoveAnnotation>
+  humanColor: PieceColor
+  colorChoice: PieceColor | 'random'
+  difficulty: DifficultyLevel
+  engineTimeMs: number
+  timeControlPreset: TimeControlPreset | null // null for an untimed game
+  timeControl: TimeControl | null
+  clocks: Record<PieceColor, number> // seconds left on each side's clock
+  allowTakebacks: boolean
+  allowHints: boolean
+  hintsUsed: number
+  startedAt: number // ms timestamp
+}
+
+const LOCAL_SAVED_GAME_KEY = 'chess-ai:saved-game'
+const SAVE_SLOT_KEY = 'chess-ai:save-slot'
+
+// Save slot codes are short enough to type on another device ("k3j9-x8a2")
+const SAVE_SLOT_PATTERN = /^[a-z0-9]{4}-[a-z0-9]{4}$/
+
+export const isSaveSlot = (value: unknown): value is string =>
+  typeof value === 'string' && SAVE_SLOT_PATTERN.test(value)
+
+const randomChars = (count: number): string =>
+  Array.from({ length: count }, () => '0123456789abcdefghijklmnopqrstuvwxyz'[Math.floor(Math.random() * 36)]).join('')
+
+export const createSaveSlot = (): string => `${randomChars(4)}-${randomChars(4)}`
+
+// Check an untrusted value (localStorage or a request body) is a resumable game
+export const parseSavedGame = (value: unknown): SavedGame | null => {
+  if (!value || typeof value !== 'object') return null
+  const game = value as Record<string, unknown>
+
+  const isColor = (color: unknown): color is PieceColor => color === 'white' || color === 'black'
+  const isCount = (count: unknown): count is number => typeof count === 'number' && isFinite(count) && count >= 0
+  const isObject = (object: unknown): object is Record<string, unknown> => typeof object === 'object' && object !== null
+  const isPreset = (preset: unknown): preset is TimeControlPreset | null =>
+    preset === null || preset === 'bullet' || preset === 'blitz' || preset === 'rapid' || preset === 'custom'
+  const isControl = (control: unknown): control is TimeControl | null => control === null || isTimeControl(control)
+  if (
+    game.version !== 3 ||
+    typeof game.savedAt !== 'string' ||
+    !Array.isArray(game.moves) || !game.moves.every((move: unknown): move is string => typeof move === 'string') ||
+    !isObject(game.moveAnnotations) ||
+    !isColor(game.humanColor) ||
+    !(isColor(game.colorChoice) || game.colorChoice === 'random') ||
+    !isDifficultyLevel(game.difficulty) ||
+    !isCount(game.engineTimeMs) ||
+    !isPreset(game.timeControlPreset) ||
+    !isControl(game.timeControl) ||
+    !isObject(game.clocks) || !isCount(game.clocks.white) || !isCount(game.clocks.black) ||
+    typeof game.allowTakebacks !== 'boolean' ||
+    typeof game.allowHints !== 'boolean' ||
+    !isCount(game.hintsUsed) ||
+    !isCount(game.startedAt)
+  ) return null
+
+  // The moves must replay, and a finished game is nothing to resume
+  try {
+    if (isGameOverStatus(getGameStatus(replayGame(game.moves)).status)) return null
+  } catch {
+    return null
+  }
+
+  return {
+    version: 3,
+    savedAt: game.savedAt,
+    moves: game.moves,
+    moveAnnotations: game.moveAnnotations as Record<number, MoveAnnotation>,
+    humanColor: game.humanColor,
+    colorChoice: game.colorChoice,
+    difficulty: game.difficulty,
+    engineTimeMs: game.engineTimeMs,
+    timeControlPreset: game.timeControlPreset,
+    timeControl: game.timeControl,
+    clocks: { white: game.clocks.white, black: game.clocks.black },
+    allowTakebacks: game.allowTakebacks,
+    allowHints: game.allowHints,
+    hintsUsed: game.hintsUsed,
+    startedAt: game.startedAt
+  }
+}
+
+// localStorage is missing during server rendering and can throw when disabled or full
+const withLocalStorage = <T>(action: (storage: Storage) => T, fallback: T): T => {
+  try {
+    return typeof window === 'undefined' ? fallback : action(window.localStorage)
+  } catch (error) {
+    console.error('Error using localStorage:', error)
+    return fallback
+  }
+}
+
+export const saveLocalGame = (game: SavedGame): void =>
+  withLocalStorage(storage => storage.setItem(LOCAL_SAVED_GAME_KEY, JSON.stringify(game)), undefined)
+
+export const loadLocalGame = (): SavedGame | null =>
+  withLocalStorage(storage => {
+    const stored = storage.getItem(LOCAL_SAVED_GAME_KEY)
+    return stored ? parseSavedGame(JSON.parse(stored)) : null
+  }, null)
+
+export const clearLocalGame = (): void =>
+  withLocalStorage(storage => storage.removeItem(LOCAL_SAVED_GAME_KEY), undefined)
+
+// This browser's server-side save slot, created on first use
+export const getLocalSaveSlot = (): string =>
+  withLocalStorage(storage => {
+    const stored = storage.getItem(SAVE_SLOT_KEY)
+    if (isSaveSlot(stored)) return stored
+    const slot = createSaveSlot()
+    storage.setItem(SAVE_SLOT_KEY, slot)
+    return slot
+  }, createSaveSlot())
+
+// Share a slot with another device after continuing its game here
+export const setLocalSaveSlot = (slot: string): void =>
+  withLocalStorage(storage => storage.setItem(SAVE_SLOT_KEY, slot), undefined)
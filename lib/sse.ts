@@ -0,0 +1,56 @@
+// One Server-Sent Event as read from a stream
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+// Encode an event for a text/event-stream response; data is sent as JSON
+export const formatSSE = (event: string, data: unknown): string =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+
+// Parse one event block ("event: ...\ndata: ..."); comments and unknown fields are ignored
+const parseEventBlock = (block: string): ServerSentEvent | null => {
+  let event = 'message'
+  const data: string[] = []
+  for (const line of block.split('\n')) {
+    const separator = line.indexOf(':')
+    if (separator <= 0) continue
+    const field = line.slice(0, separator)
+    const value = line.slice(separator + 1).replace(/^ /, '')
+    if (field === 'event') event = value
+    else if (field === 'data') data.push(value)
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null
+}
+
+// Read events from a streamed response body as they arrive. EventSource only makes GET
+// requests, so POST routes are read this way; resolves when the stream ends and rejects
+// if it is aborted.
+export const readSSE = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> => {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+    buffer = buffer.replace(/\r\n?/g, '\n')
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const event = parseEventBlock(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      if (event) onEvent(event)
+      boundary = buffer.indexOf('\n\n')
+    }
+
+    if (done) {
+      const event = parseEventBlock(buffer)
+      if (event) onEvent(event)
+      return
+    }
+  }
+}
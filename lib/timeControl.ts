@@ -0,0 +1,57 @@
+import { PieceColor } from '@/lib/chess'
+
+// Clock settings for a timed game
+export interface TimeControl {
+  baseSeconds: number // each side's starting time
+  incrementSeconds: number // Fischer increment, added after every move
+  delaySeconds: number // Bronstein delay, time used up to this much is given back after every move
+}
+
+export type TimeControlPreset = 'bullet' | 'blitz' | 'rapid' | 'custom'
+
+export const timeControlPresets: Record<Exclude<TimeControlPreset, 'custom'>, { label: string; timeControl: TimeControl }> = {
+  bullet: { label: 'Bullet 1+0', timeControl: { baseSeconds: 60, incrementSeconds: 0, delaySeconds: 0 } },
+  blitz: { label: 'Blitz 3+2', timeControl: { baseSeconds: 180, incrementSeconds: 2, delaySeconds: 0 } },
+  rapid: { label: 'Rapid 10+5', timeControl: { baseSeconds: 600, incrementSeconds: 5, delaySeconds: 0 } }
+}
+
+export const DEFAULT_CUSTOM_TIME_CONTROL: TimeControl = { baseSeconds: 300, incrementSeconds: 0, delaySeconds: 3 }
+
+// Both clocks at the start of a game
+export const startingClocks = (timeControl: TimeControl): Record<PieceColor, number> => ({
+  white: timeControl.baseSeconds,
+  black: timeControl.baseSeconds
+})
+
+// Short form of a time control ("3+2", "5+0 d3")
+export const formatTimeControl = (timeControl: TimeControl): string => {
+  const minutes = timeControl.baseSeconds / 60
+  const base = Number.isInteger(minutes) ? String(minutes) : `${timeControl.baseSeconds}s`
+  const delay = timeControl.delaySeconds > 0 ? ` d${timeControl.delaySeconds}` : ''
+  return `${base}+${timeControl.incrementSeconds}${delay}`
+}
+
+// Mover's clock once a move is made: the Bronstein delay refunds the time used, up to
+// the delay, and the Fischer increment is added on top
+export const chargeMoveTime = (remaining: number, elapsed: number, timeControl: TimeControl): number => {
+  const refund = Math.min(Math.max(0, elapsed), timeControl.delaySeconds)
+  return remaining + refund + timeControl.incrementSeconds
+}
+
+// Search time for the AI from its own clock: a slice of what is left plus most of the
+// time it gets back after the move, never so much that it could lose on time
+export const engineTimeBudgetMs = (remainingSeconds: number, timeControl: TimeControl): number => {
+  const remainingMs = remainingSeconds * 1000
+  const refundMs = (timeControl.incrementSeconds + timeControl.delaySeconds) * 1000
+  const budget = remainingMs / 30 + refundMs * 0.8
+  const reserve = Math.max(500, remainingMs * 0.1) // keep back for network and rendering
+  return Math.round(Math.max(50, Math.min(budget, remainingMs - reserve)))
+}
+
+// Check an untrusted value is a usable time control
+export const isTimeControl = (value: unknown): value is TimeControl => {
+  if (!value || typeof value !== 'object') return false
+  const { baseSeconds, incrementSeconds, delaySeconds } = value as Record<string, unknown>
+  const isSeconds = (seconds: unknown) => typeof seconds === 'number' && isFinite(seconds) && seconds >= 0
+  return isSeconds(baseSeconds) && (baseSeconds as number) > 0 && isSeconds(incrementSeconds) && isSeconds(delaySeconds)
+}
@@ -0,0 +1,311 @@
+import { spawn } from 'child_process'
+import { createInterface } from 'readline'
+
+// Time for a new engine to answer "uci" and "isready"
+const HANDSHAKE_TIMEOUT_MS = 5000
+
+// Extra time after the movetime before "stop" is sent, and after that before the
+// engine is treated as hung and killed
+const SEARCH_GRACE_MS = 2000
+const STOP_GRACE_MS = 1000
+
+// Idle engines are shut down after this long
+const IDLE_TIMEOUT_MS = 60000
+
+const DEFAULT_POOL_SIZE = 2
+
+// The engine is missing, crashed, hung or the search was cancelled
+export class UciEngineError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UciEngineError'
+  }
+}
+
+// An option the engine announced in its answer to "uci"
+export interface UciOption {
+  name: string
+  type: string // check, spin, combo, button or string
+  min?: number
+  max?: number
+}
+
+export type UciOptionValue = string | number | boolean
+
+export interface UciSearchRequest {
+  fen: string
+  moves?: string[] // UCI moves played from fen, so the engine sees repetitions
+  movetimeMs: number
+  options?: Record<string, UciOptionValue> // set before searching; ones the engine lacks are skipped
+  signal?: AbortSignal // sends "stop" and rejects the search
+}
+
+export interface UciSearchResult {
+  bestMove: string | null // UCI notation, null when the position has no legal moves
+  score: number | null // centipawns from the side to move's point of view
+  mate: number | null // moves until mate; negative when the side to move is getting mated
+  depth: number
+  pv: string[]
+}
+
+// One running engine process, used by one search at a time
+export interface UciEngine {
+  name: string // from "id name", e.g. "Stockfish 16"
+  options: Map<string, UciOption>
+  isAlive: () => boolean
+  search: (request: UciSearchRequest) => Promise<UciSearchResult>
+  quit: () => void
+}
+
+// "option name Skill Level type spin default 20 min 0 max 20"
+const parseOption = (line: string): UciOption | null => {
+  const match = line.match(/^option name (.+?) type (\S+)(.*)$/)
+  if (!match) return null
+  const min = match[3].match(/ min (-?\d+)/)
+  const max = match[3].match(/ max (-?\d+)/)
+  return {
+    name: match[1],
+    type: match[2],
+    min: min ? Number(min[1]) : undefined,
+    max: max ? Number(max[1]) : undefined
+  }
+}
+
+// Fold an "info" line into the search result so far
+const parseInfo = (line: string, result: UciSearchResult): void => {
+  const tokens = line.split(/\s+/)
+  for (let i = 1; i < tokens.length; i++) {
+    switch (tokens[i]) {
+      case 'depth':
+        result.depth = Number(tokens[++i])
+        break
+      case 'score':
+        if (tokens[i + 1] === 'cp') {
+          result.score = Number(tokens[i + 2])
+          result.mate = null
+        } else if (tokens[i + 1] === 'mate') {
+          result.mate = Number(tokens[i + 2])
+          result.score = null
+        }
+        i += 2
+        break
+      case 'pv':
+        result.pv = tokens.slice(i + 1)
+        return
+    }
+  }
+}
+
+// Value to send for an option, with spin values kept inside the engine's range
+const formatOptionValue = (option: UciOption, value: UciOptionValue): string => {
+  if (option.type === 'spin' && typeof value === 'number') {
+    return String(Math.round(Math.max(option.min ?? value, Math.min(option.max ?? value, value))))
+  }
+  return String(value)
+}
+
+// Start an engine binary and complete the UCI handshake
+export const startUciEngine = async (enginePath: string): Promise<UciEngine> => {
+  const child = spawn(enginePath, [], { stdio: ['pipe', 'pipe', 'ignore'] })
+  const options = new Map<string, UciOption>()
+  const sentOptions = new Map<string, string>()
+  let name = enginePath
+  let exitError: UciEngineError | null = null
+
+  // Whoever is waiting on the engine gets every line, and hears about it dying
+  let onLine: ((line: string) => void) | null = null
+  let onExit: ((error: UciEngineError) => void) | null = null
+
+  const fail = (error: UciEngineError) => {
+    if (exitError) return
+    exitError = error
+    onExit?.(error)
+  }
+  child.on('error', error => fail(new UciEngineError(`Could not start UCI engine ${enginePath}: ${error.message}`)))
+  child.on('exit', (code, signal) => fail(new UciEngineError(`UCI engine exited (${signal ?? `code ${code}`})`)))
+  child.stdin.on('error', () => {}) // reported by the exit handler
+  createInterface({ input: child.stdout }).on('line', line => onLine?.(line.trim()))
+
+  const send = (command: string) => {
+    if (!exitError) child.stdin.write(`${command}\n`)
+  }
+
+  const kill = () => {
+    child.kill('SIGKILL')
+    fail(new UciEngineError('UCI engine killed'))
+  }
+
+  // Send commands and wait for the line that ends the engine's answer. An engine that
+  // does not answer in time is out of step with us, so it is killed.
+  const request = (commands: string[], isLast: (line: string) => boolean, timeoutMs: number, onOther?: (line: string) => void) =>
+    new Promise<string>((resolve, reject) => {
+      if (exitError) return reject(exitError)
+      const settle = (error: UciEngineError | null, line = '') => {
+        clearTimeout(timeout)
+        onLine = null
+        onExit = null
+        if (error) reject(error)
+        else resolve(line)
+      }
+      const timeout = setTimeout(() => {
+        settle(new UciEngineError(`UCI engine did not answer "${commands[commands.length - 1]}" within ${timeoutMs}ms`))
+        kill()
+      }, timeoutMs)
+      onLine = line => (isLast(line) ? settle(null, line) : onOther?.(line))
+      onExit = error => settle(error)
+      commands.forEach(send)
+    })
+
+  // Set the options that differ from what the engine already has
+  const applyOptions = async (values: Record<string, UciOptionValue>) => {
+    let changed = false
+    for (const [optionName, value] of Object.entries(values)) {
+      const option = options.get(optionName)
+      if (!option) continue
+      const formatted = formatOptionValue(option, value)
+      if (sentOptions.get(optionName) === formatted) continue
+      send(`setoption name ${optionName} value ${formatted}`)
+      sentOptions.set(optionName, formatted)
+      changed = true
+    }
+    if (changed) await request(['isready'], line => line === 'readyok', HANDSHAKE_TIMEOUT_MS)
+  }
+
+  const engine: UciEngine = {
+    get name() {
+      return name
+    },
+    options,
+    isAlive: () => exitError === null,
+
+    search: async ({ fen, moves = [], movetimeMs, options: values = {}, signal }) => {
+      if (signal?.aborted) throw new UciEngineError('UCI search cancelled')
+      await applyOptions(values)
+
+      const result: UciSearchResult = { bestMove: null, score: null, mate: null, depth: 0, pv: [] }
+      let cancelled = false
+      const stop = () => {
+        cancelled = true
+        send('stop')
+      }
+      signal?.addEventListener('abort', stop)
+      const stopTimer = setTimeout(() => send('stop'), movetimeMs + SEARCH_GRACE_MS)
+
+      try {
+        const last = await request(
+          [`position fen ${fen}${moves.length > 0 ? ` moves ${moves.join(' ')}` : ''}`, `go movetime ${Math.max(1, Math.round(movetimeMs))}`],
+          line => line.startsWith('bestmove'),
+          movetimeMs + SEARCH_GRACE_MS + STOP_GRACE_MS,
+          line => {
+            if (line.startsWith('info ')) parseInfo(line, result)
+          }
+        )
+        if (cancelled) throw new UciEngineError('UCI search cancelled')
+        const bestMove = last.split(/\s+/)[1]
+        result.bestMove = bestMove && bestMove !== '(none)' && bestMove !== '0000' ? bestMove : null
+        return result
+      } finally {
+        clearTimeout(stopTimer)
+        signal?.removeEventListener('abort', stop)
+      }
+    },
+
+    quit: () => {
+      if (exitError) return
+      send('quit')
+      setTimeout(() => {
+        if (!exitError) kill()
+      }, STOP_GRACE_MS).unref()
+    }
+  }
+
+  try {
+    await request(['uci'], line => line === 'uciok', HANDSHAKE_TIMEOUT_MS, line => {
+      if (line.startsWith('id name ')) name = line.slice('id name '.length)
+      const option = parseOption(line)
+      if (option) options.set(option.name, option)
+    })
+    await request(['isready'], line => line === 'readyok', HANDSHAKE_TIMEOUT_MS)
+  } catch (error) {
+    kill()
+    throw error
+  }
+  return engine
+}
+
+// A bounded set of engine processes shared by requests; engines are started on demand,
+// kept for reuse and replaced after crashing or hanging
+export interface UciEnginePool {
+  enginePath: string
+  // Run `task` with an engine to itself, waiting for one to come free if all are busy
+  withEngine: <T>(task: (engine: UciEngine) => Promise<T>) => Promise<T>
+  close: () => void
+}
+
+export const createUciEnginePool = (enginePath: string, size: number = DEFAULT_POOL_SIZE): UciEnginePool => {
+  const idle: { engine: UciEngine; timer: NodeJS.Timeout }[] = []
+  const waiting: (() => void)[] = []
+  let busy = 0
+
+  const acquire = async (): Promise<UciEngine> => {
+    while (busy >= size) await new Promise<void>(resolve => waiting.push(resolve))
+    busy++
+    for (let entry = idle.pop(); entry; entry = idle.pop()) {
+      clearTimeout(entry.timer)
+      if (entry.engine.isAlive()) return entry.engine
+    }
+    try {
+      return await startUciEngine(enginePath)
+    } catch (error) {
+      busy--
+      waiting.shift()?.()
+      throw error
+    }
+  }
+
+  const release = (engine: UciEngine) => {
+    busy--
+    if (engine.isAlive()) {
+      const timer = setTimeout(() => {
+        idle.splice(idle.findIndex(entry => entry.engine === engine), 1)
+        engine.quit()
+      }, IDLE_TIMEOUT_MS)
+      timer.unref()
+      idle.push({ engine, timer })
+    }
+    waiting.shift()?.()
+  }
+
+  return {
+    enginePath,
+    withEngine: async (task) => {
+      const engine = await acquire()
+      try {
+        return await task(engine)
+      } finally {
+        release(engine)
+      }
+    },
+    close: () => {
+      idle.splice(0).forEach(({ engine, timer }) => {
+        clearTimeout(timer)
+        engine.quit()
+      })
+    }
+  }
+}
+
+let enginePool: UciEnginePool | null = null
+
+// The shared pool for the engine at UCI_ENGINE_PATH (UCI_ENGINE_POOL_SIZE processes at most),
+// or null if no engine is configured
+export const getUciEnginePool = (): UciEnginePool | null => {
+  const enginePath = process.env.UCI_ENGINE_PATH
+  if (!enginePath) return null
+  if (!enginePool || enginePool.enginePath !== enginePath) {
+    enginePool?.close()
+    const size = Number(process.env.UCI_ENGINE_POOL_SIZE)
+    enginePool = createUciEnginePool(enginePath, Number.isInteger(size) && size > 0 ? size : DEFAULT_POOL_SIZE)
+  }
+  return enginePool
+}
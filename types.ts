@@ -1,6 +1,11 @@
 import { Square } from 'chess.js'
+import { DifficultyLevel } from '@/lib/difficulty'
+import type { AIMoveProviderName } from '@/lib/providers/provider'
+import type { TablebaseResult } from '@/lib/engine/tablebase'
+import type { GameEndReason } from '@/lib/chess'
 
-export type GameStatus = 'playing' | 'check' | 'checkmate' | 'stalemate' | 'draw'
+// 'timeout' is a loss on time, which only the clock knows about
+export type GameStatus = 'playing' | 'check' | 'checkmate' | 'stalemate' | 'draw' | 'timeout'
 
 export type PlayerColor = 'white' | 'black'
 
@@ -21,6 +26,48 @@ export interface MoveData {
   promotion?: string
 }
 
+// Move chosen by the AI move route
+export interface AIMoveData extends MoveData {
+  san: string
+}
+
+// Where a move from the AI move route came from: the opening book, the AI provider, a
+// deliberate mistake at the chosen difficulty, or the local engine after the provider kept failing
+export type AIMoveSource = 'book' | 'tablebase' | 'ai' | 'mistake' | 'engine'
+
+export interface AIMoveResponse {
+  move: AIMoveData
+  attempts: number // provider calls made
+  source: AIMoveSource
+  provider: AIMoveProviderName // the provider that was asked
+  tablebase?: TablebaseResult // exact result for the side that moved, when the tablebase chose the move
+  logs: string[]
+}
+
+// A move the AI provider proposed, and whether the route accepted it
+export interface AIMoveCandidate {
+  attempt: number
+  move: string // the provider's answer as given
+  accepted: boolean
+  reason?: string // why it was rejected
+}
+
+// Progress streamed by the AI move route when asked for text/event-stream; each
+// event's name is its type
+export type AIMoveStreamEvent =
+  | { type: 'log'; message: string }
+  | { type: 'candidate'; candidate: AIMoveCandidate }
+  | { type: 'result'; response: AIMoveResponse }
+  | { type: 'error'; error: string; logs: string[] }
+
+// Suggested move from the hint route, with the idea behind it and the likely reply
+export interface AIHintResponse {
+  move: string // SAN
+  explanation: string
+  expectedReply: string | null // SAN, null if the move ends the game
+  logs: string[]
+}
+
 export interface ChessGameProps {
   onGameEnd?: (winner: PlayerColor | 'draw') => void
   playerColor?: PlayerColor
@@ -49,7 +96,7 @@ export interface GameControlsProps {
 export type ChessSquare = Square
 export type ChessPiece = 'p' | 'n' | 'b' | 'r' | 'q' | 'k' | 'P' | 'N' | 'B' | 'R' | 'Q' | 'K'
 
-// Game results for potential storage in Cosmic
+// A finished game, as saved through /api/games
 export interface GameResult {
   id?: string
   pgn: string
@@ -59,4 +106,9 @@ export interface GameResult {
   date: string
   playerColor: PlayerColor
   finalFen: string
+  difficulty?: DifficultyLevel
+  hintsUsed?: number // positions the player asked for a hint in
+  eco?: string // ECO code of the opening played, e.g. "C65"
+  opening?: string // its name, e.g. "Ruy Lopez: Berlin Defence"
+  endReason?: GameEndReason // how the game ended, e.g. "checkmate" or "timeout"
 }
\ No newline at end of file